@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // Loaded from node_modules at runtime: chromium-min unpacks its browser next to its own files
+  serverExternalPackages: ['puppeteer-core', '@sparticuz/chromium-min'],
   async rewrites() {
     return [
       {
@@ -25,7 +27,7 @@ const nextConfig: NextConfig = {
           },
           {
             key: 'Access-Control-Allow-Headers',
-            value: 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version',
+            value: 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version, Idempotency-Key',
           },
         ],
       },
@@ -0,0 +1,49 @@
+import { loadEnvConfig } from '@next/env';
+
+// Load .env.local the same way `next dev` does, before anything reads process.env
+loadEnvConfig(process.cwd());
+
+// Each section starts a new page after the contents page; two ids have to be URL-encoded in links
+const SECTIONS = [
+  { id: 'welcome', title: 'Welcome' },
+  { id: 'café', title: 'Café' },
+  { id: 'safety and health', title: 'Safety and health' },
+  { id: 'leave', title: 'Leave' }
+];
+
+/**
+ * Render a sample document with a table of contents on this server's Chromium and check that the page
+ * of every heading is read back from the PDF: `npm run check-pdf-toc`, e.g. after upgrading Chrome
+ */
+async function main() {
+  const { readPdfOptions, renderPdf } = await import('@/utils/renderers');
+  const { readDestinationPages } = await import('@/utils/renderers/pdf-destinations');
+
+  const body = SECTIONS
+    .map(({ id, title }) => `<h2 id="${id}">${title}</h2><p>${title} text.</p>`)
+    .join('<div class="page-break"></div>');
+  const pdf = await renderPdf(`<html><body>${body}</body></html>`, readPdfOptions({ layout: 'paginated', toc: true }), 'TOC check');
+  const pages = readDestinationPages(pdf);
+
+  let failed = 0;
+  SECTIONS.forEach(({ id }, index) => {
+    const expected = index + 2;
+    const found = pages.get(id);
+    if (found !== expected) failed++;
+    console.log(`${found === expected ? 'ok' : 'FAILED'}: "${id}" on page ${found ?? '(not found)'}, expected ${expected}`);
+  });
+
+  if (failed > 0) {
+    console.error(`${failed} of ${SECTIONS.length} heading pages were not read correctly; tables of contents will miss page numbers`);
+    process.exit(1);
+  }
+
+  console.log('Heading pages are read correctly from this Chromium\'s PDFs');
+  // The browser pool keeps its browser open
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('TOC check failed:', error);
+  process.exit(1);
+});
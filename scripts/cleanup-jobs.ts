@@ -0,0 +1,27 @@
+import { loadEnvConfig } from '@next/env';
+
+// Load .env.local the same way `next dev` does, before anything reads process.env
+loadEnvConfig(process.cwd());
+
+/**
+ * Run the retention cleanup once: `npm run cleanup`, or `npm run cleanup -- --dry-run` to only list
+ */
+async function main() {
+  const { runRetentionCleanup } = await import('@/utils/job-retention');
+  const dryRun = process.argv.includes('--dry-run');
+
+  const report = await runRetentionCleanup({ dryRun });
+
+  console.log('Retention policy (days, null = forever):', report.policy);
+  for (const job of report.jobs) {
+    console.log(`${dryRun ? 'Would delete' : 'Deleted'} ${job.status} job ${job.job_id} (updated ${job.updated_at})`);
+  }
+  console.log(dryRun
+    ? `${report.jobs.length} jobs would be deleted`
+    : `${report.deleted} jobs deleted`);
+}
+
+main().catch(error => {
+  console.error('Cleanup failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,20 @@
+import { loadEnvConfig } from '@next/env';
+
+// Load .env.local the same way `next dev` does, before anything reads process.env
+loadEnvConfig(process.cwd());
+
+async function main() {
+  const { runWorker } = await import('@/utils/job-queue');
+
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  await runWorker({ signal: controller.signal });
+}
+
+main().catch(error => {
+  console.error('Job worker crashed:', error);
+  process.exit(1);
+});
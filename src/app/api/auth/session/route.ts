@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthProvider, getCurrentUser } from '@/utils/auth';
+import { errorResponse } from '@/utils/error-response';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * The signed-in user (null when signed out) and what the sign-in page should offer
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const provider = getAuthProvider();
+
+    return NextResponse.json({
+      user: getCurrentUser(request),
+      provider: { name: provider.name, canSignUp: provider.canSignUp }
+    });
+  } catch (error) {
+    return errorResponse(error, 'Session error');
+  }
+}
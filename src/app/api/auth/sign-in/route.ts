@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthProvider, normalizeEmail, setSessionCookie } from '@/utils/auth';
+import { ValidationError } from '@/utils/api-errors';
+import { errorResponse } from '@/utils/error-response';
+
+/**
+ * Sign in with { email, password } and start a session cookie
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { email: rawEmail, password } = await request.json().catch(() => ({}));
+    const email = normalizeEmail(rawEmail);
+
+    if (!email) {
+      throw new ValidationError('A valid email is required', { field: 'email' });
+    }
+
+    const user = await getAuthProvider().signIn(email, typeof password === 'string' ? password : '');
+    const response = NextResponse.json({ user });
+    setSessionCookie(response, user);
+    return response;
+  } catch (error) {
+    return errorResponse(error, 'Sign-in error');
+  }
+}
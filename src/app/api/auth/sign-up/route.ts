@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthProvider, normalizeEmail, setSessionCookie } from '@/utils/auth';
+import { ValidationError } from '@/utils/api-errors';
+import { errorResponse } from '@/utils/error-response';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Create an account with { email, password } and sign it in
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const provider = getAuthProvider();
+
+    if (!provider.canSignUp) {
+      throw new ValidationError(`The ${provider.name} auth provider does not support sign-up`);
+    }
+
+    const { email: rawEmail, password } = await request.json().catch(() => ({}));
+    const email = normalizeEmail(rawEmail);
+
+    if (!email) {
+      throw new ValidationError('A valid email is required', { field: 'email' });
+    }
+
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      throw new ValidationError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`, { field: 'password' });
+    }
+
+    const user = await provider.signUp(email, password);
+    const response = NextResponse.json({ user });
+    setSessionCookie(response, user);
+    return response;
+  } catch (error) {
+    return errorResponse(error, 'Sign-up error');
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/utils/job-store';
+import { requireUser } from '@/utils/auth';
+import { documentNotFound } from '@/utils/document-access';
+import { ValidationError } from '@/utils/api-errors';
+import { errorResponse } from '@/utils/error-response';
+import { buildBatchZip, getBatchZipName } from '@/utils/batches';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * The batch's completed documents as a ZIP of PDF or DOCX files (owner only), BATCH_ZIP_PART_SIZE per part.
+ * Query: format=pdf|docx (default pdf), part (from 1, default 1)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const batch = await getJobStore().getBatch(id);
+
+  if (!batch || batch.owner_id !== user.id) {
+    return documentNotFound('Batch');
+  }
+
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get('format') || 'pdf';
+  if (format !== 'pdf' && format !== 'docx') {
+    return errorResponse(new ValidationError('format must be pdf or docx', { field: 'format' }), 'Batch download');
+  }
+
+  const part = Number(searchParams.get('part') || 1);
+  if (!Number.isInteger(part) || part < 1) {
+    return errorResponse(new ValidationError('part must be a positive whole number', { field: 'part' }), 'Batch download');
+  }
+
+  try {
+    const zip = await buildBatchZip(batch, format, part);
+
+    return new Response(zip, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${getBatchZipName(batch, format, part)}"`
+      }
+    });
+  } catch (error) {
+    return errorResponse(error, 'Batch download');
+  }
+}
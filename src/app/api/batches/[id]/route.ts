@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/utils/job-store';
+import { requireUser } from '@/utils/auth';
+import { documentNotFound } from '@/utils/document-access';
+import { getBatchProgress } from '@/utils/batches';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Progress of a batch: status counts and its documents in upload order (owner only)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const batch = await getJobStore().getBatch(id);
+
+  if (!batch || batch.owner_id !== user.id) {
+    return documentNotFound('Batch');
+  }
+
+  return NextResponse.json(await getBatchProgress(batch));
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/utils/job-store';
+import { requireUser } from '@/utils/auth';
+import { StorageError, ValidationError } from '@/utils/api-errors';
+import { errorResponse } from '@/utils/error-response';
+import { checkRateLimits, consumeQuota, getClientId, refundQuota } from '@/utils/rate-limit';
+import { createDocumentBatch, getBatchProgress, readBatchUpload } from '@/utils/batches';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * The user's batches, newest first, with their status counts
+ */
+export async function GET(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const batches = await getJobStore().listBatches(user.id);
+  const withProgress = await Promise.all(batches.map(async (batch) => {
+    const { counts, finished } = await getBatchProgress(batch);
+    return { ...batch, counts, finished };
+  }));
+
+  return NextResponse.json({ batches: withProgress });
+}
+
+/**
+ * Queue one document per row of an uploaded file.
+ * Body: { name: string, format: 'csv' | 'json', content: string, template?: string }
+ * The whole batch counts against the rate limits once and against the daily quota per document.
+ */
+export async function POST(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { name, format, content, template } = await request.json().catch(() => ({}));
+
+    if (format !== 'csv' && format !== 'json') {
+      throw new ValidationError('format must be csv or json', { field: 'format' });
+    }
+
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new ValidationError('content must be the text of the uploaded file', { field: 'content' });
+    }
+
+    if (template !== undefined && template !== null && typeof template !== 'string') {
+      throw new ValidationError('template must be a string', { field: 'template' });
+    }
+
+    const items = readBatchUpload(content, format, template);
+
+    await checkRateLimits(user.id, getClientId(request));
+    await consumeQuota(user.id, items.length);
+
+    const batchName = typeof name === 'string' && name.trim() ? name.trim().slice(0, 200) : `Batch of ${items.length}`;
+    const created = await createDocumentBatch(user.id, batchName, items, template).catch(async error => {
+      await refundQuota(user.id, items.length);
+      throw error;
+    });
+
+    if (!created) {
+      await refundQuota(user.id, items.length);
+      throw new StorageError();
+    }
+
+    if (created.queued < items.length) {
+      await refundQuota(user.id, items.length - created.queued);
+    }
+
+    return NextResponse.json({ batch: created.batch, queued: created.queued }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Batch upload');
+  }
+}
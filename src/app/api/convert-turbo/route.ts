@@ -1,69 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
-import HtmlToDocx from '@turbodocx/html-to-docx';
+import { readTocOptions, renderDocx } from '@/utils/renderers';
+import { ValidationError } from '@/utils/api-errors';
+import { errorResponse } from '@/utils/error-response';
 
+/**
+ * Convert HTML to a DOCX download.
+ * Body: { html, toc?, tocDepth? } (see readTocOptions)
+ */
 export async function POST(req: NextRequest) {
   try {
     console.log('Starting HTML to DOCX conversion');
-    const { html } = await req.json();
-    if (!html) {
-      return new NextResponse('Missing html content', { status: 400 });
+    const body = await req.json().catch(() => null);
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new ValidationError('Request body must be a JSON object');
     }
 
-    console.log('HTML content length:', html?.length);
-    
-    // Create a simple HTML structure for testing
-    const cleanHtml = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="UTF-8">
-        <title>Document</title>
-        <style>
-          body { font-family: Arial; margin: 40px; }
-          p { margin-bottom: 10px; }
-        </style>
-      </head>
-      <body>
-        ${html}
-      </body>
-      </html>
-    `;
+    const { html } = body;
+    if (typeof html !== 'string' || !html) {
+      throw new ValidationError('Missing html content', { field: 'html' });
+    }
+    const tocOptions = readTocOptions(body);
 
-    // Use minimal options for TurboDocx
-    const docxBuffer = await HtmlToDocx(
-      cleanHtml,
-      undefined,
-      {
-        orientation: 'portrait',
-        pageSize: { width: 12240, height: 15840 }, // A4 dimensions in twips
-        margins: { top: 1440, right: 1440, bottom: 1440, left: 1440 }
-      }
-    );
+    console.log('HTML content length:', html.length);
 
-    // Convert the result to a proper Buffer object
-    let buffer: Buffer;
-    if (Buffer.isBuffer(docxBuffer)) {
-      buffer = docxBuffer;
-    } else if (docxBuffer instanceof ArrayBuffer) {
-      buffer = Buffer.from(new Uint8Array(docxBuffer));
-    } else if (typeof docxBuffer === 'object') {
-      // Handle any other object type that might be returned
-      try {
-        // Try to convert to array buffer first if it's a Blob
-        if ('arrayBuffer' in docxBuffer && typeof docxBuffer.arrayBuffer === 'function') {
-          const arrayBuffer = await docxBuffer.arrayBuffer();
-          buffer = Buffer.from(new Uint8Array(arrayBuffer));
-        } else {
-          // Fall back to direct Buffer conversion
-          buffer = Buffer.from(docxBuffer as any);
-        }
-      } catch (bufferError) {
-        console.error('Error converting to Buffer:', bufferError);
-        throw new Error('Failed to convert DOCX content to Buffer');
-      }
-    } else {
-      throw new Error(`Unexpected docxBuffer type: ${typeof docxBuffer}`);
-    }
+    const buffer = await renderDocx(html, 'DOCX export', tocOptions);
     
     // Create response with proper headers for file download
     const response = new NextResponse(buffer);
@@ -72,7 +33,6 @@ export async function POST(req: NextRequest) {
     
     return response;
   } catch (error) {
-    console.error('Error converting HTML to DOCX:', error);
-    return new NextResponse(`Error converting to DOCX: ${error instanceof Error ? error.message : String(error)}`, { status: 500 });
+    return errorResponse(error, 'Error converting HTML to DOCX');
   }
 }
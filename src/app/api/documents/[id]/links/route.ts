@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore, DocumentShareLink } from '@/utils/job-store';
+import { requireUser } from '@/utils/auth';
+import { documentNotFound, getJobForUser } from '@/utils/document-access';
+import { createShareLink, getShareLinkStatus } from '@/utils/share-links';
+import { StorageError, ValidationError } from '@/utils/api-errors';
+import { errorResponse } from '@/utils/error-response';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * The document's read-only share links, including expired and revoked ones (owner only)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id: documentId } = await params;
+  const found = await getJobForUser(documentId, user, 'owner');
+
+  if (!found || found.job.document_id) {
+    return documentNotFound();
+  }
+
+  const links = await getJobStore().listShareLinks(documentId);
+  return NextResponse.json({ documentId, links: links.map(withStatus) });
+}
+
+/**
+ * Create a read-only share link: { expiresInDays? }. Without expiresInDays the link works until revoked.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { expiresInDays } = await request.json().catch(() => ({}));
+  if (expiresInDays != null && !(typeof expiresInDays === 'number' && expiresInDays > 0 && isFinite(expiresInDays))) {
+    return errorResponse(new ValidationError('expiresInDays must be a positive number', { field: 'expiresInDays' }), 'Share link');
+  }
+
+  const { id: documentId } = await params;
+  const found = await getJobForUser(documentId, user, 'owner');
+
+  if (!found || found.job.document_id) {
+    return documentNotFound();
+  }
+
+  const link = await createShareLink(documentId, user.id, expiresInDays);
+  if (!link) {
+    return errorResponse(new StorageError('Failed to create share link'), 'Share link');
+  }
+
+  return NextResponse.json({ documentId, link: withStatus(link) }, { status: 201 });
+}
+
+/**
+ * Revoke a share link: ?linkId=. Anyone opening it afterwards gets a 404.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const linkId = request.nextUrl.searchParams.get('linkId');
+  if (!linkId) {
+    return errorResponse(new ValidationError('linkId is required', { field: 'linkId' }), 'Share link');
+  }
+
+  const { id: documentId } = await params;
+  const found = await getJobForUser(documentId, user, 'owner');
+
+  if (!found || found.job.document_id) {
+    return documentNotFound();
+  }
+
+  if (!(await getJobStore().revokeShareLink(documentId, linkId))) {
+    return documentNotFound('Share link');
+  }
+
+  return NextResponse.json({ documentId, linkId, status: 'revoked' });
+}
+
+function withStatus(link: DocumentShareLink) {
+  return { ...link, status: getShareLinkStatus(link) };
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/utils/job-store';
+import { formatTranscript } from '@/utils/document-messages';
+import { requireUser } from '@/utils/auth';
+import { documentNotFound, getJobForUser } from '@/utils/document-access';
+
+/**
+ * The document's chat, oldest first.
+ * `?format=markdown` downloads the conversation as a Markdown transcript.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id: documentId } = await params;
+  const found = await getJobForUser(documentId, user);
+
+  // Chat jobs share their document's chat, so only the document's own ID is accepted
+  if (!found || found.job.document_id) {
+    return documentNotFound();
+  }
+
+  const messages = await getJobStore().listMessages(documentId);
+
+  if (request.nextUrl.searchParams.get('format') === 'markdown') {
+    return new Response(formatTranscript(documentId, messages), {
+      headers: {
+        'Content-Type': 'text/markdown; charset=utf-8',
+        'Content-Disposition': `attachment; filename="chat-${documentId}.md"`
+      }
+    });
+  }
+
+  return NextResponse.json({ documentId, messages });
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/utils/job-store';
+import { requireUser } from '@/utils/auth';
+import { documentNotFound, getJobForUser } from '@/utils/document-access';
+
+/**
+ * Pin a document so the retention cleanup never deletes it
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return setPinned(request, params, true);
+}
+
+/**
+ * Unpin a document; it falls under the retention policy for its status again
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return setPinned(request, params, false);
+}
+
+// Only the owner decides how long a document is kept
+async function setPinned(request: NextRequest, params: Promise<{ id: string }>, pinned: boolean) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id: documentId } = await params;
+  if (!(await getJobForUser(documentId, user, 'owner'))) {
+    return documentNotFound();
+  }
+
+  await getJobStore().updateJob(documentId, { pinned });
+
+  return NextResponse.json({ documentId, pinned });
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { describeJob } from '@/utils/job-status';
+import { requireUser } from '@/utils/auth';
+import { documentNotFound, getJobForUser } from '@/utils/document-access';
+import { sanitizeForRender } from '@/utils/html-sanitizer';
+
+/**
+ * The document's current HTML as a page of its own, used for dashboard thumbnails
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id: documentId } = await params;
+  const job = (await getJobForUser(documentId, user))?.document;
+
+  if (!job) {
+    return documentNotFound();
+  }
+
+  return new Response(sanitizeForRender(describeJob(job).html || '', `document ${documentId}`), {
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      // Generated HTML must not run scripts on our origin
+      'Content-Security-Policy': 'sandbox',
+      'Cache-Control': 'private, max-age=30'
+    }
+  });
+}
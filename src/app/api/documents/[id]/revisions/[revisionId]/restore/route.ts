@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/utils/job-store';
+import { restoreRevision } from '@/utils/document-revisions';
+import { recordAssistantMessage } from '@/utils/document-messages';
+import { requireUser } from '@/utils/auth';
+import { documentNotFound, getJobForUser } from '@/utils/document-access';
+
+/**
+ * Make an earlier revision the current version of the document.
+ * Responds with the new revision created by the restore.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id: documentId, revisionId } = await params;
+  if (!(await getJobForUser(documentId, user, 'write'))) {
+    return documentNotFound();
+  }
+
+  const source = await getJobStore().getRevision(revisionId);
+  const revision = source && await restoreRevision(documentId, revisionId);
+
+  if (!source || !revision) {
+    return documentNotFound('Revision');
+  }
+
+  // Keep the chat in step with the history
+  await recordAssistantMessage(documentId, `Restored revision ${source.revision_number}.`);
+
+  return NextResponse.json(revision);
+}
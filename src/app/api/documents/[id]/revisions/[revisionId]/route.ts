@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/utils/job-store';
+import { requireUser } from '@/utils/auth';
+import { documentNotFound, getJobForUser } from '@/utils/document-access';
+import { withSanitizedHtml } from '@/utils/html-sanitizer';
+
+/**
+ * A single revision including its HTML, for previewing
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id: documentId, revisionId } = await params;
+  if (!(await getJobForUser(documentId, user))) {
+    return documentNotFound();
+  }
+
+  const revision = await getJobStore().getRevision(revisionId);
+
+  if (!revision || revision.document_id !== documentId) {
+    return documentNotFound('Revision');
+  }
+
+  return NextResponse.json(withSanitizedHtml(revision, `revision ${revisionId}`));
+}
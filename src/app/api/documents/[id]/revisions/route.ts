@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/utils/job-store';
+import { requireUser } from '@/utils/auth';
+import { documentNotFound, getJobForUser } from '@/utils/document-access';
+
+/**
+ * Revision history of a document, newest first.
+ * HTML is left out to keep the list small; fetch a single revision to preview it.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id: documentId } = await params;
+  const found = await getJobForUser(documentId, user);
+
+  if (!found || found.job.document_id) {
+    return documentNotFound();
+  }
+
+  const { document } = found;
+  const revisions = await getJobStore().listRevisions(documentId);
+
+  return NextResponse.json({
+    documentId,
+    currentRevisionId: document.current_revision_id ?? null,
+    revisions: revisions.map(({ html, ...revision }) => revision)
+  });
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/utils/job-store';
+import { normalizeEmail, requireUser } from '@/utils/auth';
+import { documentNotFound, getJobForUser } from '@/utils/document-access';
+import { ValidationError } from '@/utils/api-errors';
+import { errorResponse } from '@/utils/error-response';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * Users the document is shared with (owner only)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id: documentId } = await params;
+  const found = await getJobForUser(documentId, user, 'owner');
+
+  if (!found || found.job.document_id) {
+    return documentNotFound();
+  }
+
+  return NextResponse.json({ documentId, sharedWith: found.document.shared_with || [] });
+}
+
+/**
+ * Share the document with another user by email: { email }.
+ * They can read it, chat with it and restore revisions.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { email } = await request.json().catch(() => ({}));
+  return updateShares(request, params, email, (sharedWith, address) =>
+    sharedWith.includes(address) ? sharedWith : [...sharedWith, address]
+  );
+}
+
+/**
+ * Stop sharing the document with a user: ?email=
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return updateShares(request, params, request.nextUrl.searchParams.get('email'), (sharedWith, address) =>
+    sharedWith.filter(existing => existing !== address)
+  );
+}
+
+async function updateShares(
+  request: NextRequest,
+  params: RouteParams['params'],
+  rawEmail: unknown,
+  change: (sharedWith: string[], email: string) => string[]
+) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const email = normalizeEmail(rawEmail);
+  if (!email) {
+    return errorResponse(new ValidationError('A valid email is required', { field: 'email' }), 'Sharing');
+  }
+
+  const { id: documentId } = await params;
+  const found = await getJobForUser(documentId, user, 'owner');
+
+  if (!found || found.job.document_id) {
+    return documentNotFound();
+  }
+
+  const sharedWith = change(found.document.shared_with || [], email);
+  await getJobStore().updateJob(documentId, { shared_with: sharedWith });
+
+  return NextResponse.json({ documentId, sharedWith });
+}
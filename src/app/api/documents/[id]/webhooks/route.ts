@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/utils/job-store';
+import { requireUser } from '@/utils/auth';
+import { documentNotFound, getJobForUser } from '@/utils/document-access';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * Delivery log of the webhooks sent for the document's jobs, newest first (owner only)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id: documentId } = await params;
+  const found = await getJobForUser(documentId, user, 'owner');
+
+  if (!found || found.job.document_id) {
+    return documentNotFound();
+  }
+
+  const deliveries = await getJobStore().listWebhookDeliveries(documentId);
+  return NextResponse.json({ documentId, deliveries });
+}
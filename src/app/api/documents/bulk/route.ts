@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/utils/job-store';
+import { rerunDocument } from '@/utils/job-queue';
+import { requireUser } from '@/utils/auth';
+import { getJobForUser } from '@/utils/document-access';
+import { consumeQuota, refundQuota } from '@/utils/rate-limit';
+import { ValidationError } from '@/utils/api-errors';
+import { errorResponse } from '@/utils/error-response';
+
+const MAX_BULK_IDS = 100;
+
+/**
+ * Apply an action to several documents at once.
+ * Body: { action: 'delete' | 'rerun', ids: string[] }
+ * Deleting needs ownership, re-running write access; other IDs are reported as `skipped`.
+ */
+export async function POST(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { action, ids } = await request.json().catch(() => ({}));
+
+    if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string')) {
+      throw new ValidationError('ids must be a non-empty array of document IDs', { field: 'ids' });
+    }
+
+    if (ids.length > MAX_BULK_IDS) {
+      throw new ValidationError(`At most ${MAX_BULK_IDS} documents per request`, { field: 'ids' });
+    }
+
+    if (action !== 'delete' && action !== 'rerun') {
+      throw new ValidationError('action must be delete or rerun', { field: 'action' });
+    }
+
+    const allowed: string[] = [];
+    const skipped: string[] = [];
+    for (const documentId of ids as string[]) {
+      const found = await getJobForUser(documentId, user, action === 'delete' ? 'owner' : 'write');
+      (found && !found.job.document_id ? allowed : skipped).push(documentId);
+    }
+
+    if (action === 'delete') {
+      const deleted = allowed.length > 0 ? await getJobStore().deleteDocuments(allowed) : 0;
+      return NextResponse.json({ action, deleted, skipped });
+    }
+
+    // Re-runs are new generations and come out of the daily quota, all or nothing
+    await consumeQuota(user.id, allowed.length);
+
+    // Each re-run is queued as a new revision of its document
+    const jobs = await Promise.all(allowed.map(async (documentId) => {
+      const job = await rerunDocument(documentId, user.id);
+      return { documentId, jobId: job?.job_id ?? null };
+    }));
+
+    const notQueued = jobs.filter(job => !job.jobId).length;
+    if (notQueued > 0) {
+      await refundQuota(user.id, notQueued);
+    }
+
+    return NextResponse.json({ action, jobs, skipped });
+  } catch (error) {
+    return errorResponse(error, 'Bulk action');
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/utils/job-store';
+import { requireUser } from '@/utils/auth';
+import { getJobForUser } from '@/utils/document-access';
+import { ValidationError } from '@/utils/api-errors';
+import { errorResponse } from '@/utils/error-response';
+
+const MAX_EXPORT_IDS = 50;
+
+/**
+ * Download several documents as one JSON file: current HTML, revision history and chat.
+ * Body: { ids: string[] }
+ */
+export async function POST(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { ids } = await request.json().catch(() => ({}));
+
+    if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string')) {
+      throw new ValidationError('ids must be a non-empty array of document IDs', { field: 'ids' });
+    }
+
+    if (ids.length > MAX_EXPORT_IDS) {
+      throw new ValidationError(`At most ${MAX_EXPORT_IDS} documents per export`, { field: 'ids' });
+    }
+
+    const store = getJobStore();
+    const documents = [];
+
+    for (const documentId of ids as string[]) {
+      // Documents the user may not read are left out
+      const found = await getJobForUser(documentId, user);
+      if (!found || found.job.document_id) continue;
+      const { job } = found;
+
+      const [revisions, messages] = await Promise.all([
+        store.listRevisions(documentId),
+        store.listMessages(documentId)
+      ]);
+
+      documents.push({
+        documentId,
+        status: job.status,
+        prompt: job.prompt,
+        html: job.html ?? null,
+        createdAt: job.created_at,
+        updatedAt: job.updated_at,
+        revisions,
+        messages
+      });
+    }
+
+    const exportedAt = new Date().toISOString();
+    return new Response(JSON.stringify({ exportedAt, documents }, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="documents-${exportedAt.slice(0, 10)}.json"`
+      }
+    });
+  } catch (error) {
+    return errorResponse(error, 'Document export');
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore, DocumentJobStatus, ListDocumentsQuery } from '@/utils/job-store';
+import { requireUser } from '@/utils/auth';
+import { ValidationError } from '@/utils/api-errors';
+import { errorResponse } from '@/utils/error-response';
+
+const STATUSES: DocumentJobStatus[] = ['pending', 'processing', 'completed', 'failed', 'cancelled'];
+const SORT_FIELDS = ['created_at', 'updated_at', 'status'] as const;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * List the signed-in user's documents, and those shared with them, for the /documents dashboard.
+ *
+ * Query parameters:
+ * - `page`, `pageSize` (1-based, default 20, at most 100)
+ * - `status` comma-separated statuses
+ * - `from`, `to` creation date range (ISO dates; `to` covers the whole day)
+ * - `sort` created_at | updated_at | status, `order` asc | desc
+ */
+export async function GET(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const searchParams = request.nextUrl.searchParams;
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(searchParams.get('pageSize')) || 20));
+
+  const status = searchParams.get('status')?.split(',').filter(Boolean);
+  if (status && status.some(value => !STATUSES.includes(value as DocumentJobStatus))) {
+    return errorResponse(new ValidationError(`status must be one of ${STATUSES.join(', ')}`, { field: 'status' }), 'Document list');
+  }
+
+  const sort = searchParams.get('sort') || 'created_at';
+  if (!SORT_FIELDS.includes(sort as typeof SORT_FIELDS[number])) {
+    return errorResponse(new ValidationError(`sort must be one of ${SORT_FIELDS.join(', ')}`, { field: 'sort' }), 'Document list');
+  }
+
+  const createdFrom = parseDate(searchParams.get('from'));
+  const createdTo = parseDate(searchParams.get('to'), true);
+  if (createdFrom === null || createdTo === null) {
+    return errorResponse(new ValidationError('from and to must be valid dates', { field: createdFrom === null ? 'from' : 'to' }), 'Document list');
+  }
+
+  const query: ListDocumentsQuery = {
+    accessibleTo: { userId: user.id, email: user.email },
+    status: status?.length ? status as DocumentJobStatus[] : undefined,
+    createdFrom,
+    createdTo,
+    sortBy: sort as ListDocumentsQuery['sortBy'],
+    ascending: searchParams.get('order') === 'asc',
+    offset: (page - 1) * pageSize,
+    limit: pageSize
+  };
+
+  try {
+    const { documents, total } = await getJobStore().listDocuments(query);
+
+    return NextResponse.json({
+      documents: documents.map(document => ({
+        ...document,
+        access: document.owner_id === user.id ? 'owner' : 'write'
+      })),
+      page,
+      pageSize,
+      total,
+      totalPages: Math.max(1, Math.ceil(total / pageSize))
+    });
+  } catch (error) {
+    return errorResponse(error, 'Document list');
+  }
+}
+
+// undefined when absent, null when invalid
+function parseDate(value: string | null, endOfDay = false): string | undefined | null {
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+
+  // A bare date as the upper bound includes that whole day
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+
+  return date.toISOString();
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore, DocumentJob } from '@/utils/job-store';
+import { describeJob, isFinishedStatus } from '@/utils/job-status';
+import { requireUser } from '@/utils/auth';
+import { sanitizeForRender, withSanitizedHtml } from '@/utils/html-sanitizer';
+import { documentNotFound, getJobForUser } from '@/utils/document-access';
+
+export const dynamic = 'force-dynamic';
+
+// How often the stream re-reads the job, and how often it sends a keep-alive comment
+const POLL_INTERVAL_MS = Number(process.env.JOB_EVENTS_POLL_INTERVAL_MS || 1000);
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Server-Sent Events stream for a single job.
+ *
+ * Events:
+ * - `status`   full job payload whenever the status or attempt count changes
+ * - `progress` { message } when the generator reports a new progress message
+ * - `html`     { html } when the partial (or placeholder) HTML changes while the job is running
+ * - `done`     final job payload; the stream closes afterwards
+ * - `missing`  the job disappeared while streaming (e.g. it was cleaned up)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id: jobId } = await params;
+  const initialJob = (await getJobForUser(jobId, user))?.job;
+
+  if (!initialJob) {
+    return documentNotFound('Job');
+  }
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      let lastStatusKey = '';
+      let lastProgress: string | null | undefined;
+      let lastHtml: string | undefined;
+      let lastHeartbeat = Date.now();
+
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+
+      request.signal.addEventListener('abort', close);
+
+      let job = initialJob;
+      while (!closed) {
+        const payload = describeJob(job);
+
+        if (isFinishedStatus(job.status)) {
+          send('done', withSanitizedHtml(payload, `job ${jobId}`));
+          close();
+          break;
+        }
+
+        const statusKey = `${job.status}:${job.attempts}`;
+        if (statusKey !== lastStatusKey) {
+          lastStatusKey = statusKey;
+          send('status', withSanitizedHtml(payload, `job ${jobId}`));
+        }
+
+        if (job.progress_message && job.progress_message !== lastProgress) {
+          lastProgress = job.progress_message;
+          send('progress', { message: job.progress_message });
+        }
+
+        // Until the generator reports partial HTML this is the loading placeholder
+        if (payload.html && payload.html !== lastHtml) {
+          lastHtml = payload.html;
+          send('html', { html: sanitizeForRender(payload.html, `job ${jobId}`) });
+        }
+
+        if (Date.now() - lastHeartbeat >= HEARTBEAT_INTERVAL_MS && !closed) {
+          lastHeartbeat = Date.now();
+          controller.enqueue(encoder.encode(': keep-alive\n\n'));
+        }
+
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        if (closed) break;
+
+        let nextJob: DocumentJob | null;
+        try {
+          nextJob = await getJobStore().getJob(jobId);
+        } catch (error) {
+          // A storage error says nothing about the job; keep the last state and read again on the next tick
+          console.warn(`Could not re-read job ${jobId} for its event stream:`, error);
+          continue;
+        }
+
+        if (!nextJob) {
+          send('missing', { error: 'Job not found', status: 'not_found' });
+          close();
+          break;
+        }
+        job = nextJob;
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      // Disable response buffering in nginx-style proxies
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/utils/job-store';
+import { cancelDocumentJob } from '@/utils/job-queue';
+import { requireUser } from '@/utils/auth';
+import { documentNotFound, getJobForUser } from '@/utils/document-access';
+import { withSanitizedHtml } from '@/utils/html-sanitizer';
+
+/**
+ * Fetch a job record for the document page.
+ * `access` tells the page what the signed-in user may do with the document.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id: jobId } = await params;
+  const found = await getJobForUser(jobId, user);
+
+  if (!found) {
+    return documentNotFound('Job');
+  }
+
+  // Idempotency bookkeeping stays on the server; only owners see who the document is shared with
+  const { idempotency_key, payload_hash, shared_with, ...publicJob } = found.job;
+  return NextResponse.json({
+    ...withSanitizedHtml(publicJob, `job ${jobId}`),
+    ...(found.access === 'owner' && { shared_with }),
+    access: found.access
+  });
+}
+
+/**
+ * Cancel a job. The record is kept with status `cancelled`;
+ * a running generator request is aborted by its worker.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id: jobId } = await params;
+  const found = await getJobForUser(jobId, user, 'write');
+
+  if (!found) {
+    return documentNotFound('Job');
+  }
+
+  const { job } = found;
+  const cancelled = await cancelDocumentJob(jobId);
+
+  if (!cancelled) {
+    const current = await getJobStore().getJob(jobId);
+    return NextResponse.json({
+      error: `Job already ${current?.status || job.status}`,
+      status: current?.status || job.status
+    }, { status: 409 });
+  }
+
+  return NextResponse.json({ jobId, status: 'cancelled' });
+}
@@ -1,24 +1,63 @@
 import { NextResponse, NextRequest } from 'next/server';
-import {
-  createDocumentJob,
-  getDocumentJob,
-  updateDocumentJob,
-  cleanupOldJobs
-} from '@/utils/supabase';
-
-// Run background cleanup once per day
-let lastCleanupTime = 0;
-const CLEANUP_INTERVAL = 24 * 60 * 60 * 1000; // 24 hours
-
-// Cleanup old jobs periodically (every 15 minutes)
+import { enqueueDocumentJob, runWorker } from '@/utils/job-queue';
+import { createLoadingHtml } from '@/utils/job-html';
+import { describeJob } from '@/utils/job-status';
+import { reapStaleJobs } from '@/utils/job-reaper';
+import { runScheduledCleanup } from '@/utils/job-retention';
+import { readIdempotencyKey } from '@/utils/idempotency';
+import { AuthUser, requireUser } from '@/utils/auth';
+import { documentNotFound, getJobForUser } from '@/utils/document-access';
+import { withSanitizedHtml } from '@/utils/html-sanitizer';
+import { StorageError, ValidationError } from '@/utils/api-errors';
+import { errorResponse } from '@/utils/error-response';
+import type { GenerationRequest } from '@/utils/generators';
+import { checkCallbackDestination, isValidCallbackUrl } from '@/utils/webhooks';
+import { getJobStore } from '@/utils/job-store';
+import { checkRateLimits, consumeQuota, getClientId, refundQuota } from '@/utils/rate-limit';
+
+// Check every 15 minutes whether the retention cleanup is due (once per JOB_CLEANUP_INTERVAL_MS)
 setInterval(async () => {
-  if (Date.now() - lastCleanupTime > CLEANUP_INTERVAL) {
-    await cleanupOldJobs();
-    lastCleanupTime = Date.now();
+  try {
+    await runScheduledCleanup();
+  } catch (error) {
+    console.error('Error running the retention cleanup:', error);
   }
 }, 15 * 60 * 1000);
 
+// Recover jobs stuck in processing (every minute by default)
+setInterval(async () => {
+  try {
+    await reapStaleJobs();
+  } catch (error) {
+    console.error('Error reaping stale jobs:', error);
+  }
+}, Number(process.env.JOB_REAPER_INTERVAL_MS || 60 * 1000));
+
+// Jobs are normally worked by `npm run worker`; JOB_WORKER_INLINE=true runs the loop in this process instead
+const globalForWorker = globalThis as typeof globalThis & { inlineJobWorkerStarted?: boolean };
+if (process.env.JOB_WORKER_INLINE === 'true' && !globalForWorker.inlineJobWorkerStarted) {
+  globalForWorker.inlineJobWorkerStarted = true;
+  runWorker({ workerId: `inline-${process.pid}` });
+}
+
+// Job status polling - the fallback for clients without Server-Sent Events
+export async function GET(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const jobId = new URL(request.url).searchParams.get('jobId');
+
+  if (!jobId) {
+    return errorResponse(new ValidationError('jobId is required'), 'Job status');
+  }
+
+  return checkJobStatus(jobId, user);
+}
+
 export async function POST(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
     // Check if this is a job status check
     const { searchParams } = new URL(request.url);
@@ -26,179 +65,118 @@ export async function POST(request: NextRequest) {
 
     // If jobId is provided, return the status of that job
     if (jobId) {
-      return checkJobStatus(jobId);
+      return checkJobStatus(jobId, user);
     }
 
+    // Repeated submissions with the same Idempotency-Key map to the same job
+    const idempotencyKey = readIdempotencyKey(request.headers);
+
     // This is a new job submission
-    const data = await request.json();
-    const prompt = data.prompt || "No prompt provided";
+    const { data, callbackUrl } = readGenerationRequest(await request.json().catch(() => null));
+
+    // Callback URLs may not point into the server's own network
+    const refused = callbackUrl
+      ? await checkCallbackDestination(callbackUrl).catch(() => 'callbackUrl host could not be resolved')
+      : null;
+    if (refused) {
+      throw new ValidationError(refused, { field: 'callbackUrl' });
+    }
+
+    // Chat edits need write access to the document they change
+    if (typeof data.documentId === 'string' && !(await getJobForUser(data.documentId, user, 'write'))) {
+      return documentNotFound();
+    }
+
+    // A chat edit can only build on a revision of the document it changes
+    if (typeof data.parentRevisionId === 'string') {
+      const parent = typeof data.documentId === 'string' ? await getJobStore().getRevision(data.parentRevisionId) : null;
+      if (!parent || parent.document_id !== data.documentId) {
+        throw new ValidationError('parentRevisionId must be a revision of the document', { field: 'parentRevisionId' });
+      }
+    }
     
-    // Create a new job in the database
-    const job = await createDocumentJob(prompt);
+    // Replays of an earlier submission create no new work, so they do not count against the limits
+    const isReplay = !!idempotencyKey && !!(await getJobStore().getJobByIdempotencyKey(idempotencyKey, user.id));
+    if (!isReplay) {
+      await checkRateLimits(user.id, getClientId(request));
+      await consumeQuota(user.id);
+    }
+
+    // Queue the job; a worker claims it from the database
+    const { job, replayed } = await enqueueDocumentJob(data, { idempotencyKey, ownerId: user.id, callbackUrl })
+      .catch(async error => {
+        if (!isReplay) await refundQuota(user.id);
+        throw error;
+      });
+
+    // Nothing new was queued after all: lost a race with the same Idempotency-Key, or the insert failed
+    if (!isReplay && (!job || replayed)) {
+      await refundQuota(user.id);
+    }
     
     if (!job) {
-      throw new Error('Failed to create job record');
+      throw new StorageError();
     }
     
-    // Start processing the job in the background (don't await)
-    processJob(job.job_id, data);
-    
     // Return immediately with the job ID
     return NextResponse.json({
       jobId: job.job_id,
-      status: 'pending',
-      message: 'Your request is being processed',
-      html: createLoadingHtml(prompt),
+      status: replayed ? job.status : 'pending',
+      message: replayed
+        ? 'This request was already submitted'
+        : 'Your request is being processed',
+      html: createLoadingHtml(data.prompt),
       projectId: `job-${job.job_id}`
+    }, {
+      headers: replayed ? { 'Idempotent-Replayed': 'true' } : undefined
     });
   } catch (error) {
-    console.error('Proxy error:', error);
-    return NextResponse.json({
-      error: error instanceof Error ? error.message : 'Unknown error',
-      html: createFallbackHtml("Error processing your request"),
-      projectId: `error-${Date.now()}`
-    });
+    return errorResponse(error, 'Proxy error');
   }
 }
 
-async function processJob(jobId: string, data: any) {
-  try {
-    console.log(`Processing job ${jobId}...`);
-    
-    // Update job status to processing
-    await updateDocumentJob(jobId, {
-      status: 'processing'
-    });
-    
-    // Call the n8n webhook
-    const response = await fetch(
-      "https://srv-roxra.app.n8n.cloud/webhook/5bf5071c-57f4-4219-b7ad-414d516be1de",
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(data),
-      }
-    );
+/**
+ * Check the submitted body before it is queued. Apart from `callbackUrl`, which is kept
+ * with the job for webhooks, the whole object becomes the generator request.
+ */
+function readGenerationRequest(body: unknown): { data: GenerationRequest; callbackUrl?: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
 
-    if (!response.ok) {
-      throw new Error(`Server responded with status: ${response.status}`);
-    }
+  const data = body as Record<string, unknown>;
 
-    const responseText = await response.text();
-    
-    try {
-      // Try to parse as JSON
-      const jsonData = JSON.parse(responseText);
-      
-      // Update job with completed status and result
-      await updateDocumentJob(jobId, {
-        status: 'completed',
-        html: jsonData.html,
-        project_id: jsonData.projectId,
-        result: jsonData
-      });
-      
-      console.log(`Job ${jobId} completed successfully`);
-    } catch (e) {
-      // Not valid JSON, but might be HTML
-      if (isHtmlContent(responseText)) {
-        await updateDocumentJob(jobId, {
-          status: 'completed',
-          html: responseText,
-          project_id: `html-${jobId}`,
-          result: {
-            html: responseText,
-            projectId: `html-${jobId}`
-          }
-        });
-        console.log(`Job ${jobId} completed with HTML content`);
-      } else {
-        // Not valid JSON or HTML
-        throw new Error('Invalid response format');
-      }
-    }
-  } catch (error) {
-    console.error(`Job ${jobId} failed:`, error);
-    
-    // Get the current job data to access the prompt
-    const job = await getDocumentJob(jobId);
-    
-    if (job) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      const fallbackHtml = createFallbackHtml(job.prompt, errorMessage);
-      
-      // Update job with failed status
-      await updateDocumentJob(jobId, {
-        status: 'failed',
-        error: errorMessage,
-        html: fallbackHtml,
-        project_id: `error-${jobId}`,
-        result: {
-          html: fallbackHtml,
-          projectId: `error-${jobId}`
-        }
-      });
-    }
+  if (typeof data.prompt !== 'string' || !data.prompt.trim()) {
+    throw new ValidationError('prompt is required', { field: 'prompt' });
   }
-}
 
-async function checkJobStatus(jobId: string) {
-  const job = await getDocumentJob(jobId);
-  
-  if (!job) {
-    return NextResponse.json({
-      error: 'Job not found',
-      status: 'not_found'
-    }, { status: 404 });
+  if (data.documentId !== undefined && data.documentId !== null && typeof data.documentId !== 'string') {
+    throw new ValidationError('documentId must be a string', { field: 'documentId' });
   }
-  
-  if (job.status === 'pending' || job.status === 'processing') {
-    return NextResponse.json({
-      status: job.status,
-      message: 'Your request is still being processed',
-      html: job.html || createLoadingHtml(job.prompt),
-      projectId: job.project_id || `pending-${jobId}`
-    });
+
+  if (data.parentRevisionId !== undefined && data.parentRevisionId !== null && typeof data.parentRevisionId !== 'string') {
+    throw new ValidationError('parentRevisionId must be a string', { field: 'parentRevisionId' });
   }
-  
-  if (job.status === 'failed') {
-    return NextResponse.json({
-      status: 'failed',
-      error: job.error || 'Unknown error',
-      html: job.html || createFallbackHtml(job.prompt, job.error || 'Unknown error'),
-      projectId: job.project_id || `failed-${jobId}`
-    });
+
+  const { callbackUrl, ...generationRequest } = data;
+  if (callbackUrl !== undefined && callbackUrl !== null && !isValidCallbackUrl(callbackUrl)) {
+    throw new ValidationError('callbackUrl must be an absolute http(s) URL', { field: 'callbackUrl' });
   }
-  
-  // Job completed successfully
-  return NextResponse.json({
-    status: 'completed',
-    result: job.result,
-    html: job.html,
-    projectId: job.project_id || `completed-${jobId}`
-  });
-}
 
-function createFallbackHtml(prompt: string = "", errorMessage: string = "") {
-  return `
-    <div>
-      <h1>Sample Document</h1>
-      <p>This is a fallback document generated because we couldn't process your request properly.</p>
-      ${errorMessage ? `<p><strong>Error:</strong> ${errorMessage}</p>` : ''}
-      <p>Your prompt was: "${prompt}"</p>
-      <hr>
-      <p>Generated at: ${new Date().toLocaleString()}</p>
-    </div>
-  `;
+  return {
+    data: generationRequest as GenerationRequest,
+    callbackUrl: isValidCallbackUrl(callbackUrl) ? callbackUrl : undefined
+  };
 }
 
-// Helper function to check if a string is HTML content
-function isHtmlContent(text: string): boolean {
-  return text.trim().startsWith('<!DOCTYPE') || 
-         text.trim().startsWith('<html') || 
-         (text.includes('<') && text.includes('>'));
+async function checkJobStatus(jobId: string, user: AuthUser) {
+  const job = (await getJobForUser(jobId, user))?.job;
+  
+  if (!job) {
+    return documentNotFound('Job');
+  }
+  
+  return NextResponse.json(withSanitizedHtml(describeJob(job), `job ${jobId}`));
 }
 
 // Function to generate a unique ID
@@ -206,35 +184,6 @@ function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
 }
 
-// Function to create loading HTML content
-function createLoadingHtml(prompt: string = ""): string {
-  return `
-    <div>
-      <h1>Processing Your Request</h1>
-      <div style="margin: 20px 0; padding: 15px; border-left: 4px solid #3498db; background-color: #f8f9fa;">
-        <p>We're working on generating your document from the prompt:</p>
-        <p><em>"${prompt}"</em></p>
-      </div>
-      
-      <div style="margin: 20px 0; text-align: center;">
-        <div style="display: inline-block; width: 50px; height: 50px; border: 5px solid #f3f3f3; 
-                    border-top: 5px solid #3498db; border-radius: 50%; animation: spin 1s linear infinite;"></div>
-        <p>This may take up to 2 minutes to complete...</p>
-        <style>
-          @keyframes spin {
-            0% { transform: rotate(0deg); }
-            100% { transform: rotate(360deg); }
-          }
-        </style>
-      </div>
-      
-      <p>The system is working on your document. Please wait while we process your request.</p>
-      <hr>
-      <p>Started at: ${new Date().toLocaleString()}</p>
-    </div>
-  `;
-}
-
 // Handle preflight OPTIONS requests for CORS
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -242,7 +191,7 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, Idempotency-Key',
     },
   });
 }
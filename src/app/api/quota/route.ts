@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/utils/auth';
+import { getQuotaStatus, getRateLimitSettings } from '@/utils/rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * The signed-in user's daily job quota (null when there is none) and the submission rate limits
+ */
+export async function GET(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  return NextResponse.json({
+    quota: await getQuotaStatus(user.id),
+    limits: getRateLimitSettings()
+  });
+}
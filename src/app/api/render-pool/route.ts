@@ -0,0 +1,29 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/utils/auth';
+import { getRenderPoolStats } from '@/utils/renderers';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PDF browser pool usage: queue depth, busy browsers, render counts and latency.
+ * Open to signed-in users, and to monitoring with `Authorization: Bearer <METRICS_TOKEN>`.
+ */
+export async function GET(request: NextRequest) {
+  if (!hasMetricsToken(request)) {
+    const user = requireUser(request);
+    if (user instanceof NextResponse) return user;
+  }
+
+  return NextResponse.json(getRenderPoolStats());
+}
+
+function hasMetricsToken(request: NextRequest): boolean {
+  const token = process.env.METRICS_TOKEN;
+  const header = request.headers.get('authorization');
+  if (!token || !header) return false;
+
+  const expected = Buffer.from(`Bearer ${token}`);
+  const given = Buffer.from(header);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/utils/auth';
+import { getNextCleanupAt, runRetentionCleanup } from '@/utils/job-retention';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Dry run of the retention cleanup: the policy in effect and which of the user's jobs the next run would delete
+ */
+export async function GET(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const report = await runRetentionCleanup({ dryRun: true });
+
+  return NextResponse.json({
+    ...report,
+    jobs: report.jobs.filter(job => job.owner_id === user.id),
+    nextRunAt: getNextCleanupAt()
+  });
+}
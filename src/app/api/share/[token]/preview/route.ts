@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import { documentNotFound } from '@/utils/document-access';
+import { resolveShareLink } from '@/utils/share-links';
+import { sanitizeForRender } from '@/utils/html-sanitizer';
+
+/**
+ * The shared document's current HTML as a page of its own, shown in the viewer's iframe
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  const shared = await resolveShareLink(token);
+
+  if (!shared || !shared.document.html) {
+    return documentNotFound('Shared document');
+  }
+
+  return new Response(sanitizeForRender(shared.document.html, `document ${shared.document.job_id}`), {
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      // Generated HTML must not run scripts on our origin
+      'Content-Security-Policy': 'sandbox',
+      // Revoking a link must take effect immediately
+      'Cache-Control': 'no-store'
+    }
+  });
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { documentNotFound } from '@/utils/document-access';
+import { resolveShareLink } from '@/utils/share-links';
+import { sanitizeForRender } from '@/utils/html-sanitizer';
+
+/**
+ * The current revision of a shared document, for the public read-only viewer.
+ * No sign-in needed: the token in the URL is the credential.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  const shared = await resolveShareLink(token);
+
+  if (!shared || !shared.document.html) {
+    return documentNotFound('Shared document');
+  }
+
+  const { link, document } = shared;
+  return NextResponse.json({
+    prompt: document.prompt,
+    html: sanitizeForRender(document.html || '', `document ${document.job_id}`),
+    updatedAt: document.updated_at,
+    expiresAt: link.expires_at ?? null
+  }, {
+    headers: { 'Cache-Control': 'no-store' }
+  });
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/utils/job-store';
+import { requireUser } from '@/utils/auth';
+import { documentNotFound } from '@/utils/document-access';
+import { ValidationError } from '@/utils/api-errors';
+import { errorResponse } from '@/utils/error-response';
+import { readPromptTemplateInput, savePromptTemplateVersion } from '@/utils/prompt-templates';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * A template with its version history, newest first, and whether the user may archive it
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const store = getJobStore();
+  const template = await store.getPromptTemplate(id);
+
+  if (!template) {
+    return documentNotFound('Template');
+  }
+
+  return NextResponse.json({
+    template,
+    versions: await store.listPromptTemplateVersions(id),
+    canArchive: template.owner_id === user.id
+  });
+}
+
+/**
+ * Save a change as a new version. Any signed-in user may edit; every version records who saved it.
+ * Body: { name, description?, body, variables, baseVersion } where baseVersion is the version that was edited.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const template = await getJobStore().getPromptTemplate(id);
+
+  if (!template || template.archived_at) {
+    return documentNotFound('Template');
+  }
+
+  try {
+    const data = await request.json().catch(() => null);
+    const input = readPromptTemplateInput(data);
+
+    if (!Number.isInteger(data.baseVersion)) {
+      throw new ValidationError('baseVersion must be the version number that was edited', { field: 'baseVersion' });
+    }
+
+    const saved = await savePromptTemplateVersion(template, input, user.id, data.baseVersion);
+    return NextResponse.json({ template: saved });
+  } catch (error) {
+    return errorResponse(error, 'Save prompt template');
+  }
+}
+
+/**
+ * Archive a template (owner only). It leaves the library; its versions are kept.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const template = await getJobStore().getPromptTemplate(id);
+
+  if (!template || template.archived_at || template.owner_id !== user.id) {
+    return documentNotFound('Template');
+  }
+
+  const archived = await getJobStore().updatePromptTemplate(id, { archived_at: new Date().toISOString() });
+  return NextResponse.json({ archived });
+}
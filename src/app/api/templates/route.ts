@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/utils/job-store';
+import { requireUser } from '@/utils/auth';
+import { StorageError } from '@/utils/api-errors';
+import { errorResponse } from '@/utils/error-response';
+import { readPromptTemplateInput } from '@/utils/prompt-templates';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * The prompt template library: every template that is not archived, by name
+ */
+export async function GET(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  return NextResponse.json({ templates: await getJobStore().listPromptTemplates() });
+}
+
+/**
+ * Add a template to the library at version 1.
+ * Body: { name, description?, body, variables: TemplateVariable[] }
+ */
+export async function POST(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const input = readPromptTemplateInput(await request.json().catch(() => null));
+    const template = await getJobStore().createPromptTemplate({ ...input, owner_id: user.id });
+
+    if (!template) {
+      throw new StorageError('Could not save the template, please try again');
+    }
+
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Create prompt template');
+  }
+}
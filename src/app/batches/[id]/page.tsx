@@ -0,0 +1,184 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import type { DocumentJobStatus } from '@/utils/job-store';
+import type { BatchProgress } from '@/utils/batches';
+import { fetchBatch, getBatchDownloadUrl } from '@/utils/job-client';
+import UserMenu from '@/components/UserMenu';
+
+// How often a running batch is reloaded
+const REFRESH_INTERVAL_MS = 5000;
+
+const STATUS_STYLES: Record<DocumentJobStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  processing: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-200 text-gray-700'
+};
+
+const PROGRESS_COLORS: Record<DocumentJobStatus, string> = {
+  pending: 'bg-yellow-300',
+  processing: 'bg-blue-400',
+  completed: 'bg-green-500',
+  failed: 'bg-red-500',
+  cancelled: 'bg-gray-400'
+};
+
+export default function BatchPage() {
+  const { id: batchId } = useParams<{ id: string }>();
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBatch = useCallback(async () => {
+    try {
+      const loaded = await fetchBatch(batchId);
+      if (!loaded) {
+        setNotFound(true);
+        return;
+      }
+      setProgress(loaded);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to load the batch');
+    }
+  }, [batchId]);
+
+  useEffect(() => {
+    loadBatch();
+  }, [loadBatch]);
+
+  // Keep reloading until every document has finished
+  useEffect(() => {
+    if (!progress || progress.finished) return;
+
+    const timer = setTimeout(loadBatch, REFRESH_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [progress, loadBatch]);
+
+  if (notFound) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <p className="text-gray-600">This batch does not exist or belongs to someone else.</p>
+        <Link href="/batches" className="text-blue-600 hover:underline">Back to batches</Link>
+      </div>
+    );
+  }
+
+  const total = progress?.documents.length || 0;
+  const parts = progress ? Math.max(Math.ceil(total / progress.zipPartSize), 1) : 1;
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <header className="p-4 flex items-center justify-between border-b bg-white shadow-sm">
+        <div className="flex items-center gap-3">
+          <Link href="/batches" className="text-sm text-blue-600 hover:underline">Batches</Link>
+          <h1 className="text-xl font-bold">{progress?.batch.name || 'Batch'}</h1>
+        </div>
+        <UserMenu />
+      </header>
+
+      <main className="container mx-auto p-4 space-y-4">
+        {error && <div className="text-red-500">{error}</div>}
+        {!progress ? (
+          !error && <div>Loading batch...</div>
+        ) : (
+          <>
+            {/* Progress */}
+            <div className="bg-white p-4 rounded-lg shadow-sm space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="font-medium">
+                  {progress.counts.completed} of {total} documents completed
+                  {!progress.finished && <span className="ml-2 text-sm text-blue-600">running...</span>}
+                </p>
+                {parts === 1 && (
+                  <div className="flex gap-2">
+                    <a
+                      href={getBatchDownloadUrl(batchId, 'pdf')}
+                      className={`px-4 py-2 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 text-white ${
+                        progress.counts.completed === 0 ? 'opacity-50 pointer-events-none' : ''
+                      }`}
+                    >
+                      Download PDFs (ZIP)
+                    </a>
+                    <a
+                      href={getBatchDownloadUrl(batchId, 'docx')}
+                      className={`px-4 py-2 text-sm rounded-lg bg-green-600 hover:bg-green-700 text-white ${
+                        progress.counts.completed === 0 ? 'opacity-50 pointer-events-none' : ''
+                      }`}
+                    >
+                      Download DOCX (ZIP)
+                    </a>
+                  </div>
+                )}
+              </div>
+              {/* Large batches are downloaded in parts, so no single download renders too many documents */}
+              {parts > 1 && (
+                <div className="space-y-1">
+                  {Array.from({ length: parts }, (_, index) => {
+                    const first = index * progress.zipPartSize + 1;
+                    const last = Math.min((index + 1) * progress.zipPartSize, total);
+                    return (
+                      <div key={index} className="flex items-center gap-3 text-sm">
+                        <span className="w-32 text-gray-600">Documents {first}-{last}</span>
+                        <a href={getBatchDownloadUrl(batchId, 'pdf', index + 1)} className="text-blue-600 hover:underline">
+                          PDFs (ZIP)
+                        </a>
+                        <a href={getBatchDownloadUrl(batchId, 'docx', index + 1)} className="text-green-700 hover:underline">
+                          DOCX (ZIP)
+                        </a>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              <div className="flex h-3 rounded-full overflow-hidden bg-gray-100">
+                {(Object.keys(progress.counts) as DocumentJobStatus[]).map(status => progress.counts[status] > 0 && (
+                  <div
+                    key={status}
+                    className={PROGRESS_COLORS[status]}
+                    style={{ width: `${(progress.counts[status] / Math.max(total, 1)) * 100}%` }}
+                    title={`${progress.counts[status]} ${status}`}
+                  />
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2 text-xs">
+                {(Object.keys(progress.counts) as DocumentJobStatus[]).map(status => (
+                  <span key={status} className={`px-2 py-0.5 rounded ${STATUS_STYLES[status]}`}>
+                    {progress.counts[status]} {status}
+                  </span>
+                ))}
+              </div>
+              {progress.finished && progress.counts.completed < total && (
+                <p className="text-xs text-gray-500">
+                  Downloads contain the completed documents; the others are listed in skipped.txt.
+                </p>
+              )}
+            </div>
+
+            {/* Documents */}
+            <div className="bg-white rounded-lg shadow-sm divide-y">
+              {progress.documents.map((document, index) => (
+                <div key={document.job_id} className="flex items-center justify-between gap-4 p-3">
+                  <div className="min-w-0">
+                    <Link href={`/document/${document.job_id}`} className="block text-sm font-medium truncate hover:underline">
+                      {index + 1}. {document.prompt}
+                    </Link>
+                    {document.error && <p className="text-xs text-red-600 truncate">{document.error}</p>}
+                  </div>
+                  <span className={`shrink-0 text-xs px-2 py-0.5 rounded ${STATUS_STYLES[document.status]}`}>
+                    {document.status}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { ApiRequestError, BatchSummary, listBatches, uploadBatch } from '@/utils/job-client';
+import UserMenu from '@/components/UserMenu';
+
+export default function BatchesPage() {
+  const [batches, setBatches] = useState<BatchSummary[] | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [template, setTemplate] = useState('');
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<{ message: string; issues?: string[] } | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const loadBatches = useCallback(async () => {
+    try {
+      setBatches(await listBatches());
+      setLoadError(null);
+    } catch (err) {
+      console.error(err);
+      setLoadError('Failed to load batches');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBatches();
+  }, [loadBatches]);
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setUploading(true);
+    setUploadError(null);
+    try {
+      const batch = await uploadBatch(file, template.trim() || undefined);
+      window.location.href = `/batches/${batch.batch_id}`;
+    } catch (err) {
+      console.error('Error uploading batch:', err);
+      setUploadError(err instanceof ApiRequestError
+        ? { message: err.message, issues: err.details?.issues as string[] | undefined }
+        : { message: 'Could not reach the server. Check your connection and try again.' });
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <header className="p-4 flex items-center justify-between border-b bg-white shadow-sm">
+        <h1 className="text-xl font-bold">Batches</h1>
+        <div className="flex items-center gap-2">
+          <UserMenu />
+          <Link href="/documents" className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-md">
+            My Documents
+          </Link>
+          <Link href="/" className="px-4 py-2 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded-md">
+            New Document
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto p-4 space-y-4">
+        {/* Upload */}
+        <form onSubmit={handleUpload} className="bg-white p-4 rounded-lg shadow-sm space-y-4">
+          <h2 className="text-lg font-semibold">New batch</h2>
+          <p className="text-sm text-gray-600">
+            Upload a CSV file with a header line, or a JSON array, with one document per row.
+            Without a template every row needs a <code>prompt</code> column; an optional <code>title</code> column names the downloaded files.
+          </p>
+          <label className="flex flex-col text-sm">
+            File (.csv or .json)
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              className="mt-1"
+              required
+            />
+          </label>
+          <label className="flex flex-col text-sm">
+            Shared template (optional)
+            <textarea
+              value={template}
+              onChange={(e) => setTemplate(e.target.value)}
+              placeholder="Write a safety handbook for the {{site}} site in {{city}}..."
+              className="mt-1 h-28 p-3 border border-gray-300 rounded-lg resize-none"
+            />
+            <span className="mt-1 text-xs text-gray-500">
+              {'{{column}}'} placeholders are filled from each row. A template without placeholders is put in front of each row&apos;s prompt.
+            </span>
+          </label>
+          <button
+            type="submit"
+            disabled={uploading || !file}
+            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+          >
+            {uploading ? 'Uploading...' : 'Generate documents'}
+          </button>
+          {uploadError && (
+            <div role="alert" className="p-4 rounded-lg border border-red-200 bg-red-50 text-red-700">
+              <p className="font-medium">The batch was not created</p>
+              <p className="mt-1 text-sm">{uploadError.message}</p>
+              {uploadError.issues && uploadError.issues.length > 1 && (
+                <ul className="mt-2 text-sm list-disc pl-5">
+                  {uploadError.issues.map(issue => <li key={issue}>{issue}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </form>
+
+        {/* Earlier batches */}
+        {loadError ? (
+          <div className="text-red-500">{loadError}</div>
+        ) : !batches ? (
+          <div>Loading batches...</div>
+        ) : batches.length === 0 ? (
+          <div className="text-gray-500">No batches yet.</div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm divide-y">
+            {batches.map(batch => (
+              <Link
+                key={batch.batch_id}
+                href={`/batches/${batch.batch_id}`}
+                className="flex items-center justify-between p-4 hover:bg-gray-50"
+              >
+                <div>
+                  <div className="font-medium">{batch.name}</div>
+                  <div className="text-xs text-gray-500">Created {new Date(batch.created_at).toLocaleString()}</div>
+                </div>
+                <div className="text-sm text-gray-600">
+                  {batch.counts.completed} of {batch.total} completed
+                  {batch.counts.failed > 0 && <span className="ml-2 text-red-600">{batch.counts.failed} failed</span>}
+                  {!batch.finished && <span className="ml-2 text-blue-600">running</span>}
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
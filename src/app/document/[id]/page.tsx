@@ -2,35 +2,98 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { getDocumentJob, updateDocumentJob, DocumentJob } from '@/utils/supabase';
+import type { DocumentJob, DocumentRevision } from '@/utils/job-store';
+import {
+  ApiRequestError,
+  cancelJob,
+  createShareLink,
+  fetchJob,
+  fetchMessages,
+  fetchRevision,
+  fetchRevisions,
+  fetchShareLinks,
+  getShareLinkUrl,
+  JobWithAccess,
+  restoreRevision,
+  retryDocument,
+  revokeShareLink,
+  RevisionSummary,
+  shareDocument,
+  ShareLinkWithStatus,
+  submitJob,
+  unshareDocument
+} from '@/utils/job-client';
+import { watchJob } from '@/utils/job-events';
+import { describeJobOutcome } from '@/utils/job-status';
+import { fetchDocxBlob, htmlToDocxBlob } from '@/utils/docx-export';
 import { saveAs } from 'file-saver';
-// Use require for html-docx-js as it doesn't have proper TypeScript types
-const htmlDocx = require('html-docx-js');
+
+// Failed turns keep the prompt that led to them, so they can be sent again
+type ChatMessage = { role: 'user' | 'assistant', content: string, isError?: boolean, retryPrompt?: string };
 
 export default function DocumentPage({ params }: { params: { id: string } }) {
   const jobId = params.id;
-  const [documentJob, setDocumentJob] = useState<DocumentJob | null>(null);
+  const [documentJob, setDocumentJob] = useState<JobWithAccess | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [prompt, setPrompt] = useState('');
   const [viewMode, setViewMode] = useState<'preview' | 'code'>('preview');
-  const [messages, setMessages] = useState<Array<{role: 'user' | 'assistant', content: string}>>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [progressMessage, setProgressMessage] = useState<string | null>(null);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [previewRevision, setPreviewRevision] = useState<DocumentRevision | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [shareEmail, setShareEmail] = useState('');
+  const [shareError, setShareError] = useState<string | null>(null);
+  const [shareLinks, setShareLinks] = useState<ShareLinkWithStatus[]>([]);
+  const [linkExpiryDays, setLinkExpiryDays] = useState('7');
+  const [copiedLinkId, setCopiedLinkId] = useState<string | null>(null);
+  const [docxToc, setDocxToc] = useState(false);
   const iframeRef = useRef<HTMLIFrameElement>(null);
+  const stopWatchingRef = useRef<(() => void) | null>(null);
   const router = useRouter();
 
+  // Stop following any in-flight job when leaving the page
+  useEffect(() => () => stopWatchingRef.current?.(), []);
+
   // Fetch the document job on load
   useEffect(() => {
-    async function fetchJob() {
+    async function loadJob() {
       setLoading(true);
       try {
-        const job = await getDocumentJob(jobId);
+        const job = await fetchJob(jobId);
         if (job) {
           setDocumentJob(job);
           
-          // If job has prompt, add it to messages
-          if (job.prompt) {
+          // Restore the saved conversation; older documents only have their prompt
+          const savedMessages = await fetchMessages(jobId).catch((err) => {
+            console.error('Error loading chat:', err);
+            return [];
+          });
+          if (savedMessages.length > 0) {
+            setMessages(savedMessages.map((message, index) => {
+              const previous = savedMessages[index - 1];
+              return {
+                role: message.role,
+                content: message.content,
+                isError: !!message.error,
+                retryPrompt: message.error && previous?.role === 'user' ? previous.content : undefined
+              };
+            }));
+          } else if (job.prompt) {
             setMessages([{ role: 'user', content: job.prompt }]);
           }
+
+          loadRevisions();
+
+          // Freshly submitted jobs are still running - stream their progress into the preview
+          if (job.status === 'pending' || job.status === 'processing') {
+            followInitialJob(job);
+          }
         } else {
           setError('Document not found');
         }
@@ -42,12 +105,182 @@ export default function DocumentPage({ params }: { params: { id: string } }) {
       }
     }
 
-    fetchJob();
+    loadJob();
   }, [jobId]);
 
+  // Follow the job this page was opened for until it finishes
+  const followInitialJob = (job: DocumentJob) => {
+    stopWatchingRef.current?.();
+    setActiveJobId(job.job_id);
+    stopWatchingRef.current = watchJob(job.job_id, {
+      onProgress: (message) => setProgressMessage(message),
+      onHtml: (html) => setDocumentJob(current => current ? { ...current, html } : current),
+      onDone: async (data) => {
+        finishActiveJob();
+        const finishedJob = await fetchJob(job.job_id);
+        if (finishedJob) {
+          setDocumentJob(finishedJob);
+        }
+        loadRevisions();
+        setMessages(current => [...current, {
+          role: 'assistant' as const,
+          content: describeJobOutcome(data.status, data.error),
+          isError: data.status === 'failed'
+        }]);
+      },
+      onError: (error) => {
+        console.error('Error following job status:', error);
+        finishActiveJob();
+      }
+    });
+  };
+
+  const loadRevisions = async () => {
+    try {
+      const history = await fetchRevisions(jobId);
+      setRevisions(history.revisions);
+    } catch (err) {
+      console.error('Error loading revisions:', err);
+    }
+  };
+
+  // Jobs only report completed once their revision is saved, so one fetch sees it
+  const reloadDocument = async () => {
+    const job = await fetchJob(jobId);
+    if (job) {
+      setDocumentJob(job);
+    }
+    await loadRevisions();
+  };
+
+  const handlePreviewRevision = async (revisionId: string) => {
+    if (revisionId === documentJob?.current_revision_id) {
+      setPreviewRevision(null);
+      return;
+    }
+
+    try {
+      const revision = await fetchRevision(jobId, revisionId);
+      setPreviewRevision(revision);
+    } catch (err) {
+      console.error('Error loading revision:', err);
+    }
+  };
+
+  // Restoring saves a new revision, so nothing in the history is lost
+  const handleRestore = async () => {
+    if (!previewRevision) return;
+
+    setRestoring(true);
+    try {
+      const restored = await restoreRevision(jobId, previewRevision.revision_id);
+      if (restored) {
+        setMessages(current => [...current, {
+          role: 'assistant' as const,
+          content: `Restored revision ${previewRevision.revision_number}.`
+        }]);
+        setPreviewRevision(null);
+        await reloadDocument();
+      }
+    } catch (err) {
+      console.error('Error restoring revision:', err);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  // Owners share the document with other users by email
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!shareEmail.trim()) return;
+
+    try {
+      const sharedWith = await shareDocument(jobId, shareEmail);
+      setDocumentJob(current => current && { ...current, shared_with: sharedWith });
+      setShareEmail('');
+      setShareError(null);
+    } catch (err) {
+      setShareError(err instanceof Error ? err.message : 'Could not share the document');
+    }
+  };
+
+  const handleUnshare = async (email: string) => {
+    try {
+      const sharedWith = await unshareDocument(jobId, email);
+      setDocumentJob(current => current && { ...current, shared_with: sharedWith });
+    } catch (err) {
+      setShareError(err instanceof Error ? err.message : 'Could not update sharing');
+    }
+  };
+
+  // Read-only links work without an account, so they are listed with the share panel
+  useEffect(() => {
+    if (!showShare || documentJob?.access !== 'owner') return;
+
+    fetchShareLinks(jobId)
+      .then(setShareLinks)
+      .catch(err => console.error('Error loading share links:', err));
+  }, [showShare, documentJob?.access, jobId]);
+
+  const handleCreateLink = async () => {
+    try {
+      const link = await createShareLink(jobId, linkExpiryDays ? Number(linkExpiryDays) : undefined);
+      setShareLinks(current => [link, ...current]);
+      setShareError(null);
+      await copyLink(link);
+    } catch (err) {
+      setShareError(err instanceof Error ? err.message : 'Could not create a share link');
+    }
+  };
+
+  const handleRevokeLink = async (linkId: string) => {
+    if (await revokeShareLink(jobId, linkId)) {
+      setShareLinks(current => current.map(link =>
+        link.link_id === linkId ? { ...link, status: 'revoked' } : link
+      ));
+    } else {
+      setShareError('Could not revoke the share link');
+    }
+  };
+
+  const copyLink = async (link: ShareLinkWithStatus) => {
+    try {
+      await navigator.clipboard.writeText(getShareLinkUrl(link.token));
+      setCopiedLinkId(link.link_id);
+    } catch (err) {
+      console.error('Error copying share link:', err);
+    }
+  };
+
+  const finishActiveJob = () => {
+    setProgressMessage(null);
+    setActiveJobId(null);
+    setCancelling(false);
+  };
+
+  // Cancel the in-flight job; the event stream reports the final `cancelled` status
+  const handleCancel = async () => {
+    if (!activeJobId) return;
+
+    setCancelling(true);
+    try {
+      const cancelled = await cancelJob(activeJobId);
+      if (!cancelled) {
+        // The job finished before the cancel arrived - its result will come through as usual
+        setCancelling(false);
+      }
+    } catch (err) {
+      console.error('Error cancelling job:', err);
+      setCancelling(false);
+    }
+  };
+
+  // A previewed revision temporarily replaces the current document
+  const displayedHtml = previewRevision?.html ?? documentJob?.html;
+
   // Update iframe content when HTML changes
   useEffect(() => {
-    if (iframeRef.current && documentJob?.html && viewMode === 'preview') {
+    if (iframeRef.current && displayedHtml && viewMode === 'preview') {
       const iframeDoc = iframeRef.current.contentDocument;
       if (iframeDoc) {
         // Add base CSS for A4 page simulation with improved typography and spacing
@@ -149,7 +382,7 @@ export default function DocumentPage({ params }: { params: { id: string } }) {
         // Create wrapper and insert HTML
         const wrapperHtml = `
           <div class="a4-container">
-            <div class="a4-page">${documentJob.html}</div>
+            <div class="a4-page">${displayedHtml}</div>
           </div>
         `;
         
@@ -161,288 +394,127 @@ export default function DocumentPage({ params }: { params: { id: string } }) {
         iframeDoc.body.innerHTML = wrapperHtml;
       }
     }
-  }, [documentJob?.html, viewMode]);
+  }, [displayedHtml, viewMode]);
 
   // Handle chat submissions
   const handleMessageSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!prompt.trim() || !documentJob) return;
+    if (!prompt.trim()) return;
 
-    // Add user message to chat
-    const newMessages = [...messages, { role: 'user' as const, content: prompt }];
-    setMessages(newMessages);
-    
     // Clear input
     setPrompt('');
+    await sendMessage(prompt);
+  };
+
+  const sendMessage = async (text: string) => {
+    if (!documentJob) return;
+
+    // Add user message to chat
+    const newMessages = [...messages, { role: 'user' as const, content: text }];
+    setMessages(newMessages);
     
     try {
-      // Call the webhook with the prompt and project_id
-      const response = await fetch('/api/proxy', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          prompt,
-          projectId: documentJob.project_id || `job-${documentJob.job_id}`
-        }),
+      const { jobId: newJobId } = await submitJob({
+        prompt: text,
+        projectId: documentJob.project_id || `job-${documentJob.job_id}`,
+        // Links the resulting revision to this document and the version being edited
+        documentId: jobId,
+        parentRevisionId: documentJob.current_revision_id ?? null
       });
-      
-      if (!response.ok) {
-        throw new Error('Failed to process message');
-      }
-      
-      // Get the response as JSON
-      const data = await response.json();
-      
-      // If we get a new job ID, it means the system is processing the request
-      if (data.jobId) {
-        // Poll for the job completion
-        await pollJobStatus(data.jobId, newMessages);
-      } else {
-        // Direct response without job
-        setMessages([...newMessages, {
-          role: 'assistant' as const,
-          content: data.html || 'Response received without HTML content.'
-        }]);
-        
-        if (data.html) {
-          const updatedJob = { ...documentJob, html: data.html };
-          setDocumentJob(updatedJob as DocumentJob);
-        }
-      }
+
+      // Follow the job until completion
+      await watchJobStatus(newJobId, newMessages, text);
     } catch (err) {
       console.error('Error sending message:', err);
+      const retryable = !(err instanceof ApiRequestError) || err.retryable;
+      setMessages([...newMessages, {
+        role: 'assistant',
+        content: err instanceof ApiRequestError
+          ? `Error: ${err.message}`
+          : 'Could not reach the server. Check your connection and try again.',
+        isError: true,
+        retryPrompt: retryable ? text : undefined
+      }]);
+    }
+  };
+
+  // Send a failed turn's prompt again as a new message
+  const handleRetryMessage = (retryPrompt: string) => {
+    if (activeJobId) return;
+    sendMessage(retryPrompt);
+  };
+
+  // Generate a failed document again from its original request; the result becomes its first revision
+  const handleRetryDocument = async () => {
+    if (!documentJob || activeJobId) return;
+
+    const newMessages = [...messages, { role: 'user' as const, content: documentJob.prompt }];
+    setMessages(newMessages);
+    try {
+      const newJobId = await retryDocument(jobId);
+      await watchJobStatus(newJobId, newMessages, documentJob.prompt);
+    } catch (err) {
+      console.error('Error retrying document:', err);
       setMessages([...newMessages, {
         role: 'assistant',
-        content: 'Sorry, there was an error processing your request.'
+        content: `Error: ${err instanceof Error ? err.message : 'Could not retry the document'}`,
+        isError: true
       }]);
     }
   };
 
-  // Poll for job status until completion
-  const pollJobStatus = async (
+  // Follow a chat turn's job over Server-Sent Events (polling fallback) until completion
+  const watchJobStatus = (
     newJobId: string, 
-    currentMessages: Array<{role: 'user' | 'assistant', content: string}>
-  ) => {
-    const maxAttempts = 60; // 2 minutes with 2-second intervals
-    let attempts = 0;
-    
-    const checkStatus = async (): Promise<boolean> => {
-      try {
-        const response = await fetch(`/api/proxy?jobId=${newJobId}`);
-        if (!response.ok) {
-          throw new Error('Failed to check job status');
-        }
-        
-        const data = await response.json();
-        
+    currentMessages: ChatMessage[],
+    jobPrompt: string
+  ) => new Promise<void>((resolve) => {
+    stopWatchingRef.current?.();
+    setActiveJobId(newJobId);
+    stopWatchingRef.current = watchJob(newJobId, {
+      onProgress: (message) => setProgressMessage(message),
+      onDone: async (data) => {
+        finishActiveJob();
+
         if (data.status === 'completed') {
-          // Job completed successfully, update the document job
-          const updatedJob = await getDocumentJob(newJobId);
-          if (updatedJob) {
-            setDocumentJob(updatedJob);
-            setMessages([...currentMessages, {
-              role: 'assistant' as const,
-              content: 'Document updated successfully.'
-            }]);
-          }
-          return true;
-        } else if (data.status === 'failed') {
-          // Job failed
-          setMessages([...currentMessages, {
-            role: 'assistant' as const,
-            content: `Error: ${data.error || 'Unknown error'}`
-          }]);
-          return true;
+          // The chat job saved a new revision of this document - show it
+          await reloadDocument();
+          setPreviewRevision(null);
         }
-        
-        return false;
-      } catch (error) {
+
+        // The worker saves the same reply with the document's chat
+        setMessages([...currentMessages, {
+          role: 'assistant' as const,
+          content: describeJobOutcome(data.status, data.error),
+          isError: data.status === 'failed',
+          retryPrompt: data.status === 'failed' ? jobPrompt : undefined
+        }]);
+        resolve();
+      },
+      onError: (error) => {
         console.error('Error checking job status:', error);
+        finishActiveJob();
         setMessages([...currentMessages, {
           role: 'assistant' as const,
-          content: 'Error checking job status'
+          content: error.message.includes('timed out')
+            ? 'Request timed out. Please try again.'
+            : 'Error checking job status',
+          isError: true,
+          retryPrompt: jobPrompt
         }]);
-        return true;
+        resolve();
       }
-    };
-    
-    // Poll until completed or max attempts reached
-    while (attempts < maxAttempts) {
-      const done = await checkStatus();
-      if (done) return;
-      
-      attempts++;
-      await new Promise(resolve => setTimeout(resolve, 2000));
-    }
-    
-    // If we exit the loop without returning, we timed out
-    setMessages([...currentMessages, {
-      role: 'assistant' as const,
-      content: 'Request timed out. Please try again.'
-    }]);
-  };
+    });
+  });
 
   // Export document as DOCX
-  const exportToDocx = () => {
+  const exportToDocx = async () => {
     if (!documentJob?.html) return;
 
     try {
-      // Create comprehensive styling for the DOCX output
-      const docxStylesheet = `
-        body {
-          margin: 0;
-          font-family: 'Calibri', 'Arial', sans-serif;
-          font-size: 12pt;
-          line-height: 1.6;
-          color: #333333;
-        }
-        /* Typography styles */
-        h1, h2, h3, h4, h5, h6 {
-          margin-top: 2.0em;
-          margin-bottom: 1.0em;
-          line-height: 1.3;
-          font-weight: bold;
-          color: #333333;
-        }
-        h1 { font-size: 20pt; }
-        h2 { font-size: 18pt; }
-        h3 { font-size: 16pt; }
-        h4 { font-size: 14pt; }
-        h5 { font-size: 12pt; font-style: italic; }
-        h6 { font-size: 12pt; font-style: italic; font-weight: normal; }
-        
-        p {
-          margin-top: 0;
-          margin-bottom: 1.2em;
-        }
-        
-        ul, ol {
-          margin-top: 1em;
-          margin-bottom: 1em;
-          padding-left: 2.5em;
-        }
-        
-        li {
-          margin-bottom: 0.7em;
-        }
-        
-        table {
-          width: 100%;
-          margin: 2em 0;
-          border-collapse: collapse;
-          border: 1px solid #dee2e6;
-        }
-        
-        th, td {
-          border: 1px solid #dee2e6;
-          padding: 10pt;
-          vertical-align: top;
-        }
-        
-        th {
-          background-color: #f2f2f2;
-        }
-        
-        /* Spacing and page breaks */
-        p {
-          orphans: 3;
-          widows: 3;
-        }
-      `;
-      
-      // Wrap HTML in A4 page containers for proper pagination
-      const wrappedHtml = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <style>
-            @page {
-              size: A4;
-              margin: 25mm;
-            }
-            body {
-              font-family: 'Calibri', 'Arial', sans-serif;
-              font-size: 12pt;
-              line-height: 1.6;
-              color: #333333;
-              margin: 0;
-              padding: 0;
-            }
-            
-            /* Typography styling */
-            h1, h2, h3, h4, h5, h6 {
-              margin-top: 1.5em;
-              margin-bottom: 0.8em;
-              line-height: 1.3;
-              page-break-after: avoid;
-              break-after: avoid;
-            }
-            
-            p, ul, ol, table {
-              margin-bottom: 1em;
-            }
-            
-            ul, ol {
-              padding-left: 2.5em;
-            }
-            
-            li {
-              margin-bottom: 0.5em;
-            }
-            
-            table {
-              border-collapse: collapse;
-              width: 100%;
-              margin: 1.5em 0;
-            }
-            
-            th, td {
-              border: 1px solid #ddd;
-              padding: 8pt;
-            }
-            
-            .a4-page {
-              page-break-after: always;
-            }
-            
-            .a4-page:last-child {
-              page-break-after: avoid;
-            }
-            
-            /* Ensure paragraphs don't break awkwardly */
-            p {
-              orphans: 3;
-              widows: 3;
-            }
-            ${docxStylesheet}
-          </style>
-        </head>
-        <body>
-          <div class="a4-page">
-            ${documentJob.html}
-          </div>
-        </body>
-        </html>
-      `;
-      
-      // Convert HTML to DOCX blob with improved styling
-      const docOptions: any = {
-        orientation: 'portrait',
-        margins: { 
-          top: '2.5cm',
-          right: '2.5cm',
-          bottom: '2.5cm',
-          left: '2.5cm'
-        }
-      };
-
-      const blob = htmlDocx.asBlob(wrappedHtml, docOptions);
-      
-      // Download the DOCX file
-      const filename = `document-${jobId}.docx`;
-      saveAs(blob, filename);
+      // Only the server's converter writes a table of contents
+      const blob = docxToc ? await fetchDocxBlob(documentJob.html, { toc: true }) : htmlToDocxBlob(documentJob.html);
+      saveAs(blob, `document-${jobId}.docx`);
     } catch (error) {
       console.error('Error exporting to DOCX:', error);
       alert('Error exporting document. Please try again.');
@@ -461,8 +533,15 @@ export default function DocumentPage({ params }: { params: { id: string } }) {
     <div className="flex h-screen bg-gray-100">
       {/* Chat panel - Left side */}
       <div className="w-1/3 h-full bg-white border-r border-gray-200 flex flex-col">
-        <div className="p-4 border-b border-gray-200">
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
           <h2 className="text-xl font-semibold">Chat</h2>
+          <a
+            href={`/api/documents/${jobId}/messages?format=markdown`}
+            download={`chat-${jobId}.md`}
+            className="text-sm px-3 py-1 rounded-lg bg-gray-200 hover:bg-gray-300"
+          >
+            Export Chat
+          </a>
         </div>
         
         {/* Messages container */}
@@ -473,15 +552,38 @@ export default function DocumentPage({ params }: { params: { id: string } }) {
               className={`p-3 rounded-lg ${
                 msg.role === 'user' 
                   ? 'bg-blue-100 ml-4' 
-                  : 'bg-gray-100 mr-4'
+                  : msg.isError
+                    ? 'bg-red-50 text-red-700 mr-4'
+                    : 'bg-gray-100 mr-4'
               }`}
             >
               <div className="font-semibold mb-1">
                 {msg.role === 'user' ? 'You' : 'Assistant'}
               </div>
               <div className="whitespace-pre-wrap">{msg.content}</div>
+              {msg.isError && msg.retryPrompt && index === messages.length - 1 && !activeJobId && (
+                <button
+                  onClick={() => handleRetryMessage(msg.retryPrompt!)}
+                  className="mt-2 text-sm px-3 py-1 rounded-lg bg-red-100 hover:bg-red-200 text-red-700"
+                >
+                  Retry
+                </button>
+              )}
             </div>
           ))}
+          {activeJobId && (
+            <div className="p-3 rounded-lg bg-gray-100 mr-4 text-gray-600">
+              <div className="font-semibold mb-1">Assistant</div>
+              <div className="whitespace-pre-wrap italic">{progressMessage || 'Working on your request...'}</div>
+              <button
+                onClick={handleCancel}
+                disabled={cancelling}
+                className="mt-2 text-sm px-3 py-1 rounded-lg bg-red-100 hover:bg-red-200 text-red-700 disabled:opacity-50"
+              >
+                {cancelling ? 'Cancelling...' : 'Cancel'}
+              </button>
+            </div>
+          )}
         </div>
         
         {/* Input area */}
@@ -522,27 +624,231 @@ export default function DocumentPage({ params }: { params: { id: string } }) {
               HTML Code
             </button>
           </div>
-          <button
-            onClick={exportToDocx}
-            className="bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-lg flex items-center"
-          >
-            <span className="mr-1">Export DOCX</span>
-          </button>
+          <div className="flex items-center space-x-2">
+            {documentJob.access === 'owner' && (
+              <button
+                onClick={() => setShowShare(!showShare)}
+                className={`px-4 py-2 rounded-lg ${showShare ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+              >
+                Share
+              </button>
+            )}
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className={`px-4 py-2 rounded-lg ${showHistory ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+            >
+              History{revisions.length > 0 ? ` (${revisions.length})` : ''}
+            </button>
+            {activeJobId && (
+              <button
+                onClick={handleCancel}
+                disabled={cancelling}
+                className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg disabled:opacity-50"
+              >
+                {cancelling ? 'Cancelling...' : 'Cancel Generation'}
+              </button>
+            )}
+            <button
+              onClick={exportToDocx}
+              className="bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-lg flex items-center"
+            >
+              <span className="mr-1">Export DOCX</span>
+            </button>
+            <label className="flex items-center gap-1 text-sm text-gray-700" title="Start the DOCX with a table of contents">
+              <input type="checkbox" checked={docxToc} onChange={(e) => setDocxToc(e.target.checked)} />
+              Contents
+            </label>
+          </div>
         </div>
         
-        {/* Content area */}
-        <div className="flex-1 overflow-auto">
-          {viewMode === 'preview' ? (
-            <iframe 
-              ref={iframeRef}
-              className="w-full h-full border-0" 
-              title="Document preview"
-            />
-          ) : (
-            <div className="p-4 h-full">
-              <pre className="bg-gray-800 text-gray-100 p-4 rounded-lg overflow-auto h-full">
-                <code>{documentJob.html}</code>
-              </pre>
+        {showShare && documentJob.access === 'owner' && (
+          <div className="bg-white border-b border-gray-200 px-4 py-3 space-y-2">
+            <form onSubmit={handleShare} className="flex gap-2">
+              <input
+                type="email"
+                value={shareEmail}
+                onChange={(e) => setShareEmail(e.target.value)}
+                placeholder="Share with email..."
+                className="flex-1 border border-gray-300 rounded-lg px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button type="submit" className="text-sm px-3 py-1 rounded-lg bg-blue-500 hover:bg-blue-600 text-white">
+                Share
+              </button>
+            </form>
+            {shareError && <div className="text-sm text-red-500">{shareError}</div>}
+            {(documentJob.shared_with || []).length === 0 ? (
+              <div className="text-sm text-gray-500">Only you can see this document.</div>
+            ) : (
+              <ul className="text-sm space-y-1">
+                {(documentJob.shared_with || []).map(email => (
+                  <li key={email} className="flex justify-between items-center">
+                    <span>{email}</span>
+                    <button onClick={() => handleUnshare(email)} className="text-red-600 hover:underline">
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="pt-2 border-t border-gray-100 space-y-2">
+              <div className="flex gap-2 items-center">
+                <span className="flex-1 text-sm font-medium">Read-only links</span>
+                <select
+                  value={linkExpiryDays}
+                  onChange={(e) => setLinkExpiryDays(e.target.value)}
+                  className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                >
+                  <option value="1">Expires in 1 day</option>
+                  <option value="7">Expires in 7 days</option>
+                  <option value="30">Expires in 30 days</option>
+                  <option value="">Never expires</option>
+                </select>
+                <button
+                  onClick={handleCreateLink}
+                  className="text-sm px-3 py-1 rounded-lg bg-blue-500 hover:bg-blue-600 text-white"
+                >
+                  Create link
+                </button>
+              </div>
+              {shareLinks.filter(link => link.status !== 'revoked').length === 0 ? (
+                <div className="text-sm text-gray-500">No active links.</div>
+              ) : (
+                <ul className="text-sm space-y-1">
+                  {shareLinks.filter(link => link.status !== 'revoked').map(link => (
+                    <li key={link.link_id} className="flex justify-between items-center gap-2">
+                      <span className="truncate text-gray-600">
+                        {link.status === 'expired'
+                          ? 'Expired'
+                          : link.expires_at
+                            ? `Expires ${new Date(link.expires_at).toLocaleString()}`
+                            : 'Never expires'}
+                        {' · '}created {new Date(link.created_at).toLocaleDateString()}
+                      </span>
+                      <span className="flex gap-3 shrink-0">
+                        {link.status === 'active' && (
+                          <button onClick={() => copyLink(link)} className="text-blue-600 hover:underline">
+                            {copiedLinkId === link.link_id ? 'Copied' : 'Copy link'}
+                          </button>
+                        )}
+                        <button onClick={() => handleRevokeLink(link.link_id)} className="text-red-600 hover:underline">
+                          Revoke
+                        </button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+
+        {!previewRevision && documentJob.status === 'failed' && (
+          <div role="alert" className="bg-red-50 border-b border-red-200 px-4 py-3 flex justify-between items-center gap-4">
+            <div className="text-sm text-red-800">
+              <div className="font-semibold">This document could not be generated</div>
+              <div>{documentJob.error || 'Unknown error'}</div>
+              {documentJob.error_code && <div className="text-xs font-mono opacity-75">{documentJob.error_code}</div>}
+            </div>
+            {documentJob.access !== 'read' && (
+              <button
+                onClick={handleRetryDocument}
+                disabled={!!activeJobId}
+                className="shrink-0 text-sm px-3 py-1 rounded-lg bg-red-600 hover:bg-red-700 text-white disabled:opacity-50"
+              >
+                {activeJobId ? 'Retrying...' : 'Retry generation'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {!previewRevision && !!documentJob.sanitize_report?.removed && (
+          <div className="bg-orange-50 border-b border-orange-200 px-4 py-2 text-sm text-orange-800">
+            {documentJob.sanitize_report.removed} unsafe item{documentJob.sanitize_report.removed === 1 ? ' was' : 's were'} removed
+            from this document (scripts, event handlers or disallowed styles).
+          </div>
+        )}
+
+        {previewRevision && (
+          <div className="bg-yellow-50 border-b border-yellow-200 px-4 py-2 flex justify-between items-center">
+            <span className="text-sm text-yellow-800">
+              Previewing revision {previewRevision.revision_number} from {new Date(previewRevision.created_at).toLocaleString()}
+            </span>
+            <div className="flex space-x-2">
+              <button
+                onClick={handleRestore}
+                disabled={restoring || !!activeJobId}
+                className="text-sm px-3 py-1 rounded-lg bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50"
+              >
+                {restoring ? 'Restoring...' : 'Restore this revision'}
+              </button>
+              <button
+                onClick={() => setPreviewRevision(null)}
+                className="text-sm px-3 py-1 rounded-lg bg-gray-200 hover:bg-gray-300"
+              >
+                Back to current
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* Content area */}
+          <div className="flex-1 overflow-auto">
+            {viewMode === 'preview' ? (
+              <iframe 
+                ref={iframeRef}
+                className="w-full h-full border-0" 
+                title="Document preview"
+                sandbox="allow-same-origin"
+              />
+            ) : (
+              <div className="p-4 h-full">
+                <pre className="bg-gray-800 text-gray-100 p-4 rounded-lg overflow-auto h-full">
+                  <code>{displayedHtml}</code>
+                </pre>
+              </div>
+            )}
+          </div>
+
+          {/* Revision history sidebar */}
+          {showHistory && (
+            <div className="w-72 h-full bg-white border-l border-gray-200 overflow-y-auto">
+              <div className="p-4 border-b border-gray-200">
+                <h3 className="font-semibold">Revision History</h3>
+              </div>
+              {revisions.length === 0 ? (
+                <div className="p-4 text-sm text-gray-500">No revisions yet.</div>
+              ) : (
+                <ul>
+                  {revisions.map((revision) => {
+                    const isCurrent = revision.revision_id === documentJob.current_revision_id;
+                    const isPreviewed = revision.revision_id === previewRevision?.revision_id;
+                    return (
+                      <li key={revision.revision_id}>
+                        <button
+                          onClick={() => handlePreviewRevision(revision.revision_id)}
+                          className={`w-full text-left p-3 border-b border-gray-100 hover:bg-gray-50 ${
+                            isPreviewed ? 'bg-yellow-50' : ''
+                          }`}
+                        >
+                          <div className="flex justify-between items-center text-sm">
+                            <span className="font-semibold">
+                              Revision {revision.revision_number}
+                              {revision.source === 'restored' && ' (restored)'}
+                            </span>
+                            {isCurrent && (
+                              <span className="text-xs px-2 py-0.5 rounded bg-green-100 text-green-700">Current</span>
+                            )}
+                          </div>
+                          <div className="text-sm text-gray-600 truncate">{revision.prompt}</div>
+                          <div className="text-xs text-gray-400">{new Date(revision.created_at).toLocaleString()}</div>
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,319 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { saveAs } from 'file-saver';
+import type { DocumentJobStatus } from '@/utils/job-store';
+import {
+  bulkDocumentAction,
+  DocumentListPage,
+  DocumentListParams,
+  exportDocuments,
+  listDocuments,
+  setDocumentPinned
+} from '@/utils/job-client';
+import UserMenu from '@/components/UserMenu';
+
+const STATUS_OPTIONS: DocumentJobStatus[] = ['pending', 'processing', 'completed', 'failed', 'cancelled'];
+
+const STATUS_STYLES: Record<DocumentJobStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  processing: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-200 text-gray-700'
+};
+
+export default function DocumentsPage() {
+  const [filters, setFilters] = useState<DocumentListParams>({
+    page: 1,
+    pageSize: 12,
+    sort: 'created_at',
+    order: 'desc'
+  });
+  const [listing, setListing] = useState<DocumentListPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+
+  const loadDocuments = useCallback(async () => {
+    setLoading(true);
+    try {
+      setListing(await listDocuments(filters));
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to load documents');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
+  // Any filter change starts again from the first page
+  const updateFilters = (changes: DocumentListParams) => {
+    setFilters(current => ({ ...current, page: 1, ...changes }));
+    setSelected(new Set());
+  };
+
+  const toggleSelected = (documentId: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(documentId)) {
+        next.delete(documentId);
+      } else {
+        next.add(documentId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    const pageIds = listing?.documents.map(document => document.job_id) || [];
+    const allSelected = pageIds.length > 0 && pageIds.every(id => selected.has(id));
+    setSelected(allSelected ? new Set() : new Set(pageIds));
+  };
+
+  const runBulkAction = async (action: 'delete' | 'rerun' | 'export') => {
+    const ids = Array.from(selected);
+    if (ids.length === 0) return;
+
+    if (action === 'delete' && !confirm(`Delete ${ids.length} document${ids.length === 1 ? '' : 's'}? This cannot be undone.`)) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      if (action === 'export') {
+        saveAs(await exportDocuments(ids), `documents-${new Date().toISOString().slice(0, 10)}.json`);
+      } else {
+        await bulkDocumentAction(action, ids);
+        setSelected(new Set());
+        await loadDocuments();
+      }
+    } catch (err) {
+      console.error(err);
+      alert(`Could not ${action === 'rerun' ? 're-run' : action} the selected documents. Please try again.`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Pinned documents are kept regardless of the retention policy
+  const togglePinned = async (documentId: string, pinned: boolean) => {
+    const updated = await setDocumentPinned(documentId, pinned);
+    if (updated) {
+      setListing(current => current && {
+        ...current,
+        documents: current.documents.map(document =>
+          document.job_id === documentId ? { ...document, pinned } : document
+        )
+      });
+    }
+  };
+
+  const page = listing?.page || 1;
+  const totalPages = listing?.totalPages || 1;
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <header className="p-4 flex items-center justify-between border-b bg-white shadow-sm">
+        <h1 className="text-xl font-bold">Documents</h1>
+        <div className="flex items-center gap-2">
+          <UserMenu />
+          <Link href="/batches" className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-md">
+            Batches
+          </Link>
+          <Link href="/templates" className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-md">
+            Templates
+          </Link>
+          <Link href="/" className="px-4 py-2 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded-md">
+            New Document
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto p-4 space-y-4">
+        {/* Filters */}
+        <div className="bg-white p-4 rounded-lg shadow-sm flex flex-wrap gap-4 items-end">
+          <label className="flex flex-col text-sm">
+            Status
+            <select
+              value={filters.status?.[0] || ''}
+              onChange={(e) => updateFilters({ status: e.target.value ? [e.target.value as DocumentJobStatus] : undefined })}
+              className="mt-1 border border-gray-300 rounded-lg px-3 py-2"
+            >
+              <option value="">All</option>
+              {STATUS_OPTIONS.map(status => (
+                <option key={status} value={status}>{status}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col text-sm">
+            Created from
+            <input
+              type="date"
+              value={filters.from || ''}
+              onChange={(e) => updateFilters({ from: e.target.value || undefined })}
+              className="mt-1 border border-gray-300 rounded-lg px-3 py-2"
+            />
+          </label>
+          <label className="flex flex-col text-sm">
+            Created to
+            <input
+              type="date"
+              value={filters.to || ''}
+              onChange={(e) => updateFilters({ to: e.target.value || undefined })}
+              className="mt-1 border border-gray-300 rounded-lg px-3 py-2"
+            />
+          </label>
+          <label className="flex flex-col text-sm">
+            Sort by
+            <select
+              value={`${filters.sort}:${filters.order}`}
+              onChange={(e) => {
+                const [sort, order] = e.target.value.split(':');
+                updateFilters({ sort: sort as DocumentListParams['sort'], order: order as DocumentListParams['order'] });
+              }}
+              className="mt-1 border border-gray-300 rounded-lg px-3 py-2"
+            >
+              <option value="created_at:desc">Newest first</option>
+              <option value="created_at:asc">Oldest first</option>
+              <option value="updated_at:desc">Recently updated</option>
+              <option value="status:asc">Status</option>
+            </select>
+          </label>
+        </div>
+
+        {/* Bulk actions */}
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={!!listing?.documents.length && listing.documents.every(document => selected.has(document.job_id))}
+              onChange={toggleAll}
+            />
+            Select page {selected.size > 0 && `(${selected.size} selected)`}
+          </label>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => runBulkAction('rerun')}
+              disabled={busy || selected.size === 0}
+              className="px-4 py-2 rounded-lg bg-gray-200 hover:bg-gray-300 disabled:opacity-50"
+            >
+              Re-run
+            </button>
+            <button
+              onClick={() => runBulkAction('export')}
+              disabled={busy || selected.size === 0}
+              className="px-4 py-2 rounded-lg bg-green-500 hover:bg-green-600 text-white disabled:opacity-50"
+            >
+              Export
+            </button>
+            <button
+              onClick={() => runBulkAction('delete')}
+              disabled={busy || selected.size === 0}
+              className="px-4 py-2 rounded-lg bg-red-500 hover:bg-red-600 text-white disabled:opacity-50"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+
+        {/* Document grid */}
+        {error ? (
+          <div className="text-red-500">{error}</div>
+        ) : loading && !listing ? (
+          <div>Loading documents...</div>
+        ) : listing?.documents.length === 0 ? (
+          <div className="text-gray-500">No documents match these filters.</div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+            {listing?.documents.map(document => (
+              <div
+                key={document.job_id}
+                className={`bg-white rounded-lg shadow-sm overflow-hidden border-2 ${
+                  selected.has(document.job_id) ? 'border-blue-500' : 'border-transparent'
+                }`}
+              >
+                {/* Thumbnail: the document rendered at a quarter of its size */}
+                <Link href={`/document/${document.job_id}`} className="block relative h-48 overflow-hidden bg-gray-50">
+                  <iframe
+                    src={`/api/documents/${document.job_id}/preview`}
+                    title={`Preview of ${document.job_id}`}
+                    loading="lazy"
+                    sandbox=""
+                    tabIndex={-1}
+                    className="absolute top-0 left-0 border-0 pointer-events-none origin-top-left"
+                    style={{ width: '400%', height: '400%', transform: 'scale(0.25)' }}
+                  />
+                </Link>
+                <div className="p-3 space-y-1">
+                  <div className="flex items-center justify-between">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(document.job_id)}
+                      onChange={() => toggleSelected(document.job_id)}
+                    />
+                    <div className="flex items-center gap-2">
+                      {document.access !== 'owner' && (
+                        <span className="text-xs px-2 py-0.5 rounded bg-indigo-100 text-indigo-800">Shared with you</span>
+                      )}
+                      <button
+                        onClick={() => togglePinned(document.job_id, !document.pinned)}
+                        disabled={document.access !== 'owner'}
+                        title={document.pinned ? 'Unpin (allow cleanup)' : 'Pin (keep forever)'}
+                        className={`text-xs px-2 py-0.5 rounded disabled:opacity-50 ${
+                          document.pinned ? 'bg-purple-100 text-purple-800' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                        }`}
+                      >
+                        {document.pinned ? 'Pinned' : 'Pin'}
+                      </button>
+                      <span className={`text-xs px-2 py-0.5 rounded ${STATUS_STYLES[document.status]}`}>
+                        {document.status}
+                      </span>
+                    </div>
+                  </div>
+                  <Link href={`/document/${document.job_id}`} className="block text-sm font-medium line-clamp-2 hover:underline">
+                    {document.prompt}
+                  </Link>
+                  <div className="text-xs text-gray-500">
+                    Created {new Date(document.created_at).toLocaleString()}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Updated {new Date(document.updated_at).toLocaleString()}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Paging */}
+        <div className="flex items-center justify-center gap-4">
+          <button
+            onClick={() => setFilters(current => ({ ...current, page: page - 1 }))}
+            disabled={page <= 1 || loading}
+            className="px-4 py-2 rounded-lg bg-gray-200 hover:bg-gray-300 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-sm">
+            Page {page} of {totalPages} ({listing?.total ?? 0} documents)
+          </span>
+          <button
+            onClick={() => setFilters(current => ({ ...current, page: page + 1 }))}
+            disabled={page >= totalPages || loading}
+            className="px-4 py-2 rounded-lg bg-gray-200 hover:bg-gray-300 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      </main>
+    </div>
+  );
+}
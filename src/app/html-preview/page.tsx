@@ -2,6 +2,9 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import pdfFonts from 'pdfmake/build/vfs_fonts';
+import PdfExportDialog from '@/components/PdfExportDialog';
+import { DEFAULT_MARGINS_MM, DEFAULT_PDF_OPTIONS, PdfOptions, uniformMargins } from '@/utils/renderers/pdf-options';
+import { fetchDocxBlob } from '@/utils/docx-export';
 
 // Define type for pdfmake
 declare global {
@@ -52,6 +55,14 @@ export default function HtmlPreview() {
   const [editMode, setEditMode] = useState('code'); // 'code' or 'direct'
   const [imageUploadProgress, setImageUploadProgress] = useState<number | null>(null);
   const [isExporting, setIsExporting] = useState(false);
+  const [showPdfDialog, setShowPdfDialog] = useState(false);
+  const [docxToc, setDocxToc] = useState(false);
+  // Last layout chosen in the export dialog; printable pages to start with
+  const [pdfOptions, setPdfOptions] = useState<PdfOptions>({
+    ...DEFAULT_PDF_OPTIONS,
+    layout: 'paginated',
+    margins: uniformMargins(DEFAULT_MARGINS_MM.paginated)
+  });
   const [selectedImage, setSelectedImage] = useState<HTMLImageElement | null>(null);
   const [showImageControls, setShowImageControls] = useState(false);
   const [imageControlsPosition, setImageControlsPosition] = useState({ top: 0, left: 0 });
@@ -323,18 +334,7 @@ export default function HtmlPreview() {
       
       showToast('Generating DOCX...', 'info');
       
-      const response = await fetch('/api/convert-turbo', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ html: contentToSend })
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Server error (${response.status}): ${errorText}`);
-      }
-      
-      const blob = await response.blob();
+      const blob = await fetchDocxBlob(contentToSend, docxToc ? { toc: true } : {});
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -364,7 +364,10 @@ export default function HtmlPreview() {
   };
 
   // Function to export HTML preview to PDF using server-side Puppeteer approach
-  const exportToPdf = async () => {
+  const exportToPdf = async (options: PdfOptions) => {
+    setShowPdfDialog(false);
+    setPdfOptions(options);
+
     if (!htmlCode.trim()) {
       showToast('Please enter some HTML content before exporting', 'error');
       return;
@@ -459,11 +462,12 @@ export default function HtmlPreview() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ htmlContent }),
+        body: JSON.stringify({ htmlContent, ...options }),
       });
       
       if (!response.ok) {
-        throw new Error('Failed to generate PDF');
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to generate PDF');
       }
       
       // Get PDF blob and show in popup
@@ -839,6 +843,13 @@ export default function HtmlPreview() {
           </button>
         </div>
       )}
+      {showPdfDialog && (
+        <PdfExportDialog
+          initialOptions={pdfOptions}
+          onCancel={() => setShowPdfDialog(false)}
+          onExport={exportToPdf}
+        />
+      )}
       <main className="container mx-auto px-4 py-8">
         <div className="text-center mb-8">
           <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-4">
@@ -875,6 +886,13 @@ export default function HtmlPreview() {
                 >
                   Export DOCX
                 </button>
+                <label
+                  className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300"
+                  title="Start the DOCX with a table of contents"
+                >
+                  <input type="checkbox" checked={docxToc} onChange={(e) => setDocxToc(e.target.checked)} />
+                  Contents
+                </label>
                 <button
                   onClick={toggleEditMode}
                   className={`px-3 py-1 text-sm ${editMode === 'direct' 
@@ -885,7 +903,7 @@ export default function HtmlPreview() {
                   {editMode === 'direct' ? 'Direct Edit On' : 'Direct Edit Off'}
                 </button>
                 <button
-                  onClick={exportToPdf}
+                  onClick={() => setShowPdfDialog(true)}
                   disabled={isExporting}
                   className="px-3 py-1 text-sm bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white rounded transition-colors"
                 >
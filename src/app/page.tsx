@@ -2,8 +2,15 @@
 
 import { useState, useRef, useEffect } from "react";
 import Image from "next/image";
+import Link from "next/link";
 import { asBlob } from "html-docx-ts";
 import { saveAs } from "file-saver";
+import { ApiRequestError, fetchQuota, listPromptTemplates, submitJob } from "@/utils/job-client";
+import type { LimitStatus } from "@/utils/rate-limit/types";
+import type { PromptTemplate } from "@/utils/job-store";
+import { getDefaultValues, renderPromptTemplate, TemplateValues } from "@/utils/prompt-templates/variables";
+import UserMenu from "@/components/UserMenu";
+import TemplateForm from "@/components/TemplateForm";
 
 export default function Home() {
   const [prompt, setPrompt] = useState("");
@@ -11,145 +18,78 @@ export default function Home() {
   const [generatedHtml, setGeneratedHtml] = useState("");
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [projectId, setProjectId] = useState("");
+  const [submitError, setSubmitError] = useState<{ message: string; code?: string; retryable: boolean } | null>(null);
+  // Daily job quota; null until loaded or when the server has none
+  const [quota, setQuota] = useState<LimitStatus | null>(null);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  // The prompt is written freely while no template is selected
+  const [selectedTemplate, setSelectedTemplate] = useState<PromptTemplate | null>(null);
+  const [templateValues, setTemplateValues] = useState<TemplateValues>({});
   const iframeRef = useRef<HTMLIFrameElement>(null);
+  // One Idempotency-Key per prompt, so double-clicks and retries reuse the same job
+  const idempotencyKeyRef = useRef<{ prompt: string; key: string } | null>(null);
+
+  const getIdempotencyKey = (text: string) => {
+    if (idempotencyKeyRef.current?.prompt !== text) {
+      idempotencyKeyRef.current = { prompt: text, key: crypto.randomUUID() };
+    }
+    return idempotencyKeyRef.current.key;
+  };
+
+  const loadQuota = () => {
+    fetchQuota()
+      .then(setQuota)
+      .catch(error => console.error("Error loading quota:", error));
+  };
+
+  useEffect(() => {
+    loadQuota();
+    listPromptTemplates()
+      .then(setTemplates)
+      .catch(error => console.error("Error loading templates:", error));
+  }, []);
+
+  const selectTemplate = (templateId: string) => {
+    const template = templates.find(t => t.template_id === templateId) || null;
+    setSelectedTemplate(template);
+    setTemplateValues(template ? getDefaultValues(template.variables) : {});
+  };
+
+  const renderedTemplate = selectedTemplate
+    ? renderPromptTemplate(selectedTemplate.body, selectedTemplate.variables, templateValues)
+    : null;
+  const templateIncomplete = !!renderedTemplate && Object.keys(renderedTemplate.errors).length > 0;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!prompt.trim()) return;
+    await submitPrompt();
+  };
+
+  const submitPrompt = async () => {
+    const text = renderedTemplate ? renderedTemplate.prompt : prompt;
+    if (!text.trim() || templateIncomplete) return;
 
     setLoading(true);
+    setSubmitError(null);
     setGeneratedHtml("");
     setProjectId("");
 
     try {
-      console.log("Sending request with prompt:", prompt);
-      
-      // Submit the job to start processing
-      const submitResponse = await fetch(
-        "/api/proxy", 
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "Accept": "application/json"
-          },
-          body: JSON.stringify({ prompt }),
-        }
-      );
-
-      if (!submitResponse.ok) {
-        throw new Error(`HTTP error! Status: ${submitResponse.status}`);
-      }
-
-      // Parse the initial response which contains the job ID
-      const initialData = await submitResponse.json();
-      console.log("Job submitted:", initialData);
-      
-      if (!initialData.jobId) {
-        throw new Error("No job ID returned from server");
-      }
-      
-      // Redirect to the document page with the job ID
-      window.location.href = `/document/${initialData.jobId}`;
-      return;
-      
+      // Submit the job; the document page follows it from here
+      // The template and version are kept with the job, so the document shows where its prompt came from
+      const request = selectedTemplate
+        ? { prompt: text, promptTemplate: { id: selectedTemplate.template_id, version: selectedTemplate.version } }
+        : { prompt: text };
+      const { jobId } = await submitJob(request, getIdempotencyKey(text));
+      window.location.href = `/document/${jobId}`;
     } catch (error) {
-      console.error("Error generating document:", error);
-      
-      // Create a fallback document on error
-      const fallbackHtml = `
-        <div>
-          <h1>Generated Document</h1>
-          <p>We encountered an issue processing your request, but we've created this document instead.</p>
-          <p>Your prompt was: "${prompt}"</p>
-          <hr>
-          <p>Generated at: ${new Date().toISOString()}</p>
-        </div>
-      `;
-      setGeneratedHtml(fallbackHtml);
-      setProjectId(`error-${Date.now()}`);
-      alert("There was an error generating the document. A fallback document has been created.");
-      setLoading(false);
-    }
-  };
-  
-  // Poll for job status until it completes or fails
-  const pollJobStatus = async (jobId: string) => {
-    try {
-      let attempts = 0;
-      const maxAttempts = 60; // 2 minutes max with 2-second intervals
-      
-      // Function to check job status once
-      const checkStatus = async (): Promise<boolean> => {
-        const statusResponse = await fetch(`/api/proxy?jobId=${jobId}`);
-        
-        if (!statusResponse.ok) {
-          throw new Error(`Error checking job status: ${statusResponse.status}`);
-        }
-        
-        const statusData = await statusResponse.json();
-        console.log(`Job status (${attempts + 1}/${maxAttempts}):`, statusData.status);
-        
-        if (statusData.status === 'completed') {
-          // Job completed successfully
-          setGeneratedHtml(statusData.html || statusData.result?.html || '');
-          setProjectId(statusData.projectId || statusData.result?.projectId || `job-${jobId}`);
-          setLoading(false);
-          setIsSubmitted(true);
-          return true; // Done polling
-          
-        } else if (statusData.status === 'failed') {
-          // Job failed
-          const errorHtml = statusData.html || `
-            <div>
-              <h1>Error Generating Document</h1>
-              <p>We encountered an error: ${statusData.error || 'Unknown error'}</p>
-              <p>Your prompt was: "${prompt}"</p>
-              <hr>
-              <p>Time: ${new Date().toISOString()}</p>
-            </div>
-          `;
-          setGeneratedHtml(errorHtml);
-          setProjectId(statusData.projectId || `error-${jobId}`);
-          setLoading(false);
-          return true; // Done polling
-          
-        } else if (statusData.html && statusData.html !== generatedHtml) {
-          // Update the loading/processing HTML if it changed
-          setGeneratedHtml(statusData.html);
-        }
-        
-        // Still pending, continue polling
-        return false;
-      };
-      
-      // Poll until completed or max attempts reached
-      while (attempts < maxAttempts) {
-        const done = await checkStatus();
-        if (done) return;
-        
-        attempts++;
-        await new Promise(resolve => setTimeout(resolve, 2000)); // Wait 2 seconds between polls
-      }
-      
-      // If we exit the loop without returning, we timed out
-      throw new Error('Job processing timed out after 2 minutes');
-      
-    } catch (error) {
-      console.error('Error polling for job status:', error);
-      const timeoutHtml = `
-        <div>
-          <h1>Processing Timeout</h1>
-          <p>Your document request took too long to process.</p>
-          <p>Your prompt was: "${prompt}"</p>
-          <p>Error: ${error instanceof Error ? error.message : 'Unknown error'}</p>
-          <hr>
-          <p>Time: ${new Date().toISOString()}</p>
-        </div>
-      `;
-      setGeneratedHtml(timeoutHtml);
-      setProjectId(`timeout-${Date.now()}`);
+      console.error("Error submitting document request:", error);
+      setSubmitError(error instanceof ApiRequestError
+        ? { message: error.message, code: error.code, retryable: error.retryable }
+        // The request did not get through at all (offline, server down)
+        : { message: "Could not reach the server. Check your connection and try again.", retryable: true });
       setLoading(false);
+      loadQuota();
     }
   };
   
@@ -324,14 +264,29 @@ export default function Home() {
           />
           <h1 className="text-xl font-bold">Smart Handbook System</h1>
         </div>
-        {isSubmitted && (
-          <button
-            onClick={resetChat}
+        <div className="flex items-center gap-2">
+          <UserMenu />
+          <Link
+            href="/templates"
             className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 rounded-md transition-colors"
           >
-            New Document
-          </button>
-        )}
+            Templates
+          </Link>
+          <Link
+            href="/documents"
+            className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 rounded-md transition-colors"
+          >
+            My Documents
+          </Link>
+          {isSubmitted && (
+            <button
+              onClick={resetChat}
+              className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 rounded-md transition-colors"
+            >
+              New Document
+            </button>
+          )}
+        </div>
       </header>
 
       {/* Main Content */}
@@ -341,23 +296,69 @@ export default function Home() {
           <div className="max-w-2xl mx-auto mt-20 p-6 bg-white dark:bg-gray-800 rounded-xl shadow-lg">
             <h2 className="text-2xl font-semibold mb-6 text-center">Create Your Smart Document</h2>
             <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="relative">
-                <textarea
-                  value={prompt}
-                  onChange={(e) => setPrompt(e.target.value)}
-                  placeholder="Describe the document you want to create..."
-                  className="w-full h-40 p-4 border rounded-lg focus:ring-2 focus:ring-blue-400 focus:border-blue-400 resize-none dark:bg-gray-700 dark:border-gray-600"
-                  required
+              {templates.length > 0 && (
+                <label className="flex flex-col text-sm">
+                  Start from
+                  <select
+                    value={selectedTemplate?.template_id || ""}
+                    onChange={(e) => selectTemplate(e.target.value)}
+                    className="mt-1 p-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
+                  >
+                    <option value="">Free text</option>
+                    {templates.map(template => (
+                      <option key={template.template_id} value={template.template_id}>{template.name}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {selectedTemplate && renderedTemplate ? (
+                <TemplateForm
+                  template={selectedTemplate}
+                  values={templateValues}
+                  onChange={setTemplateValues}
+                  rendered={renderedTemplate}
                 />
-              </div>
+              ) : (
+                <div className="relative">
+                  <textarea
+                    value={prompt}
+                    onChange={(e) => setPrompt(e.target.value)}
+                    placeholder="Describe the document you want to create..."
+                    className="w-full h-40 p-4 border rounded-lg focus:ring-2 focus:ring-blue-400 focus:border-blue-400 resize-none dark:bg-gray-700 dark:border-gray-600"
+                    required
+                  />
+                </div>
+              )}
               <button
                 type="submit"
-                disabled={loading}
-                className={`w-full py-3 rounded-lg font-medium text-white ${loading ? 'bg-blue-400' : 'bg-blue-600 hover:bg-blue-700'} transition-colors`}
+                disabled={loading || templateIncomplete}
+                className={`w-full py-3 rounded-lg font-medium text-white ${loading || templateIncomplete ? 'bg-blue-400' : 'bg-blue-600 hover:bg-blue-700'} transition-colors`}
               >
                 {loading ? "Generating..." : "Generate Document"}
               </button>
+              {quota && (
+                <p className={`text-sm text-center ${quota.remaining === 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                  {quota.remaining} of {quota.limit} documents left today
+                  {quota.remaining === 0 && ` (resets ${new Date(quota.resetAt).toLocaleString()})`}
+                </p>
+              )}
             </form>
+            {submitError && (
+              <div role="alert" className="mt-4 p-4 rounded-lg border border-red-200 bg-red-50 text-red-700 dark:bg-red-950 dark:border-red-900 dark:text-red-300">
+                <p className="font-medium">Your document could not be generated</p>
+                <p className="mt-1 text-sm">{submitError.message}</p>
+                {submitError.code && <p className="mt-1 text-xs font-mono opacity-75">{submitError.code}</p>}
+                {submitError.retryable && (
+                  <button
+                    onClick={submitPrompt}
+                    disabled={loading}
+                    className="mt-3 px-4 py-2 text-sm rounded-md bg-red-600 hover:bg-red-700 text-white disabled:opacity-50 transition-colors"
+                  >
+                    Try again
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         ) : (
           // Split view with chat on left and document on right
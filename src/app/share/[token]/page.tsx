@@ -0,0 +1,134 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import { saveAs } from 'file-saver';
+import { fetchDocxBlob, htmlToDocxBlob } from '@/utils/docx-export';
+
+type SharedDocument = {
+  prompt: string;
+  html: string;
+  updatedAt: string;
+  expiresAt: string | null;
+};
+
+/**
+ * Read-only viewer for share links: the document's current revision and downloads, no chat or editing.
+ * Reachable without signing in.
+ */
+export default function SharedDocumentPage() {
+  const { token } = useParams<{ token: string }>();
+  const [sharedDocument, setSharedDocument] = useState<SharedDocument | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [exportingPdf, setExportingPdf] = useState(false);
+  const [docxToc, setDocxToc] = useState(false);
+
+  useEffect(() => {
+    async function loadDocument() {
+      try {
+        const response = await fetch(`/api/share/${token}`);
+        if (response.status === 404) {
+          setError('This link has expired, been revoked, or does not exist.');
+          return;
+        }
+        if (!response.ok) {
+          throw new Error(`Error loading shared document: ${response.status}`);
+        }
+        setSharedDocument(await response.json());
+      } catch (err) {
+        console.error(err);
+        setError('Failed to load the document');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadDocument();
+  }, [token]);
+
+  const downloadPdf = async () => {
+    if (!sharedDocument) return;
+
+    setExportingPdf(true);
+    try {
+      const response = await fetch('/api/generate-pdf', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ htmlContent: sharedDocument.html })
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to generate PDF');
+      }
+
+      saveAs(await response.blob(), 'document.pdf');
+    } catch (err) {
+      console.error('Error exporting to PDF:', err);
+      alert('Error exporting document. Please try again.');
+    } finally {
+      setExportingPdf(false);
+    }
+  };
+
+  const downloadDocx = async () => {
+    if (!sharedDocument) return;
+
+    try {
+      // Only the server's converter writes a table of contents
+      const blob = docxToc ? await fetchDocxBlob(sharedDocument.html, { toc: true }) : htmlToDocxBlob(sharedDocument.html);
+      saveAs(blob, 'document.docx');
+    } catch (err) {
+      console.error('Error exporting to DOCX:', err);
+      alert('Error exporting document. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return <div className="flex items-center justify-center min-h-screen">Loading document...</div>;
+  }
+
+  if (error || !sharedDocument) {
+    return <div className="flex items-center justify-center min-h-screen text-red-500">{error || 'Document not found'}</div>;
+  }
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-100">
+      <header className="bg-white p-4 border-b border-gray-200 flex justify-between items-center gap-4">
+        <div className="min-w-0">
+          <h1 className="text-lg font-semibold truncate">{sharedDocument.prompt}</h1>
+          <div className="text-xs text-gray-500">
+            Read-only · updated {new Date(sharedDocument.updatedAt).toLocaleString()}
+            {sharedDocument.expiresAt && ` · link expires ${new Date(sharedDocument.expiresAt).toLocaleString()}`}
+          </div>
+        </div>
+        <div className="flex items-center space-x-2 shrink-0">
+          <button
+            onClick={downloadPdf}
+            disabled={exportingPdf}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg disabled:opacity-50"
+          >
+            {exportingPdf ? 'Generating PDF...' : 'Download PDF'}
+          </button>
+          <button
+            onClick={downloadDocx}
+            className="bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-lg"
+          >
+            Download DOCX
+          </button>
+          <label className="flex items-center gap-1 text-sm text-gray-700" title="Start the DOCX with a table of contents">
+            <input type="checkbox" checked={docxToc} onChange={(e) => setDocxToc(e.target.checked)} />
+            Contents
+          </label>
+        </div>
+      </header>
+
+      <iframe
+        src={`/api/share/${token}/preview`}
+        title="Shared document"
+        sandbox=""
+        className="flex-1 w-full border-0 bg-white"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useState, useEffect, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+
+// Stands in for this site's origin while checking where `next` points
+const SITE_ORIGIN = 'http://site.invalid';
+
+/**
+ * Only paths on this site, so the sign-in page cannot be used as an open redirect.
+ * Parsed the way browsers do, which also catches `/\evil.com` and tab or newline tricks.
+ */
+function getRedirectPath(next: string | null): string {
+  if (!next || !next.startsWith('/')) return '/';
+
+  const url = new URL(next, SITE_ORIGIN);
+  return url.origin === SITE_ORIGIN ? `${url.pathname}${url.search}${url.hash}` : '/';
+}
+
+function SignInForm() {
+  const searchParams = useSearchParams();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [mode, setMode] = useState<'sign-in' | 'sign-up'>('sign-in');
+  const [canSignUp, setCanSignUp] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const redirectTo = getRedirectPath(searchParams.get('next'));
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(response => response.json())
+      .then(data => {
+        if (data.user) {
+          window.location.href = redirectTo;
+        }
+        setCanSignUp(!!data.provider?.canSignUp);
+      })
+      .catch(err => console.error('Error loading session:', err));
+  }, [redirectTo]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password })
+      });
+      const data = await response.json();
+
+      if (response.ok && data.user) {
+        window.location.href = redirectTo;
+        return;
+      }
+
+      // 202: the account exists but the email still has to be confirmed
+      setMessage({ text: data.error || 'Sign-in failed', isError: response.status !== 202 });
+    } catch (err) {
+      console.error('Error signing in:', err);
+      setMessage({ text: 'Could not reach the server. Please try again.', isError: true });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-sm mx-auto mt-24 p-6 bg-white dark:bg-gray-800 rounded-xl shadow-lg">
+      <h1 className="text-2xl font-semibold mb-6 text-center">
+        {mode === 'sign-in' ? 'Sign in' : 'Create an account'}
+      </h1>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email"
+          required
+          className="w-full border border-gray-300 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600"
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          className="w-full border border-gray-300 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600"
+        />
+        {message && (
+          <div className={`text-sm ${message.isError ? 'text-red-500' : 'text-green-600'}`}>{message.text}</div>
+        )}
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg disabled:opacity-50"
+        >
+          {submitting ? 'Please wait...' : mode === 'sign-in' ? 'Sign in' : 'Sign up'}
+        </button>
+      </form>
+      {canSignUp && (
+        <button
+          onClick={() => setMode(mode === 'sign-in' ? 'sign-up' : 'sign-in')}
+          className="mt-4 w-full text-sm text-blue-600 hover:underline"
+        >
+          {mode === 'sign-in' ? 'No account yet? Sign up' : 'Already have an account? Sign in'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default function SignInPage() {
+  // useSearchParams needs a Suspense boundary for static rendering
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white dark:from-gray-900 dark:to-black p-4">
+      <Suspense fallback={null}>
+        <SignInForm />
+      </Suspense>
+    </div>
+  );
+}
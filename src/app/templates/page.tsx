@@ -0,0 +1,457 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import type { PromptTemplate, PromptTemplateVersion } from '@/utils/job-store';
+import {
+  ApiRequestError,
+  archivePromptTemplate,
+  createPromptTemplate,
+  fetchPromptTemplate,
+  listPromptTemplates,
+  PromptTemplateDraft,
+  savePromptTemplate
+} from '@/utils/job-client';
+import { getPlaceholders } from '@/utils/prompt-templates/placeholders';
+import { TEMPLATE_VARIABLE_TYPES, TemplateVariable, TemplateVariableType } from '@/utils/prompt-templates/variables';
+import UserMenu from '@/components/UserMenu';
+
+// A variable as edited in the form: options and bounds stay text until the template is saved
+interface VariableRow {
+  name: string;
+  label: string;
+  type: TemplateVariableType;
+  required: boolean;
+  options: string;
+  min: string;
+  max: string;
+  defaultValue: string;
+  help: string;
+}
+
+interface Editor {
+  // null for a template that has not been saved yet
+  templateId: string | null;
+  // Version the edits are based on; sent with the save to detect concurrent changes
+  baseVersion: number;
+  name: string;
+  description: string;
+  body: string;
+  variables: VariableRow[];
+}
+
+const EMPTY_EDITOR: Editor = { templateId: null, baseVersion: 0, name: '', description: '', body: '', variables: [] };
+
+const INPUT_CLASSES = 'mt-1 p-2 border border-gray-300 rounded-lg';
+
+function toRow(variable: TemplateVariable): VariableRow {
+  return {
+    name: variable.name,
+    label: variable.label,
+    type: variable.type,
+    required: !!variable.required,
+    options: variable.options?.join(', ') || '',
+    min: variable.min?.toString() ?? '',
+    max: variable.max?.toString() ?? '',
+    defaultValue: variable.defaultValue || '',
+    help: variable.help || ''
+  };
+}
+
+function toVariable(row: VariableRow): TemplateVariable {
+  const variable: TemplateVariable = {
+    name: row.name.trim(),
+    label: row.label.trim() || row.name.trim(),
+    type: row.type,
+    required: row.required
+  };
+  if (row.type === 'select') variable.options = row.options.split(',').map(option => option.trim()).filter(Boolean);
+  if (row.type === 'number' && row.min.trim()) variable.min = Number(row.min);
+  if (row.type === 'number' && row.max.trim()) variable.max = Number(row.max);
+  if (row.defaultValue.trim()) variable.defaultValue = row.defaultValue.trim();
+  if (row.help.trim()) variable.help = row.help.trim();
+  return variable;
+}
+
+function toEditor(source: PromptTemplate | PromptTemplateVersion, baseVersion: number): Editor {
+  return {
+    templateId: source.template_id,
+    baseVersion,
+    name: source.name,
+    description: source.description || '',
+    body: source.body,
+    variables: source.variables.map(toRow)
+  };
+}
+
+export default function TemplatesPage() {
+  const [templates, setTemplates] = useState<PromptTemplate[] | null>(null);
+  const [editor, setEditor] = useState<Editor>(EMPTY_EDITOR);
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+  const [canArchive, setCanArchive] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<{ message: string; issues?: string[]; conflict: boolean } | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setTemplates(await listPromptTemplates());
+      setLoadError(null);
+    } catch (err) {
+      console.error(err);
+      setLoadError('Failed to load templates');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const openTemplate = async (templateId: string) => {
+    setSaveError(null);
+    setNotice(null);
+    try {
+      const loaded = await fetchPromptTemplate(templateId);
+      if (!loaded) {
+        setLoadError('This template no longer exists');
+        return;
+      }
+      setEditor(toEditor(loaded.template, loaded.template.version));
+      setVersions(loaded.versions);
+      setCanArchive(loaded.canArchive && !loaded.template.archived_at);
+    } catch (err) {
+      console.error(err);
+      setLoadError('Failed to load the template');
+    }
+  };
+
+  const newTemplate = () => {
+    setEditor(EMPTY_EDITOR);
+    setVersions([]);
+    setCanArchive(false);
+    setSaveError(null);
+    setNotice(null);
+  };
+
+  // An earlier version goes into the form; saving it makes it the latest version again
+  const loadVersion = (version: PromptTemplateVersion) => {
+    setEditor(toEditor(version, editor.baseVersion));
+    setSaveError(null);
+    setNotice(`Version ${version.version} loaded. Save to restore it as a new version.`);
+  };
+
+  const updateVariable = (index: number, changes: Partial<VariableRow>) => {
+    setEditor(current => ({
+      ...current,
+      variables: current.variables.map((row, i) => i === index ? { ...row, ...changes } : row)
+    }));
+  };
+
+  // Add a text variable for every {{placeholder}} in the body that has none yet
+  const addVariablesFromBody = () => {
+    setEditor(current => {
+      const defined = new Set(current.variables.map(row => row.name.trim()));
+      const added = getPlaceholders(current.body)
+        .filter(name => !defined.has(name))
+        .map(name => toRow({ name, label: name.replace(/_/g, ' '), type: 'text', required: true }));
+      return { ...current, variables: [...current.variables, ...added] };
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const draft: PromptTemplateDraft = {
+      name: editor.name,
+      description: editor.description,
+      body: editor.body,
+      variables: editor.variables.map(toVariable)
+    };
+
+    setSaving(true);
+    setSaveError(null);
+    setNotice(null);
+    try {
+      const saved = editor.templateId
+        ? await savePromptTemplate(editor.templateId, draft, editor.baseVersion)
+        : await createPromptTemplate(draft);
+      await openTemplate(saved.template_id);
+      setNotice(`Saved as version ${saved.version}`);
+      loadTemplates();
+    } catch (err) {
+      console.error('Error saving template:', err);
+      setSaveError(err instanceof ApiRequestError
+        ? { message: err.message, issues: err.details?.issues as string[] | undefined, conflict: err.code === 'version_conflict' }
+        : { message: 'Could not reach the server. Check your connection and try again.', conflict: false });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleArchive = async () => {
+    if (!editor.templateId || !confirm(`Remove "${editor.name}" from the template library?`)) return;
+
+    if (await archivePromptTemplate(editor.templateId)) {
+      newTemplate();
+      loadTemplates();
+    } else {
+      setSaveError({ message: 'The template could not be archived', conflict: false });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <header className="p-4 flex items-center justify-between border-b bg-white shadow-sm">
+        <h1 className="text-xl font-bold">Prompt Templates</h1>
+        <div className="flex items-center gap-2">
+          <UserMenu />
+          <Link href="/documents" className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-md">
+            My Documents
+          </Link>
+          <Link href="/" className="px-4 py-2 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded-md">
+            New Document
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto p-4 grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {/* Library */}
+        <div className="space-y-2">
+          <button
+            onClick={newTemplate}
+            className="w-full px-4 py-2 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            New template
+          </button>
+          {loadError && <div className="text-red-500">{loadError}</div>}
+          {!templates ? (
+            !loadError && <div>Loading templates...</div>
+          ) : templates.length === 0 ? (
+            <div className="text-gray-500">No templates yet.</div>
+          ) : (
+            <div className="bg-white rounded-lg shadow-sm divide-y">
+              {templates.map(template => (
+                <button
+                  key={template.template_id}
+                  onClick={() => openTemplate(template.template_id)}
+                  className={`w-full text-left p-3 hover:bg-gray-50 ${
+                    editor.templateId === template.template_id ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <div className="font-medium">{template.name}</div>
+                  <div className="text-xs text-gray-500">
+                    Version {template.version} &middot; updated {new Date(template.updated_at).toLocaleString()}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Editor */}
+        <div className="lg:col-span-2 space-y-4">
+          <form onSubmit={handleSave} className="bg-white p-4 rounded-lg shadow-sm space-y-4">
+            <h2 className="text-lg font-semibold">
+              {editor.templateId ? `Edit template (version ${editor.baseVersion})` : 'New template'}
+            </h2>
+            <label className="flex flex-col text-sm">
+              Name
+              <input
+                value={editor.name}
+                onChange={(e) => setEditor({ ...editor, name: e.target.value })}
+                className={INPUT_CLASSES}
+                required
+              />
+            </label>
+            <label className="flex flex-col text-sm">
+              Description (optional)
+              <input
+                value={editor.description}
+                onChange={(e) => setEditor({ ...editor, description: e.target.value })}
+                className={INPUT_CLASSES}
+              />
+            </label>
+            <label className="flex flex-col text-sm">
+              Prompt
+              <textarea
+                value={editor.body}
+                onChange={(e) => setEditor({ ...editor, body: e.target.value })}
+                placeholder="Write a {{document_type}} for {{company}}, effective {{start_date}}..."
+                className={`${INPUT_CLASSES} h-40 resize-y`}
+                required
+              />
+              <span className="mt-1 text-xs text-gray-500">
+                Use {'{{name}}'} for each value the user fills in, and define it below.
+              </span>
+            </label>
+
+            {/* Variables */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="font-medium">Variables</h3>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={addVariablesFromBody}
+                    className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded-md"
+                  >
+                    Add from prompt
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditor({
+                      ...editor,
+                      variables: [...editor.variables, toRow({ name: '', label: '', type: 'text' })]
+                    })}
+                    className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded-md"
+                  >
+                    Add variable
+                  </button>
+                </div>
+              </div>
+              {editor.variables.length === 0 && (
+                <p className="text-sm text-gray-500">No variables: the prompt is used as written.</p>
+              )}
+              {editor.variables.map((row, index) => (
+                <div key={index} className="p-3 border border-gray-200 rounded-lg grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                  <label className="flex flex-col">
+                    Name
+                    <input value={row.name} onChange={(e) => updateVariable(index, { name: e.target.value })} className={INPUT_CLASSES} />
+                  </label>
+                  <label className="flex flex-col">
+                    Label
+                    <input value={row.label} onChange={(e) => updateVariable(index, { label: e.target.value })} className={INPUT_CLASSES} />
+                  </label>
+                  <label className="flex flex-col">
+                    Type
+                    <select
+                      value={row.type}
+                      onChange={(e) => updateVariable(index, { type: e.target.value as TemplateVariableType })}
+                      className={INPUT_CLASSES}
+                    >
+                      {TEMPLATE_VARIABLE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 mt-6">
+                    <input
+                      type="checkbox"
+                      checked={row.required}
+                      onChange={(e) => updateVariable(index, { required: e.target.checked })}
+                    />
+                    Required
+                  </label>
+                  {row.type === 'select' && (
+                    <label className="flex flex-col col-span-2">
+                      Options (comma-separated)
+                      <input value={row.options} onChange={(e) => updateVariable(index, { options: e.target.value })} className={INPUT_CLASSES} />
+                    </label>
+                  )}
+                  {row.type === 'number' && (
+                    <>
+                      <label className="flex flex-col">
+                        Min
+                        <input type="number" value={row.min} onChange={(e) => updateVariable(index, { min: e.target.value })} className={INPUT_CLASSES} />
+                      </label>
+                      <label className="flex flex-col">
+                        Max
+                        <input type="number" value={row.max} onChange={(e) => updateVariable(index, { max: e.target.value })} className={INPUT_CLASSES} />
+                      </label>
+                    </>
+                  )}
+                  <label className="flex flex-col">
+                    Default
+                    <input
+                      type={row.type === 'date' ? 'date' : row.type === 'number' ? 'number' : 'text'}
+                      value={row.defaultValue}
+                      onChange={(e) => updateVariable(index, { defaultValue: e.target.value })}
+                      className={INPUT_CLASSES}
+                    />
+                  </label>
+                  <label className="flex flex-col">
+                    Help text
+                    <input value={row.help} onChange={(e) => updateVariable(index, { help: e.target.value })} className={INPUT_CLASSES} />
+                  </label>
+                  <div className="flex items-end justify-end col-span-2 md:col-span-4">
+                    <button
+                      type="button"
+                      onClick={() => setEditor({ ...editor, variables: editor.variables.filter((_, i) => i !== index) })}
+                      className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded-md"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : editor.templateId ? 'Save new version' : 'Create template'}
+              </button>
+              {canArchive && (
+                <button
+                  type="button"
+                  onClick={handleArchive}
+                  className="px-4 py-2 rounded-lg text-red-600 hover:bg-red-50"
+                >
+                  Archive
+                </button>
+              )}
+              {notice && <span className="text-sm text-green-700">{notice}</span>}
+            </div>
+
+            {saveError && (
+              <div role="alert" className="p-4 rounded-lg border border-red-200 bg-red-50 text-red-700">
+                <p className="font-medium">The template was not saved</p>
+                <p className="mt-1 text-sm">{saveError.message}</p>
+                {saveError.issues && saveError.issues.length > 1 && (
+                  <ul className="mt-2 text-sm list-disc pl-5">
+                    {saveError.issues.map(issue => <li key={issue}>{issue}</li>)}
+                  </ul>
+                )}
+                {saveError.conflict && editor.templateId && (
+                  <button
+                    type="button"
+                    onClick={() => openTemplate(editor.templateId!)}
+                    className="mt-3 px-4 py-2 text-sm rounded-md bg-red-600 hover:bg-red-700 text-white"
+                  >
+                    Load the latest version
+                  </button>
+                )}
+              </div>
+            )}
+          </form>
+
+          {/* History */}
+          {versions.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm divide-y">
+              <h3 className="p-3 font-medium">Version history</h3>
+              {versions.map(version => (
+                <div key={version.version_id} className="flex items-center justify-between gap-4 p-3 text-sm">
+                  <div>
+                    <span className="font-medium">Version {version.version}</span>
+                    <span className="ml-2 text-gray-500">{new Date(version.created_at).toLocaleString()}</span>
+                    <p className="text-xs text-gray-500 truncate">{version.name}</p>
+                  </div>
+                  {version.version !== editor.baseVersion && (
+                    <button
+                      onClick={() => loadVersion(version)}
+                      className="shrink-0 px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded-md"
+                    >
+                      Load
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+"use client";
+
+import { useState } from 'react';
+import {
+  DEFAULT_MARGINS_MM,
+  DEFAULT_PDF_OPTIONS,
+  PAGE_SIZES_MM,
+  PDF_ORIENTATIONS,
+  PDF_PAGE_SIZES,
+  PDF_TEMPLATE_PLACEHOLDERS,
+  PdfLayout,
+  PdfMargins,
+  PdfOptions,
+  PdfOrientation,
+  PdfPageSize,
+  uniformMargins
+} from '@/utils/renderers/pdf-options';
+import { DEFAULT_TOC_DEPTH } from '@/utils/renderers/toc-options';
+
+interface PdfExportDialogProps {
+  initialOptions?: PdfOptions;
+  onCancel: () => void;
+  onExport: (options: PdfOptions) => void;
+}
+
+const INPUT_CLASSES = 'mt-1 p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600';
+
+const MARGIN_SIDES: (keyof PdfMargins)[] = ['top', 'right', 'bottom', 'left'];
+
+/**
+ * Page layout, header and footer choices for a server-side PDF export
+ */
+export default function PdfExportDialog({ initialOptions = DEFAULT_PDF_OPTIONS, onCancel, onExport }: PdfExportDialogProps) {
+  const [options, setOptions] = useState<PdfOptions>(initialOptions);
+
+  const update = (changes: Partial<PdfOptions>) => setOptions(current => ({ ...current, ...changes }));
+
+  // Switching layout moves untouched default margins to the new layout's default
+  const setLayout = (layout: PdfLayout) => {
+    const untouched = MARGIN_SIDES.every(side => options.margins[side] === DEFAULT_MARGINS_MM[options.layout]);
+    update({ layout, margins: untouched ? uniformMargins(DEFAULT_MARGINS_MM[layout]) : options.margins });
+  };
+
+  const setPageSize = (pageSize: PdfPageSize) => {
+    // A custom size starts from the size that was selected
+    const base = options.pageSize === 'custom' ? null : PAGE_SIZES_MM[options.pageSize];
+    update(pageSize === 'custom' && base ? { pageSize, width: base.width, height: base.height } : { pageSize });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const { width, height, skipCover, toc, tocDepth, ...rest } = options;
+    onExport({
+      ...rest,
+      ...(options.pageSize === 'custom' ? { width, height } : {}),
+      // The cover and page numbers only exist on paginated output
+      ...(options.layout === 'paginated' ? { skipCover } : {}),
+      ...(options.layout === 'paginated' && toc ? { toc, tocDepth: tocDepth ?? DEFAULT_TOC_DEPTH } : {})
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 p-4" onClick={onCancel}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md max-h-full overflow-auto bg-white dark:bg-gray-800 rounded-xl shadow-xl p-6 space-y-4 text-sm text-gray-900 dark:text-white"
+      >
+        <h2 className="text-lg font-semibold">Export PDF</h2>
+
+        <fieldset className="space-y-1">
+          <legend className="font-medium">Layout</legend>
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={options.layout === 'paginated'} onChange={() => setLayout('paginated')} />
+            Pages, for printing (honours page breaks)
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={options.layout === 'continuous'} onChange={() => setLayout('continuous')} />
+            One continuous page, for reading on screen
+          </label>
+        </fieldset>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="flex flex-col">
+            Page size
+            <select
+              value={options.pageSize}
+              onChange={(e) => setPageSize(e.target.value as PdfPageSize)}
+              className={INPUT_CLASSES}
+            >
+              {PDF_PAGE_SIZES.map(size => <option key={size} value={size}>{size === 'custom' ? 'Custom' : size}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col">
+            Orientation
+            <select
+              value={options.orientation}
+              onChange={(e) => update({ orientation: e.target.value as PdfOrientation })}
+              className={INPUT_CLASSES}
+            >
+              {PDF_ORIENTATIONS.map(orientation => (
+                <option key={orientation} value={orientation}>{orientation === 'portrait' ? 'Portrait' : 'Landscape'}</option>
+              ))}
+            </select>
+          </label>
+          {options.pageSize === 'custom' && (
+            <>
+              <label className="flex flex-col">
+                Width (mm)
+                <input
+                  type="number"
+                  min={50}
+                  max={2000}
+                  step="0.1"
+                  value={options.width ?? ''}
+                  onChange={(e) => update({ width: Number(e.target.value) })}
+                  className={INPUT_CLASSES}
+                  required
+                />
+              </label>
+              {options.layout === 'paginated' && (
+                <label className="flex flex-col">
+                  Height (mm)
+                  <input
+                    type="number"
+                    min={50}
+                    max={2000}
+                    step="0.1"
+                    value={options.height ?? ''}
+                    onChange={(e) => update({ height: Number(e.target.value) })}
+                    className={INPUT_CLASSES}
+                    required
+                  />
+                </label>
+              )}
+            </>
+          )}
+        </div>
+
+        <fieldset>
+          <legend className="font-medium">Margins (mm)</legend>
+          <div className="grid grid-cols-4 gap-2">
+            {MARGIN_SIDES.map(side => (
+              <label key={side} className="flex flex-col capitalize">
+                {side}
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.5"
+                  value={options.margins[side]}
+                  onChange={(e) => update({ margins: { ...options.margins, [side]: Number(e.target.value) } })}
+                  className={INPUT_CLASSES}
+                  required
+                />
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        {options.layout === 'paginated' && (
+          <fieldset className="space-y-2">
+            <legend className="font-medium">Contents</legend>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={!!options.toc}
+                onChange={(e) => update({ toc: e.target.checked })}
+              />
+              Table of contents page with page numbers
+            </label>
+            {options.toc && (
+              <label className="flex flex-col">
+                Headings listed
+                <select
+                  value={options.tocDepth ?? DEFAULT_TOC_DEPTH}
+                  onChange={(e) => update({ tocDepth: Number(e.target.value) })}
+                  className={INPUT_CLASSES}
+                >
+                  {[1, 2, 3, 4, 5, 6].map(depth => (
+                    <option key={depth} value={depth}>{depth === 1 ? 'h1 only' : `h1 to h${depth}`}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <p className="text-xs text-gray-500 dark:text-gray-400">Headings always become the PDF&apos;s bookmarks.</p>
+          </fieldset>
+        )}
+
+        <fieldset className="space-y-2">
+          <legend className="font-medium">Header and footer</legend>
+          <label className="flex flex-col">
+            Header
+            <textarea
+              value={options.header || ''}
+              onChange={(e) => update({ header: e.target.value })}
+              placeholder='<div style="text-align: right">{{title}}</div>'
+              className={`${INPUT_CLASSES} h-16 font-mono text-xs`}
+            />
+          </label>
+          <label className="flex flex-col">
+            Footer
+            <textarea
+              value={options.footer || ''}
+              onChange={(e) => update({ footer: e.target.value })}
+              placeholder='<div style="text-align: center">Page {{page}} of {{pages}}</div>'
+              className={`${INPUT_CLASSES} h-16 font-mono text-xs`}
+            />
+          </label>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            HTML with {PDF_TEMPLATE_PLACEHOLDERS.map(name => `{{${name}}}`).join(', ')}.
+            Images must be embedded as data: URLs. They are drawn in the margins, which need at least 10mm.
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col">
+              Title
+              <input
+                value={options.title || ''}
+                onChange={(e) => update({ title: e.target.value })}
+                placeholder="From the document"
+                className={INPUT_CLASSES}
+              />
+            </label>
+            <label className="flex flex-col">
+              Document ID
+              <input
+                value={options.documentId || ''}
+                onChange={(e) => update({ documentId: e.target.value })}
+                className={INPUT_CLASSES}
+              />
+            </label>
+          </div>
+          {options.layout === 'paginated' && (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={!!options.skipCover}
+                onChange={(e) => update({ skipCover: e.target.checked })}
+              />
+              No header and footer on the cover page
+            </label>
+          )}
+        </fieldset>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 rounded-md bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button type="submit" className="px-4 py-2 rounded-md bg-red-600 hover:bg-red-700 text-white">
+            Export
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import type { PromptTemplate } from '@/utils/job-store';
+import type { TemplateValues, TemplateVariable } from '@/utils/prompt-templates/variables';
+
+interface TemplateFormProps {
+  template: PromptTemplate;
+  values: TemplateValues;
+  onChange: (values: TemplateValues) => void;
+  // renderPromptTemplate() of the current values
+  rendered: { prompt: string; errors: Record<string, string> };
+}
+
+const INPUT_CLASSES = 'mt-1 p-2 border rounded-lg focus:ring-2 focus:ring-blue-400 focus:border-blue-400 dark:bg-gray-700 dark:border-gray-600';
+
+/**
+ * One field per template variable, with a preview of the prompt that will be submitted
+ */
+export default function TemplateForm({ template, values, onChange, rendered }: TemplateFormProps) {
+  const setValue = (name: string, value: string) => onChange({ ...values, [name]: value });
+
+  return (
+    <div className="space-y-4">
+      {template.description && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">{template.description}</p>
+      )}
+
+      {template.variables.map(variable => (
+        <label key={variable.name} className="flex flex-col text-sm">
+          <span>
+            {variable.label}
+            {variable.required && <span className="text-red-600"> *</span>}
+          </span>
+          <VariableInput variable={variable} value={values[variable.name] ?? ''} onChange={value => setValue(variable.name, value)} />
+          {variable.help && <span className="mt-1 text-xs text-gray-500">{variable.help}</span>}
+          {rendered.errors[variable.name] && (
+            <span className="mt-1 text-xs text-red-600">{rendered.errors[variable.name]}</span>
+          )}
+        </label>
+      ))}
+
+      <div>
+        <p className="text-sm font-medium">Prompt preview</p>
+        <pre className="mt-1 p-3 max-h-48 overflow-auto whitespace-pre-wrap text-sm bg-gray-50 dark:bg-gray-700 border rounded-lg dark:border-gray-600">
+          {rendered.prompt}
+        </pre>
+      </div>
+    </div>
+  );
+}
+
+function VariableInput({ variable, value, onChange }: {
+  variable: TemplateVariable;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  switch (variable.type) {
+    case 'select':
+      return (
+        <select value={value} onChange={(e) => onChange(e.target.value)} className={INPUT_CLASSES}>
+          <option value="">{variable.required ? 'Choose...' : '(none)'}</option>
+          {variable.options?.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+      );
+    case 'number':
+      return (
+        <input
+          type="number"
+          value={value}
+          min={variable.min}
+          max={variable.max}
+          onChange={(e) => onChange(e.target.value)}
+          className={INPUT_CLASSES}
+        />
+      );
+    case 'date':
+      return <input type="date" value={value} onChange={(e) => onChange(e.target.value)} className={INPUT_CLASSES} />;
+    default:
+      return <input type="text" value={value} onChange={(e) => onChange(e.target.value)} className={INPUT_CLASSES} />;
+  }
+}
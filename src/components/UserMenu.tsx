@@ -0,0 +1,36 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+
+/**
+ * Signed-in user's email with a sign-out button, for page headers
+ */
+export default function UserMenu() {
+  const [email, setEmail] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(response => response.json())
+      .then(data => setEmail(data.user?.email || null))
+      .catch(err => console.error('Error loading session:', err));
+  }, []);
+
+  const signOut = async () => {
+    await fetch('/api/auth/sign-out', { method: 'POST' });
+    window.location.href = '/sign-in';
+  };
+
+  if (!email) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="text-gray-600 dark:text-gray-300">{email}</span>
+      <button
+        onClick={signOut}
+        className="px-3 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 rounded-md transition-colors"
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
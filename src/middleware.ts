@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Kept in sync with SESSION_COOKIE in src/utils/auth/session.ts (middleware cannot import Node's crypto)
+const SESSION_COOKIE = 'handbook_session';
+
+/**
+ * Send signed-out visitors to the sign-in page.
+ * This only checks that a session cookie exists; API routes verify its signature.
+ */
+export function middleware(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+
+  const signInUrl = new URL('/sign-in', request.url);
+  signInUrl.searchParams.set('next', request.nextUrl.pathname + request.nextUrl.search);
+  return NextResponse.redirect(signInUrl);
+}
+
+export const config = {
+  // Pages only: API routes answer 401 themselves, and the sign-in page and share links must stay reachable
+  matcher: ['/((?!api|_next|sign-in|share/|favicon.ico|.*\\..*).*)']
+};
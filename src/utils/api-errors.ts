@@ -0,0 +1,134 @@
+import { GeneratorError } from '@/utils/generators/errors';
+import type { GeneratorErrorCode } from '@/utils/generators/errors';
+
+/**
+ * Machine-readable error codes, sent as `code` in API error responses and
+ * stored as `error_code` on failed jobs
+ */
+export type ErrorCode =
+  | 'validation_error'
+  | 'unauthorized'
+  | 'confirmation_required'
+  | 'not_found'
+  | 'idempotency_conflict'
+  | 'version_conflict'
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | GeneratorErrorCode
+  | 'job_stalled'
+  | 'renderer_busy'
+  | 'render_timeout'
+  | 'renderer_unavailable'
+  | 'storage_error'
+  | 'internal_error';
+
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  validation_error: 400,
+  unauthorized: 401,
+  confirmation_required: 202,
+  not_found: 404,
+  idempotency_conflict: 409,
+  version_conflict: 409,
+  rate_limited: 429,
+  quota_exceeded: 429,
+  generator_timeout: 504,
+  generator_unavailable: 502,
+  generator_bad_response: 502,
+  job_stalled: 500,
+  renderer_busy: 503,
+  render_timeout: 504,
+  renderer_unavailable: 503,
+  storage_error: 503,
+  internal_error: 500
+};
+
+// Sending the same request again right away gets the same answer
+const PERMANENT_CODES: ErrorCode[] = [
+  'validation_error', 'unauthorized', 'confirmation_required', 'not_found', 'idempotency_conflict', 'version_conflict', 'quota_exceeded',
+  'renderer_unavailable'
+];
+
+/**
+ * An error with a code and HTTP status that is safe to show to the client.
+ * `details` are merged into the response body.
+ */
+export class ApiError extends Error {
+  readonly code: ErrorCode;
+  readonly status: number;
+  readonly details?: Record<string, unknown>;
+
+  constructor(code: ErrorCode, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = ERROR_STATUS[code];
+    this.details = details;
+  }
+}
+
+/**
+ * The request body, query or headers are missing something or malformed
+ */
+export class ValidationError extends ApiError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('validation_error', message, details);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * The job store could not read or write a record
+ */
+export class StorageError extends ApiError {
+  constructor(message: string = 'Could not save your request, please try again') {
+    super('storage_error', message);
+    this.name = 'StorageError';
+  }
+}
+
+/**
+ * The caller hit a rate limit or used up their quota; `retryAfterSeconds` becomes the Retry-After header
+ */
+export class RateLimitError extends ApiError {
+  readonly retryAfterSeconds: number;
+
+  constructor(
+    code: 'rate_limited' | 'quota_exceeded',
+    message: string,
+    retryAfterSeconds: number,
+    details?: Record<string, unknown>
+  ) {
+    super(code, message, { ...details, retryAfterSeconds });
+    this.name = 'RateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Classify any thrown value; errors without a code of their own are internal errors
+ */
+export function getErrorCode(error: unknown): ErrorCode {
+  if (error instanceof ApiError || error instanceof GeneratorError) {
+    return error.code;
+  }
+
+  return 'internal_error';
+}
+
+/**
+ * Message to show the client. Unexpected errors may carry internals (SQL, stack details), so they get a generic one.
+ */
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof ApiError || error instanceof GeneratorError) {
+    return error.message;
+  }
+
+  return 'Something went wrong while processing your request';
+}
+
+/**
+ * Whether trying the same request again may succeed
+ */
+export function isRetryableErrorCode(code: ErrorCode | null | undefined): boolean {
+  return !!code && !PERMANENT_CODES.includes(code);
+}
@@ -0,0 +1,12 @@
+import { ApiError } from '@/utils/api-errors';
+
+/**
+ * Sign-in or sign-up rejected by the auth provider. The auth routes answer with its code,
+ * which is `unauthorized` unless the provider says otherwise.
+ */
+export class AuthError extends ApiError {
+  constructor(message: string, code: 'unauthorized' | 'validation_error' | 'confirmation_required' = 'unauthorized') {
+    super(code, message);
+    this.name = 'AuthError';
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSupabaseConfigured } from '@/utils/supabase';
+import { createLocalAuthProvider } from './local-provider';
+import { createSupabaseAuthProvider } from './supabase-provider';
+import { getCurrentUser } from './session';
+import type { AuthProvider, AuthUser } from './types';
+
+export { AuthError } from './errors';
+export {
+  clearSessionCookie,
+  createSessionToken,
+  getCurrentUser,
+  readSessionToken,
+  SESSION_COOKIE,
+  setSessionCookie
+} from './session';
+export type { AuthProvider, AuthUser } from './types';
+export { createLocalAuthProvider, createSupabaseAuthProvider };
+
+export type AuthProviderKind = 'supabase' | 'local';
+
+let cachedProvider: AuthProvider | null = null;
+
+/**
+ * Resolve the provider selected by AUTH_PROVIDER (supabase or local).
+ * Defaults to Supabase Auth when Supabase is configured, otherwise to the local stand-in.
+ */
+export function getAuthProvider(): AuthProvider {
+  if (!cachedProvider) {
+    const kind = (process.env.AUTH_PROVIDER || (isSupabaseConfigured() ? 'supabase' : 'local')) as AuthProviderKind;
+    cachedProvider = createAuthProvider(kind);
+  }
+
+  return cachedProvider;
+}
+
+export function createAuthProvider(kind: AuthProviderKind): AuthProvider {
+  switch (kind) {
+    case 'supabase':
+      return createSupabaseAuthProvider();
+    case 'local':
+      return createLocalAuthProvider();
+    default:
+      throw new Error(`Unknown AUTH_PROVIDER "${kind}" (expected supabase or local)`);
+  }
+}
+
+/**
+ * The signed-in user, or a 401 response to return from the route handler
+ */
+export function requireUser(request: NextRequest): AuthUser | NextResponse {
+  const user = getCurrentUser(request);
+
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required', code: 'unauthorized', status: 'unauthorized' }, { status: 401 });
+  }
+
+  return user;
+}
+
+const EMAIL_PATTERN = /^[^\s@,"'(){}]+@[^\s@,"'(){}]+\.[^\s@,"'(){}]+$/;
+
+/**
+ * Lower-cased email, or null if it is not a plausible address.
+ * Emails end up in share lists and query filters, so quotes, commas and brackets are rejected.
+ */
+export function normalizeEmail(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+
+  const email = value.trim().toLowerCase();
+  return email.length <= 254 && EMAIL_PATTERN.test(email) ? email : null;
+}
@@ -0,0 +1,43 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { AuthError } from './errors';
+import type { AuthProvider, AuthUser } from './types';
+
+/**
+ * Stand-in for Supabase Auth in local development.
+ * Any email signs in; when AUTH_LOCAL_PASSWORD is set, every account must use that password.
+ * The user ID is derived from the email, so the same email always owns the same documents.
+ * In production the password is required, or anyone could sign in as anyone.
+ */
+export function createLocalAuthProvider(sharedPassword: string = process.env.AUTH_LOCAL_PASSWORD || ''): AuthProvider {
+  if (!sharedPassword && process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_LOCAL_PASSWORD must be set to use local sign-in in production, or configure Supabase Auth');
+  }
+
+  const signIn = async (email: string, password: string): Promise<AuthUser> => {
+    if (sharedPassword && !passwordsMatch(password, sharedPassword)) {
+      throw new AuthError('Invalid email or password');
+    }
+
+    return { id: getLocalUserId(email), email };
+  };
+
+  return {
+    name: 'local',
+    canSignUp: false,
+    signIn,
+    // Accounts need no registration; signing in creates them
+    signUp: signIn
+  };
+}
+
+function passwordsMatch(password: string, expected: string): boolean {
+  const a = createHash('sha256').update(password).digest();
+  const b = createHash('sha256').update(expected).digest();
+  return timingSafeEqual(a, b);
+}
+
+// UUID-shaped, so it fits the owner_id column of the Supabase schema too
+function getLocalUserId(email: string): string {
+  const hex = createHash('sha256').update(`local-user:${email}`).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
@@ -0,0 +1,81 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import type { AuthUser } from './types';
+
+export const SESSION_COOKIE = 'handbook_session';
+
+const SESSION_TTL_MS = Number(process.env.AUTH_SESSION_TTL_HOURS || 7 * 24) * 60 * 60 * 1000;
+const DEV_SECRET = 'smart-handbook-dev-secret';
+
+let warnedAboutSecret = false;
+
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_SECRET must be set in production');
+  }
+
+  if (!warnedAboutSecret) {
+    warnedAboutSecret = true;
+    console.warn('AUTH_SECRET is not set, signing sessions with a development secret');
+  }
+  return DEV_SECRET;
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', getSecret()).update(value).digest('base64url');
+}
+
+/**
+ * Session token: base64url JSON of the user and expiry, followed by an HMAC signature
+ */
+export function createSessionToken(user: AuthUser, now: number = Date.now()): string {
+  const payload = Buffer.from(JSON.stringify({ ...user, exp: now + SESSION_TTL_MS })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * The user in a session token, or null if it is forged, malformed or expired
+ */
+export function readSessionToken(token: string | undefined): AuthUser | null {
+  if (!token) return null;
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const { id, email, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof id !== 'string' || typeof email !== 'string' || typeof exp !== 'number' || exp < Date.now()) {
+      return null;
+    }
+    return { id, email };
+  } catch {
+    return null;
+  }
+}
+
+export function getCurrentUser(request: NextRequest): AuthUser | null {
+  return readSessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+}
+
+export function setSessionCookie(response: NextResponse, user: AuthUser) {
+  response.cookies.set(SESSION_COOKIE, createSessionToken(user), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: Math.floor(SESSION_TTL_MS / 1000)
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', { path: '/', maxAge: 0 });
+}
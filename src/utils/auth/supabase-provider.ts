@@ -0,0 +1,45 @@
+import { createClient } from '@supabase/supabase-js';
+import { AuthError } from './errors';
+import type { AuthProvider, AuthUser } from './types';
+
+/**
+ * Email/password accounts in Supabase Auth.
+ * Uses its own anon client, so signing in never changes the session of the shared database client.
+ */
+export function createSupabaseAuthProvider(): AuthProvider {
+  const auth = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '',
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  ).auth;
+
+  return {
+    name: 'supabase',
+    canSignUp: true,
+
+    async signIn(email: string, password: string): Promise<AuthUser> {
+      const { data, error } = await auth.signInWithPassword({ email, password });
+
+      if (error || !data.user) {
+        throw new AuthError(error?.message || 'Invalid email or password');
+      }
+
+      return { id: data.user.id, email: data.user.email || email };
+    },
+
+    async signUp(email: string, password: string): Promise<AuthUser> {
+      const { data, error } = await auth.signUp({ email, password });
+
+      if (error || !data.user) {
+        throw new AuthError(error?.message || 'Could not create the account', 'validation_error');
+      }
+
+      // With email confirmation enabled Supabase returns no session until the link is clicked
+      if (!data.session) {
+        throw new AuthError('Check your email to confirm your account, then sign in', 'confirmation_required');
+      }
+
+      return { id: data.user.id, email: data.user.email || email };
+    }
+  };
+}
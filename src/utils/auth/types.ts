@@ -0,0 +1,20 @@
+// The signed-in user, as carried in the session cookie
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+/**
+ * Verifies credentials. Sessions are handled by the app (see session.ts),
+ * so a provider only has to say who the user is.
+ */
+export interface AuthProvider {
+  readonly name: string;
+
+  // Whether users can create accounts through the sign-in page
+  readonly canSignUp: boolean;
+
+  signIn(email: string, password: string): Promise<AuthUser>;
+
+  signUp(email: string, password: string): Promise<AuthUser>;
+}
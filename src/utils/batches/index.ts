@@ -0,0 +1,176 @@
+import JSZip from 'jszip';
+import { getJobStore, DocumentBatch, DocumentJobStatus, DocumentSummary } from '@/utils/job-store';
+import { enqueueDocumentJob } from '@/utils/job-queue';
+import { renderDocx, renderPdf, DEFAULT_PDF_OPTIONS, ExportFormat } from '@/utils/renderers';
+import { ApiError, ErrorCode, ValidationError } from '@/utils/api-errors';
+import { buildBatchItems, parseBatchFile, BatchFileFormat, BatchItem } from './parse';
+
+export { buildBatchItems, parseBatchFile } from './parse';
+export type { BatchFileFormat, BatchItem, BatchRow } from './parse';
+
+// Batch limits, overridable through the environment
+export const MAX_BATCH_ROWS = Number(process.env.BATCH_MAX_ROWS || 100);
+export const MAX_BATCH_FILE_BYTES = Number(process.env.BATCH_MAX_FILE_BYTES || 1024 * 1024);
+// Documents per ZIP download, so one request renders few enough PDFs to finish before proxies time out
+export const BATCH_ZIP_PART_SIZE = Math.max(Number(process.env.BATCH_ZIP_PART_SIZE || 20), 1);
+
+// Renderer failures that are not about the document: the whole download fails and can be retried
+const RENDERER_ERROR_CODES: ErrorCode[] = ['renderer_busy', 'render_timeout', 'renderer_unavailable'];
+
+export interface BatchProgress {
+  batch: DocumentBatch;
+  counts: Record<DocumentJobStatus, number>;
+  // Every document has completed, failed or been cancelled
+  finished: boolean;
+  // The batch's documents in submission order
+  documents: DocumentSummary[];
+  // Documents per ZIP download; larger batches are downloaded in parts
+  zipPartSize: number;
+}
+
+/**
+ * Check an uploaded file (and optional shared template) and turn it into one prompt per row.
+ * Throws ValidationError when the file is too large, empty or has rows that cannot become a prompt.
+ */
+export function readBatchUpload(content: string, format: BatchFileFormat, template?: string | null): BatchItem[] {
+  if (Buffer.byteLength(content) > MAX_BATCH_FILE_BYTES) {
+    throw new ValidationError(`The file is larger than ${Math.round(MAX_BATCH_FILE_BYTES / 1024)} KB`);
+  }
+
+  const items = buildBatchItems(parseBatchFile(content, format), template);
+
+  if (items.length === 0) {
+    throw new ValidationError('The file has no prompts');
+  }
+
+  if (items.length > MAX_BATCH_ROWS) {
+    throw new ValidationError(`At most ${MAX_BATCH_ROWS} prompts per batch, the file has ${items.length}`);
+  }
+
+  return items;
+}
+
+/**
+ * Record a batch and queue one document job per item.
+ * Resolves to null when the batch could not be saved; `queued` may be less than the items when single jobs were not.
+ */
+export async function createDocumentBatch(
+  ownerId: string,
+  name: string,
+  items: BatchItem[],
+  template?: string | null
+): Promise<{ batch: DocumentBatch; queued: number } | null> {
+  const batch = await getJobStore().createBatch({
+    owner_id: ownerId,
+    name,
+    template: template?.trim() || null,
+    total: items.length
+  });
+
+  if (!batch) {
+    return null;
+  }
+
+  // One after another, so the documents are created (and listed) in the order of the file
+  let queued = 0;
+  for (const item of items) {
+    const { job } = await enqueueDocumentJob(
+      item.title ? { prompt: item.prompt, title: item.title } : { prompt: item.prompt },
+      { ownerId, batchId: batch.batch_id }
+    );
+    if (job) queued++;
+  }
+
+  return { batch, queued };
+}
+
+/**
+ * Status counts and documents of a batch. Documents deleted since the upload are no longer counted.
+ */
+export async function getBatchProgress(batch: DocumentBatch): Promise<BatchProgress> {
+  const { documents } = await getJobStore().listDocuments({
+    batchId: batch.batch_id,
+    sortBy: 'created_at',
+    ascending: true,
+    limit: Math.max(batch.total, 1)
+  });
+
+  const counts: Record<DocumentJobStatus, number> = { pending: 0, processing: 0, completed: 0, failed: 0, cancelled: 0 };
+  documents.forEach(document => counts[document.status]++);
+
+  return {
+    batch,
+    counts,
+    finished: counts.pending === 0 && counts.processing === 0,
+    documents,
+    zipPartSize: BATCH_ZIP_PART_SIZE
+  };
+}
+
+/**
+ * A ZIP of one part of the batch's completed documents as PDF or DOCX files: BATCH_ZIP_PART_SIZE documents
+ * in batch order, `part` counting from 1. Documents in the part that are not completed or could not be
+ * rendered are listed in `skipped.txt`. Throws ValidationError for a part past the end, and the renderer's
+ * error when the renderer itself is busy, timed out or unavailable.
+ */
+export async function buildBatchZip(batch: DocumentBatch, format: ExportFormat, part: number = 1): Promise<ArrayBuffer> {
+  const { documents } = await getBatchProgress(batch);
+  const parts = Math.max(Math.ceil(documents.length / BATCH_ZIP_PART_SIZE), 1);
+  if (part > parts) {
+    throw new ValidationError(`part must be from 1 to ${parts}`, { field: 'part' });
+  }
+
+  const first = (part - 1) * BATCH_ZIP_PART_SIZE;
+  const zip = new JSZip();
+  const skipped: string[] = [];
+
+  // Rendered one at a time, so a batch takes a single browser of the pool
+  for (const [offset, summary] of documents.slice(first, first + BATCH_ZIP_PART_SIZE).entries()) {
+    const index = first + offset;
+    const job = summary.status === 'completed' ? await getJobStore().getJob(summary.job_id) : null;
+    const label = `${index + 1}. ${summary.prompt.slice(0, 80)}`;
+
+    if (!job?.html) {
+      skipped.push(`${label} (${summary.status})`);
+      continue;
+    }
+
+    try {
+      const context = `batch ${batch.batch_id} document ${job.job_id}`;
+      const file = format === 'pdf' ? await renderPdf(job.html, DEFAULT_PDF_OPTIONS, context) : await renderDocx(job.html, context);
+      // A title from the file names the document; otherwise the generator's title, then the prompt
+      const title = (typeof job.payload?.title === 'string' ? job.payload.title : '') || job.result?.title || job.prompt;
+      // Numbered in batch order, which also keeps documents with the same title apart
+      zip.file(`${String(index + 1).padStart(3, '0')}-${slugify(title)}.${format}`, file);
+    } catch (error) {
+      if (error instanceof ApiError && RENDERER_ERROR_CODES.includes(error.code)) {
+        throw error;
+      }
+      console.error(`Error rendering ${job.job_id} for batch ${batch.batch_id}:`, error);
+      skipped.push(`${label} (could not be rendered)`);
+    }
+  }
+
+  if (skipped.length > 0) {
+    zip.file('skipped.txt', `These documents are not in the download:\n\n${skipped.join('\n')}\n`);
+  }
+
+  return zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+}
+
+/**
+ * File name for a part of the batch's ZIP download; the part is only named when the batch has several
+ */
+export function getBatchZipName(batch: DocumentBatch, format: ExportFormat, part: number = 1): string {
+  const suffix = batch.total > BATCH_ZIP_PART_SIZE ? `-part${part}` : '';
+  return `${slugify(batch.name.replace(/\.(csv|json)$/i, ''))}-${format}${suffix}.zip`;
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '') || 'document';
+}
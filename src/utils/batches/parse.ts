@@ -0,0 +1,178 @@
+import { ValidationError } from '@/utils/api-errors';
+import { fillPlaceholders, getPlaceholders } from '@/utils/prompt-templates/placeholders';
+
+export type BatchFileFormat = 'csv' | 'json';
+
+// One row of an uploaded file, keyed by lower-cased column name
+export type BatchRow = Record<string, string>;
+
+// What one row becomes: the prompt of a document job
+export interface BatchItem {
+  prompt: string;
+  // From a `title` column; names the file in ZIP downloads
+  title?: string;
+}
+
+// Problems reported back to the user at most; the file is rejected either way
+const MAX_REPORTED_ISSUES = 20;
+
+/**
+ * Read the rows of an uploaded CSV (with a header line) or JSON file
+ * (an array of prompt strings or of objects with string or number values).
+ * Throws ValidationError when the file cannot be read.
+ */
+export function parseBatchFile(content: string, format: BatchFileFormat): BatchRow[] {
+  // Spreadsheet exports often start with a byte order mark
+  const text = content.replace(/^\uFEFF/, '');
+  return format === 'json' ? parseJsonRows(text) : parseCsvRows(text);
+}
+
+/**
+ * Turn rows into prompts. With a template, `{{column}}` placeholders are filled from each row,
+ * and a template without placeholders is put in front of each row's prompt.
+ * Throws ValidationError listing the rows that cannot become a prompt.
+ */
+export function buildBatchItems(rows: BatchRow[], template?: string | null): BatchItem[] {
+  const issues: string[] = [];
+  const shared = template?.trim() || null;
+  const usesPlaceholders = !!shared && getPlaceholders(shared).length > 0;
+
+  const items = rows.map((row, index) => {
+    const label = `Row ${index + 1}`;
+    let prompt: string;
+
+    if (usesPlaceholders) {
+      const filled = fillPlaceholders(shared!, row);
+      if (filled.missing.length > 0) {
+        issues.push(`${label}: no value for ${filled.missing.map(name => `{{${name}}}`).join(', ')}`);
+      }
+      prompt = filled.text;
+    } else {
+      const rowPrompt = row.prompt?.trim();
+      if (!rowPrompt) {
+        issues.push(`${label}: prompt is empty`);
+      }
+      prompt = shared ? `${shared}\n\n${rowPrompt ?? ''}` : rowPrompt ?? '';
+    }
+
+    const title = row.title?.trim();
+    return title ? { prompt, title } : { prompt };
+  });
+
+  if (issues.length > 0) {
+    throw new ValidationError(describeIssues(issues), { issues: issues.slice(0, MAX_REPORTED_ISSUES) });
+  }
+
+  return items;
+}
+
+function parseJsonRows(text: string): BatchRow[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new ValidationError(`The file is not valid JSON: ${e instanceof Error ? e.message : 'parse error'}`);
+  }
+
+  if (!Array.isArray(data)) {
+    throw new ValidationError('A JSON file must contain an array of prompts or of objects');
+  }
+
+  const issues: string[] = [];
+  const rows = data.map((entry, index) => {
+    if (typeof entry === 'string') {
+      return { prompt: entry };
+    }
+
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      issues.push(`Row ${index + 1}: must be a string or an object`);
+      return {};
+    }
+
+    const row: BatchRow = {};
+    for (const [key, value] of Object.entries(entry)) {
+      if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        row[key.trim().toLowerCase()] = String(value);
+      } else if (value !== null && value !== undefined) {
+        issues.push(`Row ${index + 1}: ${key} must be a string or number`);
+      }
+    }
+    return row;
+  });
+
+  if (issues.length > 0) {
+    throw new ValidationError(describeIssues(issues), { issues: issues.slice(0, MAX_REPORTED_ISSUES) });
+  }
+
+  return rows;
+}
+
+function parseCsvRows(text: string): BatchRow[] {
+  const records = parseCsv(text).filter(record => record.some(cell => cell.trim()));
+
+  if (records.length === 0) {
+    throw new ValidationError('The CSV file is empty');
+  }
+
+  const header = records[0].map(name => name.trim().toLowerCase());
+  if (header.some(name => !name)) {
+    throw new ValidationError('Every column in the CSV header line needs a name');
+  }
+
+  return records.slice(1).map(record => Object.fromEntries(
+    header.map((name, column) => [name, record[column] ?? ''])
+  ));
+}
+
+/**
+ * RFC 4180 CSV: comma-separated, fields may be quoted, `""` inside quotes is a quote, CRLF or LF line ends
+ */
+function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationError('The CSV file has a quoted field that is never closed');
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
+
+function describeIssues(issues: string[]): string {
+  return issues.length === 1 ? issues[0] : `The file has ${issues.length} problems, starting with: ${issues[0]}`;
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { getJobStore, DocumentJob } from '@/utils/job-store';
+import type { AuthUser } from '@/utils/auth';
+
+/**
+ * What a user may do with a document:
+ * - `read`  view the document, its history and chat
+ * - `write` also chat, restore revisions, re-run and cancel jobs
+ * - `owner` also delete, pin and share it
+ */
+export type AccessLevel = 'read' | 'write' | 'owner';
+
+const LEVEL_RANK: Record<AccessLevel, number> = { read: 1, write: 2, owner: 3 };
+
+/**
+ * Access a user has to a document (the job that owns it, not a chat job).
+ * Jobs without an owner predate accounts and are not accessible to anyone.
+ */
+export function getAccessLevel(document: DocumentJob, user: AuthUser): AccessLevel | null {
+  if (document.owner_id && document.owner_id === user.id) {
+    return 'owner';
+  }
+
+  if (document.shared_with?.includes(user.email.toLowerCase())) {
+    return 'write';
+  }
+
+  return null;
+}
+
+export function hasAccess(level: AccessLevel | null, required: AccessLevel): boolean {
+  return !!level && LEVEL_RANK[level] >= LEVEL_RANK[required];
+}
+
+/**
+ * Load a job if the user has the required access to its document.
+ * Chat jobs are checked against the document they belong to.
+ * Resolves to null both for missing jobs and for jobs the user may not see,
+ * so job IDs of other users cannot be probed.
+ */
+export async function getJobForUser(
+  jobId: string,
+  user: AuthUser,
+  required: AccessLevel = 'read'
+): Promise<{ job: DocumentJob; document: DocumentJob; access: AccessLevel } | null> {
+  const store = getJobStore();
+  const job = await store.getJob(jobId);
+  if (!job) return null;
+
+  const document = job.document_id ? await store.getJob(job.document_id) : job;
+  if (!document) return null;
+
+  const access = getAccessLevel(document, user);
+  if (!access || !hasAccess(access, required)) return null;
+
+  return { job, document, access };
+}
+
+/**
+ * 404 for documents that do not exist or that the user may not access
+ */
+export function documentNotFound(label: string = 'Document') {
+  return NextResponse.json({ error: `${label} not found`, code: 'not_found', status: 'not_found' }, { status: 404 });
+}
@@ -0,0 +1,61 @@
+import { getJobStore, DocumentJob, DocumentMessage } from '@/utils/job-store';
+import { getDocumentId } from '@/utils/document-revisions';
+import { describeJobOutcome } from '@/utils/job-status';
+
+/**
+ * Save the prompt of a newly submitted job as the user's chat message
+ */
+export async function recordUserMessage(job: DocumentJob): Promise<DocumentMessage | null> {
+  return getJobStore().addMessage({
+    document_id: getDocumentId(job),
+    role: 'user',
+    content: job.prompt,
+    job_id: job.job_id
+  });
+}
+
+/**
+ * Save the assistant's reply for a job that finished
+ */
+export async function recordJobOutcome(
+  job: DocumentJob,
+  status: DocumentJob['status'],
+  error?: string | null
+): Promise<DocumentMessage | null> {
+  return getJobStore().addMessage({
+    document_id: getDocumentId(job),
+    role: 'assistant',
+    content: describeJobOutcome(status, error),
+    job_id: job.job_id,
+    error: status === 'failed' ? error || 'Unknown error' : null
+  });
+}
+
+/**
+ * Save an assistant message that is not tied to a job
+ */
+export async function recordAssistantMessage(documentId: string, content: string): Promise<DocumentMessage | null> {
+  return getJobStore().addMessage({
+    document_id: documentId,
+    role: 'assistant',
+    content
+  });
+}
+
+/**
+ * Markdown transcript of a document's chat, for exporting next to the document
+ */
+export function formatTranscript(documentId: string, messages: DocumentMessage[]): string {
+  const lines = [`# Chat for document ${documentId}`, ''];
+
+  for (const message of messages) {
+    const author = message.role === 'user' ? 'You' : 'Assistant';
+    lines.push(`## ${author} - ${message.created_at}`);
+    if (message.job_id) {
+      lines.push(`_Job ${message.job_id}_`);
+    }
+    lines.push('', message.content, '');
+  }
+
+  return lines.join('\n');
+}
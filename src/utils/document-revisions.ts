@@ -0,0 +1,115 @@
+import { getJobStore, DocumentJob, DocumentRevision } from '@/utils/job-store';
+import type { GeneratedDocument } from '@/utils/generators';
+import { sanitizeHtml, SanitizeReport } from '@/utils/html-sanitizer';
+import { StorageError } from '@/utils/api-errors';
+
+/**
+ * The job that owns a document: chat edits point at it through document_id
+ */
+export function getDocumentId(job: DocumentJob): string {
+  return job.document_id || job.job_id;
+}
+
+/**
+ * Save the output of a finished job as the document's next revision. Making it current is up to the
+ * caller, which has to do that under the job's own status check. Throws a StorageError when the
+ * revision was not saved.
+ */
+export async function recordGeneratedRevision(
+  job: DocumentJob,
+  generated: GeneratedDocument
+): Promise<DocumentRevision> {
+  const documentId = getDocumentId(job);
+  const store = getJobStore();
+
+  // Chat edits name the revision they were made from; otherwise build on the current one
+  const requestedParent = job.payload?.parentRevisionId;
+  const parentRevisionId = typeof requestedParent === 'string'
+    ? requestedParent
+    : (await store.getJob(documentId))?.current_revision_id ?? null;
+
+  const revision = await store.createRevision({
+    document_id: documentId,
+    parent_revision_id: parentRevisionId,
+    job_id: job.job_id,
+    prompt: job.prompt,
+    html: generated.html,
+    source: 'generated'
+  });
+
+  if (!revision) {
+    throw new StorageError('Could not save the generated revision');
+  }
+
+  return revision;
+}
+
+/**
+ * Make an earlier revision current again.
+ * The restore is saved as a new revision, so the history keeps every version.
+ */
+export async function restoreRevision(
+  documentId: string,
+  revisionId: string
+): Promise<DocumentRevision | null> {
+  const store = getJobStore();
+  const [document, source] = await Promise.all([
+    store.getJob(documentId),
+    store.getRevision(revisionId)
+  ]);
+
+  if (!document || !source || source.document_id !== documentId) {
+    return null;
+  }
+
+  // Revisions saved before HTML was sanitized are cleaned up when they come back
+  const { html, report } = sanitizeHtml(source.html);
+
+  const revision = await store.createRevision({
+    document_id: documentId,
+    parent_revision_id: document.current_revision_id ?? null,
+    job_id: null,
+    prompt: source.prompt,
+    html,
+    source: 'restored',
+    restored_from: source.revision_id
+  });
+
+  if (!revision) {
+    return null;
+  }
+
+  const projectId = document.project_id || '';
+  await setCurrentRevision(documentId, revision, {
+    html,
+    project_id: projectId,
+    result: { ...document.result, html, projectId }
+  }, report.removed > 0 ? report : null);
+  return revision;
+}
+
+/**
+ * Make a saved revision the current version of the document. The document's own job always carries
+ * the HTML of its current revision, and what was sanitized out of it.
+ */
+export async function setCurrentRevision(
+  documentId: string,
+  revision: DocumentRevision,
+  generated: GeneratedDocument,
+  sanitizeReport: SanitizeReport | null
+) {
+  await getJobStore().updateJob(documentId, {
+    html: generated.html,
+    project_id: generated.project_id,
+    result: generated.result,
+    sanitize_report: sanitizeReport,
+    current_revision_id: revision.revision_id
+  });
+
+  // A document whose own generation failed is usable again once a retry produced a revision
+  await getJobStore().updateJob(documentId, {
+    status: 'completed',
+    error: null,
+    error_code: null
+  }, { expectedStatus: ['failed'] });
+}
@@ -0,0 +1,179 @@
+import type { TocOptions } from '@/utils/renderers/toc-options';
+
+// Use require for html-docx-js as it doesn't have proper TypeScript types
+const htmlDocx = require('html-docx-js');
+
+/**
+ * Convert a generated document's HTML into a Word file on the server (/api/convert-turbo), which can start
+ * it with a table of contents. Rejects with the server's error message.
+ */
+export async function fetchDocxBlob(html: string, tocOptions: TocOptions = {}): Promise<Blob> {
+  const response = await fetch('/api/convert-turbo', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ html, ...tocOptions })
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || `Server error (${response.status})`);
+  }
+
+  return response.blob();
+}
+
+/**
+ * Convert a generated document's HTML into a Word file laid out on A4 pages (browser only)
+ */
+export function htmlToDocxBlob(html: string): Blob {
+  // Create comprehensive styling for the DOCX output
+  const docxStylesheet = `
+    body {
+      margin: 0;
+      font-family: 'Calibri', 'Arial', sans-serif;
+      font-size: 12pt;
+      line-height: 1.6;
+      color: #333333;
+    }
+    /* Typography styles */
+    h1, h2, h3, h4, h5, h6 {
+      margin-top: 2.0em;
+      margin-bottom: 1.0em;
+      line-height: 1.3;
+      font-weight: bold;
+      color: #333333;
+    }
+    h1 { font-size: 20pt; }
+    h2 { font-size: 18pt; }
+    h3 { font-size: 16pt; }
+    h4 { font-size: 14pt; }
+    h5 { font-size: 12pt; font-style: italic; }
+    h6 { font-size: 12pt; font-style: italic; font-weight: normal; }
+
+    p {
+      margin-top: 0;
+      margin-bottom: 1.2em;
+    }
+
+    ul, ol {
+      margin-top: 1em;
+      margin-bottom: 1em;
+      padding-left: 2.5em;
+    }
+
+    li {
+      margin-bottom: 0.7em;
+    }
+
+    table {
+      width: 100%;
+      margin: 2em 0;
+      border-collapse: collapse;
+      border: 1px solid #dee2e6;
+    }
+
+    th, td {
+      border: 1px solid #dee2e6;
+      padding: 10pt;
+      vertical-align: top;
+    }
+
+    th {
+      background-color: #f2f2f2;
+    }
+
+    /* Spacing and page breaks */
+    p {
+      orphans: 3;
+      widows: 3;
+    }
+  `;
+
+  // Wrap HTML in A4 page containers for proper pagination
+  const wrappedHtml = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        @page {
+          size: A4;
+          margin: 25mm;
+        }
+        body {
+          font-family: 'Calibri', 'Arial', sans-serif;
+          font-size: 12pt;
+          line-height: 1.6;
+          color: #333333;
+          margin: 0;
+          padding: 0;
+        }
+
+        /* Typography styling */
+        h1, h2, h3, h4, h5, h6 {
+          margin-top: 1.5em;
+          margin-bottom: 0.8em;
+          line-height: 1.3;
+          page-break-after: avoid;
+          break-after: avoid;
+        }
+
+        p, ul, ol, table {
+          margin-bottom: 1em;
+        }
+
+        ul, ol {
+          padding-left: 2.5em;
+        }
+
+        li {
+          margin-bottom: 0.5em;
+        }
+
+        table {
+          border-collapse: collapse;
+          width: 100%;
+          margin: 1.5em 0;
+        }
+
+        th, td {
+          border: 1px solid #ddd;
+          padding: 8pt;
+        }
+
+        .a4-page {
+          page-break-after: always;
+        }
+
+        .a4-page:last-child {
+          page-break-after: avoid;
+        }
+
+        /* Ensure paragraphs don't break awkwardly */
+        p {
+          orphans: 3;
+          widows: 3;
+        }
+        ${docxStylesheet}
+      </style>
+    </head>
+    <body>
+      <div class="a4-page">
+        ${html}
+      </div>
+    </body>
+    </html>
+  `;
+
+  // Convert HTML to DOCX blob with improved styling
+  const docOptions: any = {
+    orientation: 'portrait',
+    margins: { 
+      top: '2.5cm',
+      right: '2.5cm',
+      bottom: '2.5cm',
+      left: '2.5cm'
+    }
+  };
+
+  return htmlDocx.asBlob(wrappedHtml, docOptions);
+}
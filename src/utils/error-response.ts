@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { ApiError, ERROR_STATUS, getErrorCode, getErrorMessage, RateLimitError } from '@/utils/api-errors';
+
+/**
+ * Turn a thrown error into `{ error, code }` with the matching HTTP status.
+ * Server-side failures are logged with `context`.
+ */
+export function errorResponse(error: unknown, context: string, headers?: HeadersInit): NextResponse {
+  const code = getErrorCode(error);
+  const status = ERROR_STATUS[code];
+
+  if (status >= 500) {
+    console.error(`${context}:`, error);
+  }
+
+  const responseHeaders = new Headers(headers);
+  if (error instanceof RateLimitError) {
+    responseHeaders.set('Retry-After', String(error.retryAfterSeconds));
+  }
+
+  return NextResponse.json({
+    error: getErrorMessage(error),
+    code,
+    ...(error instanceof ApiError ? error.details : undefined)
+  }, { status, headers: responseHeaders });
+}
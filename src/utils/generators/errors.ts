@@ -0,0 +1,57 @@
+/**
+ * How a generator failed:
+ * - `generator_timeout`       no complete answer within GENERATOR_TIMEOUT_MS
+ * - `generator_unavailable`   the endpoint could not be reached
+ * - `generator_bad_response`  an error status, or a body that is not a valid result
+ */
+export type GeneratorErrorCode = 'generator_timeout' | 'generator_unavailable' | 'generator_bad_response';
+
+/**
+ * Error thrown by a generator backend.
+ * `retryable` marks transient failures (network errors, timeouts, 5xx, 429) that the job queue may retry.
+ */
+export class GeneratorError extends Error {
+  readonly code: GeneratorErrorCode;
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(
+    message: string,
+    options: { code: GeneratorErrorCode; retryable: boolean; status?: number; cause?: unknown }
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'GeneratorError';
+    this.code = options.code;
+    this.retryable = options.retryable;
+    this.status = options.status;
+  }
+}
+
+/**
+ * A generator answered, but its result does not match GeneratorResult.
+ * Not retryable: the same request would most likely produce the same response.
+ */
+export class GeneratorValidationError extends GeneratorError {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Generator returned an invalid result: ${issues.join('; ')}`, {
+      code: 'generator_bad_response',
+      retryable: false
+    });
+    this.name = 'GeneratorValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Whether a failed generation is worth another attempt.
+ * Errors that did not come from a generator (e.g. a thrown TypeError from fetch) are treated as transient.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof GeneratorError) {
+    return error.retryable;
+  }
+
+  return true;
+}
@@ -0,0 +1,234 @@
+import { GeneratorError } from './errors';
+import { parseGeneratorResult } from './result';
+import type { DocumentGenerator, GenerateOptions, GeneratedDocument, GenerationRequest } from './types';
+
+// The n8n cloud webhook that used to be hard-coded in the proxy route
+const DEFAULT_N8N_WEBHOOK_URL = 'https://srv-roxra.app.n8n.cloud/webhook/5bf5071c-57f4-4219-b7ad-414d516be1de';
+
+// How long one generation attempt may take before it fails as generator_timeout
+const GENERATOR_TIMEOUT_MS = Number(process.env.GENERATOR_TIMEOUT_MS || 3 * 60 * 1000);
+
+export interface HttpGeneratorOptions {
+  name?: string;
+  url: string;
+  headers?: Record<string, string>;
+  // Defaults to GENERATOR_TIMEOUT_MS
+  timeoutMs?: number;
+}
+
+/**
+ * Generic generator that POSTs the request as JSON to an HTTP endpoint.
+ * The endpoint may answer with JSON ({ html, projectId, ... }) or raw HTML.
+ * Endpoints that stream `application/x-ndjson` can send `{ "type": "progress", "message", "html" }`
+ * lines before the final result line.
+ */
+export function createHttpGenerator(options: HttpGeneratorOptions): DocumentGenerator {
+  const { name = 'http', url, headers = {}, timeoutMs = GENERATOR_TIMEOUT_MS } = options;
+
+  if (!url) {
+    throw new Error(`Generator "${name}" has no endpoint URL configured`);
+  }
+
+  return {
+    name,
+    async generate(
+      jobId: string,
+      request: GenerationRequest,
+      options: GenerateOptions = {}
+    ): Promise<GeneratedDocument> {
+      // The timeout covers the whole exchange, including a slow or stalled response body
+      const timeout = AbortSignal.timeout(timeoutMs);
+      const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+
+      try {
+        return await requestDocument(jobId, request, { ...options, signal });
+      } catch (error) {
+        // Cancellation is not a generator failure - let the caller see the abort as is
+        if (options.signal?.aborted) throw error;
+
+        if (timeout.aborted) {
+          throw new GeneratorError(`${name} generator did not respond within ${Math.round(timeoutMs / 1000)} seconds`, {
+            code: 'generator_timeout',
+            retryable: true,
+            cause: error
+          });
+        }
+
+        throw error;
+      }
+    },
+  };
+
+  async function requestDocument(
+    jobId: string,
+    request: GenerationRequest,
+    options: GenerateOptions & { signal: AbortSignal }
+  ): Promise<GeneratedDocument> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...headers,
+        },
+        body: JSON.stringify(request),
+        signal: options.signal,
+      });
+    } catch (error) {
+      if (options.signal.aborted) throw error;
+
+      // Network-level failure (DNS, connection reset, ...) - worth retrying
+      throw new GeneratorError(`Could not reach ${name} generator`, {
+        code: 'generator_unavailable',
+        retryable: true,
+        cause: error
+      });
+    }
+
+    if (!response.ok) {
+      throw new GeneratorError(`${name} generator responded with status ${response.status}`, {
+        code: 'generator_bad_response',
+        retryable: response.status >= 500 || response.status === 429,
+        status: response.status,
+      });
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('application/x-ndjson') && response.body) {
+      return readNdjsonStream(jobId, response.body, options);
+    }
+
+    return parseGeneratorResponse(jobId, await response.text());
+  }
+}
+
+/**
+ * The existing n8n webhook, overridable with N8N_WEBHOOK_URL
+ */
+export function createN8nGenerator(): DocumentGenerator {
+  return createHttpGenerator({
+    name: 'n8n',
+    url: process.env.N8N_WEBHOOK_URL || DEFAULT_N8N_WEBHOOK_URL,
+  });
+}
+
+/**
+ * Read auth headers for the generic HTTP generator from the environment.
+ * GENERATOR_HTTP_HEADERS takes a JSON object, GENERATOR_HTTP_TOKEN a bearer token.
+ */
+export function readHttpGeneratorHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  if (process.env.GENERATOR_HTTP_HEADERS) {
+    try {
+      Object.assign(headers, JSON.parse(process.env.GENERATOR_HTTP_HEADERS));
+    } catch (error) {
+      throw new Error('GENERATOR_HTTP_HEADERS must be a JSON object of header names to values');
+    }
+  }
+
+  if (process.env.GENERATOR_HTTP_TOKEN) {
+    headers['Authorization'] = `Bearer ${process.env.GENERATOR_HTTP_TOKEN}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Consume a newline-delimited JSON stream, reporting progress lines and
+ * returning the last non-progress line as the result
+ */
+async function readNdjsonStream(
+  jobId: string,
+  body: ReadableStream<Uint8Array>,
+  options: GenerateOptions
+): Promise<GeneratedDocument> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let resultLine = '';
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch (e) {
+      throw new GeneratorError('Invalid line in generator stream', { code: 'generator_bad_response', retryable: false });
+    }
+
+    // Only progress lines are read here; the result line goes through the result schema once the stream ends
+    const fields: Record<string, unknown> = typeof parsed === 'object' && parsed !== null ? parsed as Record<string, unknown> : {};
+    if (fields.type === 'progress') {
+      // Progress is best effort: fields of the wrong type are ignored rather than failing the job
+      options.onProgress?.({
+        message: typeof fields.message === 'string' ? fields.message : undefined,
+        html: typeof fields.html === 'string' ? fields.html : undefined
+      });
+    } else {
+      resultLine = line;
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffered + decoder.decode());
+
+  if (!resultLine) {
+    throw new GeneratorError('Generator stream ended without a result', {
+      code: 'generator_bad_response',
+      retryable: true
+    });
+  }
+
+  return parseGeneratorResponse(jobId, resultLine);
+}
+
+function parseGeneratorResponse(jobId: string, responseText: string): GeneratedDocument {
+  let jsonData: unknown;
+  try {
+    jsonData = JSON.parse(responseText);
+  } catch (e) {
+    // Not valid JSON, but might be HTML
+    if (isHtmlContent(responseText)) {
+      return {
+        html: responseText,
+        project_id: `html-${jobId}`,
+        result: {
+          html: responseText,
+          projectId: `html-${jobId}`
+        }
+      };
+    }
+
+    // Not valid JSON or HTML
+    throw new GeneratorError('Generator response is neither JSON nor HTML', {
+      code: 'generator_bad_response',
+      retryable: false
+    });
+  }
+
+  // JSON answers must match the declared result schema
+  const result = parseGeneratorResult(jsonData);
+  return {
+    html: result.html,
+    project_id: result.projectId,
+    result
+  };
+}
+
+// Helper function to check if a string is HTML content
+function isHtmlContent(text: string): boolean {
+  return text.trim().startsWith('<!DOCTYPE') || 
+         text.trim().startsWith('<html') || 
+         (text.includes('<') && text.includes('>'));
+}
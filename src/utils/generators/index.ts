@@ -0,0 +1,50 @@
+import { createHttpGenerator, createN8nGenerator, readHttpGeneratorHeaders } from './http';
+import { createTemplateGenerator } from './template';
+import type { DocumentGenerator } from './types';
+
+export { GeneratorError, GeneratorValidationError, isRetryableError } from './errors';
+export type { GeneratorErrorCode } from './errors';
+export { parseGeneratorResult } from './result';
+export type { GeneratorResult, GeneratorResultSection, GeneratorUsage } from './result';
+export type {
+  DocumentGenerator,
+  GeneratedDocument,
+  GenerationRequest,
+  GenerationProgress,
+  GenerateOptions
+} from './types';
+export { createHttpGenerator, createN8nGenerator, createTemplateGenerator };
+
+export type GeneratorKind = 'n8n' | 'http' | 'template';
+
+let cachedGenerator: DocumentGenerator | null = null;
+
+/**
+ * Resolve the generator selected by DOCUMENT_GENERATOR (n8n, http or template).
+ * Defaults to the n8n webhook.
+ */
+export function getDocumentGenerator(): DocumentGenerator {
+  if (!cachedGenerator) {
+    cachedGenerator = createDocumentGenerator(
+      (process.env.DOCUMENT_GENERATOR || 'n8n') as GeneratorKind
+    );
+  }
+
+  return cachedGenerator;
+}
+
+export function createDocumentGenerator(kind: GeneratorKind): DocumentGenerator {
+  switch (kind) {
+    case 'n8n':
+      return createN8nGenerator();
+    case 'http':
+      return createHttpGenerator({
+        url: process.env.GENERATOR_HTTP_URL || '',
+        headers: readHttpGeneratorHeaders(),
+      });
+    case 'template':
+      return createTemplateGenerator();
+    default:
+      throw new Error(`Unknown DOCUMENT_GENERATOR "${kind}" (expected n8n, http or template)`);
+  }
+}
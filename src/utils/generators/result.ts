@@ -0,0 +1,180 @@
+import { GeneratorValidationError } from './errors';
+
+export interface GeneratorResultSection {
+  title: string;
+  // Heading level, 1-6
+  level?: number;
+  html?: string;
+}
+
+export interface GeneratorUsage {
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+  durationMs?: number;
+}
+
+/**
+ * What a generator returns for a job, stored as DocumentJob.result.
+ * Endpoints answering with JSON must match this shape; other fields are dropped.
+ */
+export interface GeneratorResult {
+  html: string;
+  projectId: string;
+  title?: string;
+  sections?: GeneratorResultSection[];
+  // Non-fatal problems the generator wants to surface, e.g. "Logo could not be loaded"
+  warnings?: string[];
+  usage?: GeneratorUsage;
+  // Name of the generator that produced the result
+  generator?: string;
+}
+
+type Fields = Record<string, unknown>;
+
+/**
+ * Check an untrusted generator response against GeneratorResult.
+ * Throws GeneratorValidationError listing every problem found.
+ */
+export function parseGeneratorResult(value: unknown): GeneratorResult {
+  if (!isObject(value)) {
+    throw new GeneratorValidationError(['result must be a JSON object']);
+  }
+
+  const issues: string[] = [];
+  const result: GeneratorResult = {
+    html: readString(value, 'html', issues, true) ?? '',
+    projectId: readString(value, 'projectId', issues, true) ?? ''
+  };
+
+  const title = readString(value, 'title', issues);
+  if (title !== undefined) result.title = title;
+
+  const generator = readString(value, 'generator', issues);
+  if (generator !== undefined) result.generator = generator;
+
+  const sections = readArray(value, 'sections', issues, (section, path) => {
+    if (!isObject(section)) {
+      issues.push(`${path} must be an object`);
+      return undefined;
+    }
+
+    const parsed: GeneratorResultSection = { title: readString(section, 'title', issues, true, path) ?? '' };
+    const level = readNumber(section, 'level', issues, path);
+    if (level !== undefined) {
+      if (!Number.isInteger(level) || level < 1 || level > 6) {
+        issues.push(`${path}.level must be an integer from 1 to 6`);
+      }
+      parsed.level = level;
+    }
+    const html = readString(section, 'html', issues, false, path);
+    if (html !== undefined) parsed.html = html;
+    return parsed;
+  });
+  if (sections) result.sections = sections;
+
+  const warnings = readArray(value, 'warnings', issues, (warning, path) => {
+    if (typeof warning !== 'string') {
+      issues.push(`${path} must be a string`);
+      return undefined;
+    }
+    return warning;
+  });
+  if (warnings) result.warnings = warnings;
+
+  if (value.usage !== undefined && value.usage !== null) {
+    if (!isObject(value.usage)) {
+      issues.push('usage must be an object');
+    } else {
+      const usage: GeneratorUsage = {};
+      const model = readString(value.usage, 'model', issues, false, 'usage');
+      if (model !== undefined) usage.model = model;
+      for (const key of ['inputTokens', 'outputTokens', 'totalTokens', 'durationMs'] as const) {
+        const number = readNumber(value.usage, key, issues, 'usage');
+        if (number !== undefined) usage[key] = number;
+      }
+      result.usage = usage;
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new GeneratorValidationError(issues);
+  }
+
+  return result;
+}
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function fieldPath(parent: string | undefined, key: string) {
+  return parent ? `${parent}.${key}` : key;
+}
+
+// Missing and null optional fields are treated alike; required strings must not be blank
+function readString(
+  fields: Fields,
+  key: string,
+  issues: string[],
+  required: boolean = false,
+  parent?: string
+): string | undefined {
+  const value = fields[key];
+
+  if (value === undefined || value === null) {
+    if (required) issues.push(`${fieldPath(parent, key)} is required`);
+    return undefined;
+  }
+
+  if (typeof value !== 'string') {
+    issues.push(`${fieldPath(parent, key)} must be a string, got ${describeType(value)}`);
+    return undefined;
+  }
+
+  if (required && !value.trim()) {
+    issues.push(`${fieldPath(parent, key)} must not be empty`);
+    return undefined;
+  }
+
+  return value;
+}
+
+function readNumber(fields: Fields, key: string, issues: string[], parent?: string): number | undefined {
+  const value = fields[key];
+  if (value === undefined || value === null) return undefined;
+
+  if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+    issues.push(`${fieldPath(parent, key)} must be a non-negative number, got ${describeType(value)}`);
+    return undefined;
+  }
+
+  return value;
+}
+
+function readArray<T>(
+  fields: Fields,
+  key: string,
+  issues: string[],
+  readItem: (item: unknown, path: string) => T | undefined
+): T[] | undefined {
+  const value = fields[key];
+  if (value === undefined || value === null) return undefined;
+
+  if (!Array.isArray(value)) {
+    issues.push(`${key} must be an array, got ${describeType(value)}`);
+    return undefined;
+  }
+
+  return value
+    .map((item, index) => readItem(item, `${key}[${index}]`))
+    .filter((item): item is T => item !== undefined);
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' ? `"${value.slice(0, 40)}"` : typeof value;
+}
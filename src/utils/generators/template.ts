@@ -0,0 +1,98 @@
+import { escapeHtml } from '@/utils/html-sanitizer/escape';
+import type { DocumentGenerator, GenerateOptions, GeneratedDocument, GenerationRequest } from './types';
+
+/**
+ * Local stub generator for development and tests.
+ * Builds a small handbook from the prompt without calling any external service.
+ * TEMPLATE_GENERATOR_DELAY_MS simulates a slow backend so the loading views can be exercised;
+ * the delay is spread across the sections, which are reported as progress one by one.
+ */
+export function createTemplateGenerator(): DocumentGenerator {
+  const delayMs = Number(process.env.TEMPLATE_GENERATOR_DELAY_MS || 0);
+
+  return {
+    name: 'template',
+    async generate(
+      jobId: string,
+      request: GenerationRequest,
+      options: GenerateOptions = {}
+    ): Promise<GeneratedDocument> {
+      const sections = renderSections(request.prompt);
+      let partialHtml = '';
+
+      for (const section of sections) {
+        if (delayMs > 0) {
+          await sleep(delayMs / sections.length, options.signal);
+        }
+        options.signal?.throwIfAborted();
+
+        partialHtml += section.html;
+        options.onProgress?.({
+          message: `Writing ${section.title}`,
+          html: `<div>${partialHtml}</div>`
+        });
+      }
+
+      const projectId = request.projectId || `template-${jobId}`;
+      const html = `
+        <div>${partialHtml}
+          <hr>
+          <p>Generated at: ${new Date().toLocaleString()}</p>
+        </div>
+      `;
+
+      return {
+        html,
+        project_id: projectId,
+        result: {
+          html,
+          projectId,
+          title: 'Solution Handbook',
+          sections: sections.map(section => ({ title: section.title, level: 2 })),
+          generator: 'template'
+        }
+      };
+    },
+  };
+}
+
+function renderSections(prompt: string): Array<{ title: string; html: string }> {
+  const safePrompt = escapeHtml(prompt);
+
+  return [
+    {
+      title: 'Overview',
+      html: `
+      <h1>Solution Handbook</h1>
+      <p><em>Generated locally by the template generator.</em></p>
+      <h2>Overview</h2>
+      <p>${safePrompt}</p>`
+    },
+    {
+      title: 'Requirements',
+      html: `
+      <h2>Requirements</h2>
+      <ul>
+        <li>Site survey and airspace assessment</li>
+        <li>Hardware and connectivity checklist</li>
+        <li>Operator training plan</li>
+      </ul>`
+    },
+    {
+      title: 'Next Steps',
+      html: `
+      <h2>Next Steps</h2>
+      <p>Review this draft and refine it through the chat panel.</p>`
+    }
+  ];
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
@@ -0,0 +1,42 @@
+import type { GeneratorResult } from './result';
+
+/**
+ * Body of a generation request, as posted to /api/proxy
+ */
+export interface GenerationRequest {
+  prompt: string;
+  projectId?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Result of a generator run - exactly the fields the job queue stores with JobStore.updateJob
+ */
+export interface GeneratedDocument {
+  html: string;
+  project_id: string;
+  result: GeneratorResult;
+}
+
+/**
+ * Intermediate update emitted while a document is being generated
+ */
+export interface GenerationProgress {
+  message?: string;
+  // Partial document HTML produced so far
+  html?: string;
+}
+
+export interface GenerateOptions {
+  onProgress?: (progress: GenerationProgress) => void;
+  // Aborted when the job is cancelled; generators should stop work and reject
+  signal?: AbortSignal;
+}
+
+/**
+ * A backend that turns a prompt into a document
+ */
+export interface DocumentGenerator {
+  readonly name: string;
+  generate(jobId: string, request: GenerationRequest, options?: GenerateOptions): Promise<GeneratedDocument>;
+}
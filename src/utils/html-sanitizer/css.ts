@@ -0,0 +1,200 @@
+import type { SanitizePolicy, SanitizeReport } from './types';
+import { isSafeUrl } from './urls';
+
+// At-rules whose block holds further rules, and those whose block holds declarations
+const NESTED_AT_RULES = ['media', 'supports', 'keyframes', '-webkit-keyframes'];
+const DECLARATION_AT_RULES = ['font-face', 'page'];
+
+// Descriptors only valid inside @font-face and @page blocks
+const AT_RULE_DESCRIPTORS = ['src', 'font-display', 'unicode-range', 'size', 'marks', 'bleed'];
+
+// Legacy script hooks; none of these have any other use
+const DANGEROUS_VALUE = /expression\s*\(|javascript:|vbscript:|-moz-binding|behavior\s*:/i;
+
+/**
+ * Keep the declarations of an inline style or rule body whose property is allowed and whose value is safe
+ */
+export function sanitizeDeclarations(
+  text: string,
+  policy: SanitizePolicy,
+  report: SanitizeReport,
+  inAtRule: boolean = false
+): string {
+  const kept: string[] = [];
+
+  for (const declaration of splitTopLevel(stripComments(text), ';')) {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) continue;
+
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    const value = declaration.slice(colon + 1).trim();
+    if (!property) continue;
+
+    const allowed = isAllowedProperty(property, policy) || (inAtRule && AT_RULE_DESCRIPTORS.includes(property));
+    if (!allowed || !isSafeValue(value)) {
+      count(report.styles, property);
+      continue;
+    }
+
+    kept.push(`${property}: ${value}`);
+  }
+
+  return kept.join('; ');
+}
+
+/**
+ * Sanitize the contents of a <style> element: every rule's declarations are filtered,
+ * and at-rules other than @media, @supports, @keyframes, @font-face, @page and @charset are dropped
+ */
+export function sanitizeStylesheet(text: string, policy: SanitizePolicy, report: SanitizeReport): string {
+  const css = stripComments(text);
+  const output: string[] = [];
+  let position = 0;
+
+  while (position < css.length) {
+    const end = findTopLevel(css, position, ['{', ';']);
+    const prelude = css.slice(position, end === -1 ? css.length : end).trim();
+
+    if (end === -1) {
+      // Trailing text without a block is not a rule
+      break;
+    }
+
+    if (css[end] === ';') {
+      // Statement at-rules: @import could load an unfiltered stylesheet
+      if (prelude.toLowerCase().startsWith('@charset')) {
+        output.push(`${prelude};`);
+      } else if (prelude) {
+        count(report.styles, `@${atRuleName(prelude)}`);
+      }
+      position = end + 1;
+      continue;
+    }
+
+    const close = findBlockEnd(css, end);
+    const body = css.slice(end + 1, close === -1 ? css.length : close);
+    position = close === -1 ? css.length : close + 1;
+
+    if (prelude.startsWith('@')) {
+      const name = atRuleName(prelude);
+
+      if (NESTED_AT_RULES.includes(name)) {
+        output.push(`${prelude} {\n${sanitizeStylesheet(body, policy, report)}\n}`);
+      } else if (DECLARATION_AT_RULES.includes(name)) {
+        output.push(`${prelude} { ${sanitizeDeclarations(body, policy, report, true)} }`);
+      } else {
+        count(report.styles, `@${name}`);
+      }
+      continue;
+    }
+
+    if (prelude) {
+      output.push(`${prelude} { ${sanitizeDeclarations(body, policy, report)} }`);
+    }
+  }
+
+  return output.join('\n');
+}
+
+function isAllowedProperty(property: string, policy: SanitizePolicy): boolean {
+  // Custom properties are allowed; their values pass the same checks as any other declaration
+  if (property.startsWith('--')) return true;
+
+  const unprefixed = property.replace(/^-(webkit|moz|ms|o)-/, '');
+  for (const allowed of Array.from(policy.cssProperties)) {
+    if (unprefixed === allowed || unprefixed.startsWith(`${allowed}-`)) return true;
+  }
+
+  return false;
+}
+
+function isSafeValue(value: string): boolean {
+  const decoded = decodeCssEscapes(value);
+  if (DANGEROUS_VALUE.test(decoded)) return false;
+
+  const urls = Array.from(decoded.matchAll(/url\(\s*(['"]?)(.*?)\1\s*\)/gi));
+  return urls.every(([, , url]) => isSafeUrl(url, { allowImageData: true }));
+}
+
+// `\6a avascript:` and similar escapes would otherwise hide script URLs from the checks above
+function decodeCssEscapes(value: string): string {
+  return value
+    .replace(/\\([0-9a-f]{1,6})\s?/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16) || 0xfffd))
+    .replace(/\\(.)/g, '$1');
+}
+
+function stripComments(css: string): string {
+  return css.replace(/\/\*[\s\S]*?(\*\/|$)/g, '');
+}
+
+function atRuleName(prelude: string): string {
+  return (prelude.match(/^@([\w-]+)/)?.[1] || '').toLowerCase();
+}
+
+// Split on a separator that is not inside quotes or parentheses
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+
+  while (start <= text.length) {
+    const end = findTopLevel(text, start, [separator]);
+    parts.push(text.slice(start, end === -1 ? text.length : end));
+    if (end === -1) break;
+    start = end + 1;
+  }
+
+  return parts;
+}
+
+function findTopLevel(text: string, from: number, targets: string[]): number {
+  let quote: string | null = null;
+  let depth = 0;
+
+  for (let i = from; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '\\') {
+      i++;
+    } else if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (depth === 0 && targets.includes(char)) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+// Index of the `}` closing the block opened at `open`, or -1 if it is never closed
+function findBlockEnd(text: string, open: number): number {
+  let quote: string | null = null;
+  let depth = 0;
+
+  for (let i = open; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '\\') {
+      i++;
+    } else if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+export function count(counts: Record<string, number>, key: string) {
+  counts[key] = (counts[key] || 0) + 1;
+}
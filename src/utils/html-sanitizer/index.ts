@@ -0,0 +1,165 @@
+import { JSDOM } from 'jsdom';
+import { count, sanitizeDeclarations, sanitizeStylesheet } from './css';
+import { getSanitizePolicy } from './policy';
+import { isSafeUrl, URL_ATTRIBUTES } from './urls';
+import type { SanitizePolicy, SanitizeReport, SanitizeResult } from './types';
+
+export { createSanitizePolicy, getSanitizePolicy } from './policy';
+export { escapeHtml } from './escape';
+export type { SanitizePolicy, SanitizeReport, SanitizeResult } from './types';
+
+// Disallowed elements are normally unwrapped, keeping their text. These go with everything inside them.
+const DROP_WITH_CONTENT = new Set([
+  'script', 'style', 'template', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'noscript', 'noembed', 'noframes', 'textarea', 'select', 'svg', 'math', 'canvas', 'audio', 'video',
+  'link', 'base', 'xmp', 'plaintext', 'title'
+]);
+
+const HTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+
+// Complete documents keep their <head>; anything else is sanitized as a fragment
+const DOCUMENT_PATTERN = /^\s*(<!--[\s\S]*?-->\s*)*(<!doctype|<html[\s>])/i;
+
+let fragmentWindow: JSDOM['window'] | null = null;
+
+/**
+ * Remove everything from generated or user-supplied HTML that is not on the allowlist:
+ * elements, attributes (always including on* event handlers), script URLs and CSS.
+ * The report lists what was removed.
+ */
+export function sanitizeHtml(html: string, policy: SanitizePolicy = getSanitizePolicy()): SanitizeResult {
+  const report: SanitizeReport = { removed: 0, elements: {}, attributes: {}, styles: {} };
+
+  if (DOCUMENT_PATTERN.test(html)) {
+    const dom = new JSDOM(html);
+    sanitizeChildren(dom.window.document.documentElement, policy, report);
+    sanitizeElement(dom.window.document.documentElement, policy, report);
+    return { html: dom.serialize(), report: withTotal(report) };
+  }
+
+  // A <template> parses the fragment in place, without moving leading <style> elements into a <head>
+  fragmentWindow ||= new JSDOM('').window;
+  const template = fragmentWindow.document.createElement('template');
+  template.innerHTML = html;
+  sanitizeChildren(template.content, policy, report);
+  return { html: template.innerHTML, report: withTotal(report) };
+}
+
+/**
+ * Sanitize HTML on its way out to a browser or renderer, logging anything that had to be removed.
+ * HTML is already sanitized when it is stored, so removals here point at older records or a stricter policy.
+ */
+export function sanitizeForRender(html: string, context: string): string {
+  const { html: sanitized, report } = sanitizeHtml(html);
+
+  if (report.removed > 0) {
+    console.warn(`Sanitizer removed ${formatSanitizeReport(report)} from ${context}`);
+  }
+
+  return sanitized;
+}
+
+/**
+ * sanitizeForRender for API payloads that carry HTML in an `html` field
+ */
+export function withSanitizedHtml<T extends { html?: string | null }>(payload: T, context: string): T {
+  return payload.html ? { ...payload, html: sanitizeForRender(payload.html, context) } : payload;
+}
+
+/**
+ * One-line summary of a report, e.g. `<script> ×2, img[onerror], CSS @import`
+ */
+export function formatSanitizeReport(report: SanitizeReport): string {
+  const entries = [
+    ...Object.entries(report.elements).map(([tag, times]) => [`<${tag}>`, times] as const),
+    ...Object.entries(report.attributes),
+    ...Object.entries(report.styles).map(([name, times]) => [`CSS ${name}`, times] as const)
+  ];
+
+  return entries
+    .map(([name, times]) => (times > 1 ? `${name} ×${times}` : name))
+    .join(', ') || 'nothing';
+}
+
+function sanitizeChildren(parent: ParentNode, policy: SanitizePolicy, report: SanitizeReport) {
+  for (const node of Array.from(parent.childNodes)) {
+    // Comments can hide conditional comments and markup that confuses later parsers
+    if (node.nodeType === node.COMMENT_NODE || node.nodeType === node.PROCESSING_INSTRUCTION_NODE) {
+      node.remove();
+      continue;
+    }
+
+    if (node.nodeType !== node.ELEMENT_NODE) continue;
+
+    const element = node as Element;
+    const tag = element.localName.toLowerCase();
+
+    if (!policy.tags.has(tag)) {
+      count(report.elements, tag);
+
+      if (DROP_WITH_CONTENT.has(tag) || element.namespaceURI !== HTML_NAMESPACE) {
+        element.remove();
+      } else {
+        sanitizeChildren(element, policy, report);
+        element.replaceWith(...Array.from(element.childNodes));
+      }
+      continue;
+    }
+
+    sanitizeElement(element, policy, report);
+
+    if (tag === 'style') {
+      // Raw text: a closing tag in the CSS would end the element when the output is parsed again
+      element.textContent = sanitizeStylesheet(element.textContent || '', policy, report).replace(/<\/style/gi, '<\\/style');
+    } else {
+      sanitizeChildren(element, policy, report);
+    }
+  }
+}
+
+function sanitizeElement(element: Element, policy: SanitizePolicy, report: SanitizeReport) {
+  const tag = element.localName.toLowerCase();
+
+  for (const attribute of Array.from(element.attributes)) {
+    const name = attribute.name.toLowerCase();
+
+    if (!isAllowedAttribute(tag, name, policy) || !isSafeAttributeValue(tag, name, attribute.value)) {
+      count(report.attributes, `${tag}[${name}]`);
+      element.removeAttribute(attribute.name);
+      continue;
+    }
+
+    if (name === 'style') {
+      const style = sanitizeDeclarations(attribute.value, policy, report);
+      if (style) {
+        element.setAttribute('style', style);
+      } else {
+        element.removeAttribute('style');
+      }
+    }
+  }
+
+  // Links opened in a new tab must not get a handle on the viewer's window
+  if (tag === 'a' && element.getAttribute('target') === '_blank') {
+    element.setAttribute('rel', 'noopener noreferrer');
+  }
+}
+
+function isAllowedAttribute(tag: string, name: string, policy: SanitizePolicy): boolean {
+  // Event handlers are never allowed, whatever the configuration says
+  if (name.startsWith('on')) return false;
+
+  return [...(policy.attributes['*'] || []), ...(policy.attributes[tag] || [])].some(allowed =>
+    allowed.endsWith('*') ? name.startsWith(allowed.slice(0, -1)) : name === allowed
+  );
+}
+
+function isSafeAttributeValue(tag: string, name: string, value: string): boolean {
+  if (!URL_ATTRIBUTES.includes(name)) return true;
+  return isSafeUrl(value, { allowImageData: tag === 'img' && name === 'src' });
+}
+
+function withTotal(report: SanitizeReport): SanitizeReport {
+  const sum = (counts: Record<string, number>) => Object.values(counts).reduce((total, times) => total + times, 0);
+  return { ...report, removed: sum(report.elements) + sum(report.attributes) + sum(report.styles) };
+}
@@ -0,0 +1,98 @@
+import type { SanitizePolicy } from './types';
+
+const DEFAULT_TAGS = [
+  // Document structure, so complete HTML documents keep their head and styles
+  'html', 'head', 'body', 'title', 'meta', 'style',
+  // Sections and blocks
+  'div', 'span', 'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'section', 'article', 'header', 'footer', 'nav', 'aside', 'main', 'address',
+  'blockquote', 'pre', 'figure', 'figcaption', 'details', 'summary', 'center',
+  // Lists and tables
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+  'table', 'caption', 'colgroup', 'col', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td',
+  // Inline text
+  'a', 'img', 'em', 'strong', 'b', 'i', 'u', 's', 'del', 'ins', 'sub', 'sup', 'small', 'mark',
+  'abbr', 'cite', 'q', 'code', 'kbd', 'samp', 'var', 'time', 'font'
+];
+
+const DEFAULT_ATTRIBUTES: Record<string, string[]> = {
+  '*': ['class', 'id', 'style', 'title', 'lang', 'dir', 'align', 'valign', 'width', 'height', 'role', 'aria-*', 'data-*'],
+  a: ['href', 'name', 'target', 'rel'],
+  img: ['src', 'alt'],
+  meta: ['charset', 'name', 'content'],
+  ol: ['start', 'type', 'reversed'],
+  ul: ['type'],
+  li: ['value'],
+  table: ['border', 'cellpadding', 'cellspacing', 'bgcolor'],
+  td: ['colspan', 'rowspan', 'headers', 'bgcolor'],
+  th: ['colspan', 'rowspan', 'headers', 'scope', 'bgcolor'],
+  col: ['span'],
+  colgroup: ['span'],
+  blockquote: ['cite'],
+  q: ['cite'],
+  del: ['cite', 'datetime'],
+  ins: ['cite', 'datetime'],
+  time: ['datetime'],
+  details: ['open'],
+  font: ['color', 'face', 'size']
+};
+
+const DEFAULT_CSS_PROPERTIES = [
+  'color', 'background', 'opacity', 'visibility',
+  'font', 'text', 'line-height', 'letter-spacing', 'word-spacing', 'white-space', 'word-break',
+  'overflow-wrap', 'hyphens', 'vertical-align', 'direction',
+  'margin', 'padding', 'border', 'outline', 'box-shadow', 'box-sizing',
+  'width', 'height', 'min-width', 'min-height', 'max-width', 'max-height', 'overflow',
+  'display', 'float', 'clear', 'position', 'top', 'right', 'bottom', 'left', 'z-index',
+  'flex', 'order', 'gap', 'row-gap', 'column-gap', 'grid', 'align', 'justify', 'place',
+  'columns', 'column', 'list-style', 'table-layout', 'caption-side', 'empty-cells',
+  'page-break', 'break', 'orphans', 'widows', 'page',
+  'transform', 'transition', 'animation', 'object-fit', 'object-position', 'content', 'quotes', 'counter'
+];
+
+let cachedPolicy: SanitizePolicy | null = null;
+
+/**
+ * The default allowlist, extended by:
+ * - HTML_ALLOWED_TAGS: comma-separated tag names
+ * - HTML_ALLOWED_ATTRIBUTES: comma-separated `tag:attribute`, or `attribute` for every tag
+ * - HTML_ALLOWED_CSS_PROPERTIES: comma-separated CSS properties
+ * Event handler attributes (on*) and script URLs are always removed.
+ */
+export function getSanitizePolicy(): SanitizePolicy {
+  if (!cachedPolicy) {
+    cachedPolicy = createSanitizePolicy({
+      tags: readList(process.env.HTML_ALLOWED_TAGS),
+      attributes: readList(process.env.HTML_ALLOWED_ATTRIBUTES),
+      cssProperties: readList(process.env.HTML_ALLOWED_CSS_PROPERTIES)
+    });
+  }
+
+  return cachedPolicy;
+}
+
+export function createSanitizePolicy(
+  extra: { tags?: string[]; attributes?: string[]; cssProperties?: string[] } = {}
+): SanitizePolicy {
+  const attributes: Record<string, string[]> = Object.fromEntries(
+    Object.entries(DEFAULT_ATTRIBUTES).map(([tag, names]) => [tag, [...names]])
+  );
+
+  for (const entry of extra.attributes || []) {
+    const [tag, name] = entry.includes(':') ? entry.split(':', 2) : ['*', entry];
+    (attributes[tag] ||= []).push(name);
+  }
+
+  return {
+    tags: new Set([...DEFAULT_TAGS, ...(extra.tags || [])]),
+    attributes,
+    cssProperties: new Set([...DEFAULT_CSS_PROPERTIES, ...(extra.cssProperties || [])])
+  };
+}
+
+function readList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(item => item.trim().toLowerCase())
+    .filter(Boolean);
+}
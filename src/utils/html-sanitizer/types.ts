@@ -0,0 +1,29 @@
+/**
+ * What a sanitizer pass removed. Counts are keyed by:
+ * - elements:   tag name, e.g. `script`
+ * - attributes: tag[attribute], e.g. `img[onerror]`
+ * - styles:     CSS property or at-rule, e.g. `behavior` or `@import`
+ */
+export interface SanitizeReport {
+  // Total number of removals
+  removed: number;
+  elements: Record<string, number>;
+  attributes: Record<string, number>;
+  styles: Record<string, number>;
+}
+
+export interface SanitizeResult {
+  html: string;
+  report: SanitizeReport;
+}
+
+/**
+ * Allowlist of what may appear in rendered HTML
+ */
+export interface SanitizePolicy {
+  tags: Set<string>;
+  // Attributes per tag name; `*` applies to every tag. An entry ending in `*` allows a prefix (data-*).
+  attributes: Record<string, string[]>;
+  // CSS properties; an entry also allows its longhands (`margin` allows `margin-top`)
+  cssProperties: Set<string>;
+}
@@ -0,0 +1,19 @@
+const SAFE_SCHEMES = ['http', 'https', 'mailto', 'tel'];
+
+// Attributes that hold a URL, checked wherever they are allowed
+export const URL_ATTRIBUTES = ['href', 'src', 'cite', 'action', 'formaction', 'background', 'poster', 'xlink:href'];
+
+/**
+ * Relative URLs, fragments and http(s)/mailto/tel links are safe.
+ * With allowImageData, data: URLs of images are too (for <img src> and CSS backgrounds).
+ */
+export function isSafeUrl(url: string, options: { allowImageData?: boolean } = {}): boolean {
+  // Browsers ignore whitespace and control characters inside the scheme, e.g. `java\tscript:`
+  const normalized = url.replace(/[\u0000- \u007f-\u009f]/g, '').toLowerCase();
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/)?.[1];
+
+  if (!scheme) return true;
+  if (SAFE_SCHEMES.includes(scheme)) return true;
+
+  return !!options.allowImageData && scheme === 'data' && normalized.startsWith('data:image/');
+}
@@ -0,0 +1,55 @@
+import { createHash } from 'crypto';
+import { ApiError, ValidationError } from '@/utils/api-errors';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Raised when an Idempotency-Key is reused with a different payload
+ */
+export class IdempotencyConflictError extends ApiError {
+  constructor(readonly idempotencyKey: string) {
+    super('idempotency_conflict', 'Idempotency-Key was already used with a different request payload', { idempotencyKey });
+    this.name = 'IdempotencyConflictError';
+  }
+}
+
+/**
+ * Read and validate the Idempotency-Key header. Returns undefined when absent.
+ */
+export function readIdempotencyKey(headers: Headers): string | undefined {
+  const key = headers.get(IDEMPOTENCY_KEY_HEADER)?.trim();
+
+  if (!key) {
+    return undefined;
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    throw new ValidationError(`${IDEMPOTENCY_KEY_HEADER} must be at most ${MAX_KEY_LENGTH} characters`);
+  }
+
+  return key;
+}
+
+/**
+ * Hash a request payload independently of property order
+ */
+export function hashPayload(payload: unknown): string {
+  return createHash('sha256').update(stableStringify(payload)).digest('hex');
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
@@ -0,0 +1,511 @@
+import type {
+  DocumentBatch,
+  DocumentJob,
+  DocumentJobStatus,
+  DocumentMessage,
+  DocumentRevision,
+  DocumentShareLink,
+  DocumentSummary,
+  PromptTemplate,
+  PromptTemplateVersion
+} from '@/utils/job-store';
+import type { AccessLevel } from '@/utils/document-access';
+import type { ShareLinkStatus } from '@/utils/share-links';
+import type { GenerationRequest } from '@/utils/generators';
+import type { LimitStatus } from '@/utils/rate-limit/types';
+import type { BatchFileFormat, BatchProgress } from '@/utils/batches';
+import type { ExportFormat } from '@/utils/renderers';
+import type { TemplateVariable } from '@/utils/prompt-templates/variables';
+import { ErrorCode, isRetryableErrorCode } from '@/utils/api-errors';
+
+// Browser-side access to jobs through the API routes; pages never talk to a job store directly
+
+// A job as served to the page, with what the signed-in user may do with its document
+export type JobWithAccess = DocumentJob & { access?: AccessLevel };
+
+/**
+ * fetch() for the job APIs; an expired session sends the user back to the sign-in page
+ */
+async function apiFetch(input: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(input, init);
+
+  if (response.status === 401 && typeof window !== 'undefined') {
+    const next = encodeURIComponent(window.location.pathname + window.location.search);
+    window.location.href = `/sign-in?next=${next}`;
+  }
+
+  return response;
+}
+
+/**
+ * An error response from the API, with the code the server classified it as
+ * and the response's other fields (e.g. `field`, `issues`) as details
+ */
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    readonly code: ErrorCode,
+    readonly status: number,
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+
+  get retryable(): boolean {
+    return isRetryableErrorCode(this.code);
+  }
+}
+
+async function readApiError(response: Response, fallback: string): Promise<ApiRequestError> {
+  const data = await response.json().catch(() => null);
+  const { error, code, ...details } = data || {};
+  return new ApiRequestError(
+    error || `${fallback}: ${response.status}`,
+    code || 'internal_error',
+    response.status,
+    details
+  );
+}
+
+/**
+ * Queue a generation request (a new document, or a chat edit when it has a documentId).
+ * The same Idempotency-Key always resolves to the same job, so retries are safe.
+ * Rejects with ApiRequestError when the request is invalid or could not be queued.
+ */
+export async function submitJob(
+  request: GenerationRequest,
+  idempotencyKey: string = crypto.randomUUID()
+): Promise<{ jobId: string; status: DocumentJobStatus }> {
+  const response = await apiFetch('/api/proxy', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      'Idempotency-Key': idempotencyKey
+    },
+    body: JSON.stringify(request)
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response, 'Error submitting request');
+  }
+
+  return response.json();
+}
+
+/**
+ * The user's daily job quota; null when the server has no quota configured
+ */
+export async function fetchQuota(): Promise<LimitStatus | null> {
+  const response = await apiFetch('/api/quota');
+
+  if (!response.ok) {
+    throw new Error(`Error loading quota: ${response.status}`);
+  }
+
+  return (await response.json()).quota;
+}
+
+/**
+ * Fetch a job record. Resolves to null when the job does not exist.
+ */
+export async function fetchJob(jobId: string): Promise<JobWithAccess | null> {
+  const response = await apiFetch(`/api/jobs/${jobId}`);
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Error loading job: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Ask the server to cancel a pending or running job
+ */
+export async function cancelJob(jobId: string): Promise<boolean> {
+  const response = await apiFetch(`/api/jobs/${jobId}`, { method: 'DELETE' });
+  return response.ok;
+}
+
+export type RevisionSummary = Omit<DocumentRevision, 'html'>;
+
+/**
+ * Revision history of a document, newest first (without HTML)
+ */
+export async function fetchRevisions(
+  documentId: string
+): Promise<{ currentRevisionId: string | null; revisions: RevisionSummary[] }> {
+  const response = await apiFetch(`/api/documents/${documentId}/revisions`);
+
+  if (!response.ok) {
+    throw new Error(`Error loading revisions: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetch a single revision including its HTML
+ */
+export async function fetchRevision(documentId: string, revisionId: string): Promise<DocumentRevision | null> {
+  const response = await apiFetch(`/api/documents/${documentId}/revisions/${revisionId}`);
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Error loading revision: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Make an earlier revision current again; resolves to the revision created by the restore
+ */
+export async function restoreRevision(documentId: string, revisionId: string): Promise<DocumentRevision | null> {
+  const response = await apiFetch(`/api/documents/${documentId}/revisions/${revisionId}/restore`, { method: 'POST' });
+
+  if (!response.ok) {
+    return null;
+  }
+
+  return response.json();
+}
+
+/**
+ * The document's saved chat, oldest first
+ */
+export async function fetchMessages(documentId: string): Promise<DocumentMessage[]> {
+  const response = await apiFetch(`/api/documents/${documentId}/messages`);
+
+  if (!response.ok) {
+    throw new Error(`Error loading messages: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.messages;
+}
+
+export interface DocumentListParams {
+  page?: number;
+  pageSize?: number;
+  status?: DocumentJobStatus[];
+  from?: string;
+  to?: string;
+  sort?: 'created_at' | 'updated_at' | 'status';
+  order?: 'asc' | 'desc';
+}
+
+export interface DocumentListPage {
+  documents: (DocumentSummary & { access: AccessLevel })[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+/**
+ * One page of the documents dashboard
+ */
+export async function listDocuments(params: DocumentListParams = {}): Promise<DocumentListPage> {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    const text = Array.isArray(value) ? value.join(',') : value?.toString();
+    if (text) query.set(key, text);
+  });
+
+  const response = await apiFetch(`/api/documents?${query}`);
+
+  if (!response.ok) {
+    throw new Error(`Error loading documents: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Delete or re-run several documents at once
+ */
+export async function bulkDocumentAction(action: 'delete' | 'rerun', ids: string[]) {
+  const response = await apiFetch('/api/documents/bulk', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action, ids })
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response, `Error running ${action}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Generate a document again, e.g. after it failed; resolves to the ID of the new job
+ */
+export async function retryDocument(documentId: string): Promise<string> {
+  const { jobs } = await bulkDocumentAction('rerun', [documentId]);
+  const jobId = jobs?.[0]?.jobId;
+
+  if (!jobId) {
+    throw new Error('The document could not be queued again');
+  }
+
+  return jobId;
+}
+
+export type BatchSummary = DocumentBatch & Pick<BatchProgress, 'counts' | 'finished'>;
+
+/**
+ * Queue one document per row of a CSV or JSON file, optionally filled into a shared template.
+ * Rejects with ApiRequestError listing the problems when the file is refused.
+ */
+export async function uploadBatch(file: File, template?: string): Promise<DocumentBatch> {
+  const format: BatchFileFormat = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+  const response = await apiFetch('/api/batches', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name: file.name, format, content: await file.text(), template: template || undefined })
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response, 'Error uploading batch');
+  }
+
+  return (await response.json()).batch;
+}
+
+/**
+ * The user's batches, newest first
+ */
+export async function listBatches(): Promise<BatchSummary[]> {
+  const response = await apiFetch('/api/batches');
+
+  if (!response.ok) {
+    throw new Error(`Error loading batches: ${response.status}`);
+  }
+
+  return (await response.json()).batches;
+}
+
+/**
+ * A batch with its status counts and documents. Resolves to null when the batch does not exist.
+ */
+export async function fetchBatch(batchId: string): Promise<BatchProgress | null> {
+  const response = await apiFetch(`/api/batches/${batchId}`);
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Error loading batch: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * URL of a part (from 1) of a batch's completed documents as a ZIP of PDF or DOCX files
+ */
+export function getBatchDownloadUrl(batchId: string, format: ExportFormat, part: number = 1): string {
+  return `/api/batches/${batchId}/download?format=${format}&part=${part}`;
+}
+
+/**
+ * The prompt template library, by name
+ */
+export async function listPromptTemplates(): Promise<PromptTemplate[]> {
+  const response = await apiFetch('/api/templates');
+
+  if (!response.ok) {
+    throw new Error(`Error loading templates: ${response.status}`);
+  }
+
+  return (await response.json()).templates;
+}
+
+/**
+ * A template with its versions, newest first. Resolves to null when the template does not exist.
+ */
+export async function fetchPromptTemplate(
+  templateId: string
+): Promise<{ template: PromptTemplate; versions: PromptTemplateVersion[]; canArchive: boolean } | null> {
+  const response = await apiFetch(`/api/templates/${templateId}`);
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Error loading template: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+export interface PromptTemplateDraft {
+  name: string;
+  description?: string;
+  body: string;
+  variables: TemplateVariable[];
+}
+
+export async function createPromptTemplate(draft: PromptTemplateDraft): Promise<PromptTemplate> {
+  const response = await apiFetch('/api/templates', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(draft)
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response, 'Error creating template');
+  }
+
+  return (await response.json()).template;
+}
+
+/**
+ * Save a change as the template's next version. `baseVersion` is the version that was edited;
+ * rejects with a version_conflict error when someone else saved in between.
+ */
+export async function savePromptTemplate(
+  templateId: string,
+  draft: PromptTemplateDraft,
+  baseVersion: number
+): Promise<PromptTemplate> {
+  const response = await apiFetch(`/api/templates/${templateId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...draft, baseVersion })
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response, 'Error saving template');
+  }
+
+  return (await response.json()).template;
+}
+
+/**
+ * Remove a template from the library (owner only); its versions are kept
+ */
+export async function archivePromptTemplate(templateId: string): Promise<boolean> {
+  const response = await apiFetch(`/api/templates/${templateId}`, { method: 'DELETE' });
+  return response.ok;
+}
+
+/**
+ * Download several documents (HTML, revisions and chat) as one JSON file
+ */
+export async function exportDocuments(ids: string[]): Promise<Blob> {
+  const response = await apiFetch('/api/documents/export', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ids })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Error exporting documents: ${response.status}`);
+  }
+
+  return response.blob();
+}
+
+/**
+ * Pin or unpin a document; pinned documents are exempt from the retention cleanup
+ */
+export async function setDocumentPinned(documentId: string, pinned: boolean): Promise<boolean> {
+  const response = await apiFetch(`/api/documents/${documentId}/pin`, { method: pinned ? 'POST' : 'DELETE' });
+  return response.ok;
+}
+
+/**
+ * Share a document with another user by email; resolves to the updated share list
+ */
+export async function shareDocument(documentId: string, email: string): Promise<string[]> {
+  const response = await apiFetch(`/api/documents/${documentId}/shares`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email })
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || `Error sharing document: ${response.status}`);
+  }
+
+  return data.sharedWith;
+}
+
+/**
+ * Stop sharing a document with a user; resolves to the updated share list
+ */
+export async function unshareDocument(documentId: string, email: string): Promise<string[]> {
+  const response = await apiFetch(
+    `/api/documents/${documentId}/shares?email=${encodeURIComponent(email)}`,
+    { method: 'DELETE' }
+  );
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || `Error unsharing document: ${response.status}`);
+  }
+
+  return data.sharedWith;
+}
+
+export type ShareLinkWithStatus = DocumentShareLink & { status: ShareLinkStatus };
+
+/**
+ * A document's read-only share links, newest first
+ */
+export async function fetchShareLinks(documentId: string): Promise<ShareLinkWithStatus[]> {
+  const response = await apiFetch(`/api/documents/${documentId}/links`);
+
+  if (!response.ok) {
+    throw new Error(`Error loading share links: ${response.status}`);
+  }
+
+  return (await response.json()).links;
+}
+
+/**
+ * Create a read-only share link; without expiresInDays it works until revoked
+ */
+export async function createShareLink(documentId: string, expiresInDays?: number): Promise<ShareLinkWithStatus> {
+  const response = await apiFetch(`/api/documents/${documentId}/links`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ expiresInDays })
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || `Error creating share link: ${response.status}`);
+  }
+
+  return data.link;
+}
+
+export async function revokeShareLink(documentId: string, linkId: string): Promise<boolean> {
+  const response = await apiFetch(
+    `/api/documents/${documentId}/links?linkId=${encodeURIComponent(linkId)}`,
+    { method: 'DELETE' }
+  );
+  return response.ok;
+}
+
+/**
+ * Public URL of a share link
+ */
+export function getShareLinkUrl(token: string): string {
+  return `${window.location.origin}/share/${token}`;
+}
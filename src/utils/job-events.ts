@@ -0,0 +1,117 @@
+import { isFinishedStatus, JobStatusPayload } from '@/utils/job-status';
+
+export interface JobWatchHandlers {
+  onStatus?: (payload: JobStatusPayload) => void;
+  onProgress?: (message: string) => void;
+  onHtml?: (html: string) => void;
+  onDone: (payload: JobStatusPayload) => void;
+  onError?: (error: Error) => void;
+}
+
+// Polling fallback: 2 minutes max with 2-second intervals
+const POLL_INTERVAL_MS = 2000;
+const MAX_POLL_ATTEMPTS = 60;
+
+/**
+ * Follow a job until it finishes.
+ * Uses the /api/jobs/:id/events stream and falls back to polling /api/proxy?jobId=
+ * when the browser has no EventSource or the stream cannot be opened.
+ * Returns a function that stops watching.
+ */
+export function watchJob(jobId: string, handlers: JobWatchHandlers): () => void {
+  let stopped = false;
+  let stopPolling: (() => void) | null = null;
+
+  const stop = () => {
+    stopped = true;
+    stopPolling?.();
+  };
+
+  const fallBackToPolling = () => {
+    if (stopped || stopPolling) return;
+    stopPolling = pollJob(jobId, handlers);
+  };
+
+  if (typeof window === 'undefined' || typeof window.EventSource === 'undefined') {
+    fallBackToPolling();
+    return stop;
+  }
+
+  const source = new EventSource(`/api/jobs/${jobId}/events`);
+  const parse = (event: Event) => JSON.parse((event as MessageEvent).data);
+
+  source.addEventListener('status', (event) => handlers.onStatus?.(parse(event)));
+  source.addEventListener('progress', (event) => handlers.onProgress?.(parse(event).message));
+  source.addEventListener('html', (event) => handlers.onHtml?.(parse(event).html));
+  source.addEventListener('done', (event) => {
+    source.close();
+    handlers.onDone(parse(event));
+  });
+  source.addEventListener('missing', (event) => {
+    source.close();
+    handlers.onError?.(new Error(parse(event).error));
+  });
+  source.onerror = () => {
+    // EventSource reconnects on its own unless the connection was refused outright
+    if (source.readyState === EventSource.CLOSED) {
+      console.warn('Job event stream unavailable, falling back to polling');
+      fallBackToPolling();
+    }
+  };
+
+  return () => {
+    source.close();
+    stop();
+  };
+}
+
+function pollJob(jobId: string, handlers: JobWatchHandlers): () => void {
+  let cancelled = false;
+  let lastProgress: string | null | undefined;
+  let lastHtml: string | undefined;
+
+  const run = async () => {
+    try {
+      for (let attempts = 0; attempts < MAX_POLL_ATTEMPTS && !cancelled; attempts++) {
+        const response = await fetch(`/api/proxy?jobId=${jobId}`);
+
+        if (!response.ok) {
+          throw new Error(`Error checking job status: ${response.status}`);
+        }
+
+        const payload: JobStatusPayload = await response.json();
+        console.log(`Job status (${attempts + 1}/${MAX_POLL_ATTEMPTS}):`, payload.status);
+
+        if (isFinishedStatus(payload.status)) {
+          handlers.onDone(payload);
+          return;
+        }
+
+        handlers.onStatus?.(payload);
+        if (payload.progress && payload.progress !== lastProgress) {
+          lastProgress = payload.progress;
+          handlers.onProgress?.(payload.progress);
+        }
+        if (payload.html && payload.html !== lastHtml) {
+          lastHtml = payload.html;
+          handlers.onHtml?.(payload.html);
+        }
+
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      }
+
+      if (!cancelled) {
+        throw new Error('Job processing timed out after 2 minutes');
+      }
+    } catch (error) {
+      if (!cancelled) {
+        handlers.onError?.(error instanceof Error ? error : new Error('Unknown error'));
+      }
+    }
+  };
+
+  run();
+  return () => {
+    cancelled = true;
+  };
+}
@@ -0,0 +1,30 @@
+import { escapeHtml } from '@/utils/html-sanitizer/escape';
+
+// Function to create loading HTML content
+export function createLoadingHtml(prompt: string = ""): string {
+  return `
+    <div>
+      <h1>Processing Your Request</h1>
+      <div style="margin: 20px 0; padding: 15px; border-left: 4px solid #3498db; background-color: #f8f9fa;">
+        <p>We're working on generating your document from the prompt:</p>
+        <p><em>"${escapeHtml(prompt)}"</em></p>
+      </div>
+      
+      <div style="margin: 20px 0; text-align: center;">
+        <div style="display: inline-block; width: 50px; height: 50px; border: 5px solid #f3f3f3; 
+                    border-top: 5px solid #3498db; border-radius: 50%; animation: spin 1s linear infinite;"></div>
+        <p>This may take up to 2 minutes to complete...</p>
+        <style>
+          @keyframes spin {
+            0% { transform: rotate(0deg); }
+            100% { transform: rotate(360deg); }
+          }
+        </style>
+      </div>
+      
+      <p>The system is working on your document. Please wait while we process your request.</p>
+      <hr>
+      <p>Started at: ${new Date().toLocaleString()}</p>
+    </div>
+  `;
+}
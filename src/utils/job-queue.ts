@@ -0,0 +1,405 @@
+import { getJobStore, DocumentJob, DocumentJobUpdate } from '@/utils/job-store';
+import {
+  getDocumentGenerator,
+  isRetryableError,
+  GeneratedDocument,
+  GenerationProgress,
+  GenerationRequest
+} from '@/utils/generators';
+import { formatSanitizeReport, sanitizeHtml, SanitizeReport } from '@/utils/html-sanitizer';
+import { hashPayload, IdempotencyConflictError } from '@/utils/idempotency';
+import { getErrorCode } from '@/utils/api-errors';
+import { queueJobWebhooks, runWebhookDispatcher } from '@/utils/webhooks';
+import { getDocumentId, recordGeneratedRevision, setCurrentRevision } from '@/utils/document-revisions';
+import { recordJobOutcome, recordUserMessage } from '@/utils/document-messages';
+
+// Queue tuning, overridable through the environment
+const MAX_ATTEMPTS = Number(process.env.JOB_MAX_ATTEMPTS || 3);
+const RETRY_BASE_DELAY_MS = Number(process.env.JOB_RETRY_BASE_DELAY_MS || 5000);
+const RETRY_MAX_DELAY_MS = Number(process.env.JOB_RETRY_MAX_DELAY_MS || 5 * 60 * 1000);
+const POLL_INTERVAL_MS = Number(process.env.JOB_WORKER_POLL_INTERVAL_MS || 1000);
+const PROGRESS_WRITE_INTERVAL_MS = Number(process.env.JOB_PROGRESS_WRITE_INTERVAL_MS || 500);
+const CANCEL_CHECK_INTERVAL_MS = Number(process.env.JOB_CANCEL_CHECK_INTERVAL_MS || 2000);
+// Must stay well below JOB_STALE_AFTER_MS, or the reaper takes healthy jobs away from their worker
+const HEARTBEAT_INTERVAL_MS = Number(process.env.JOB_HEARTBEAT_INTERVAL_MS || 30 * 1000);
+// How often the status read that decides whether finished output is saved is tried before the attempt fails
+const SAVE_CHECK_ATTEMPTS = 3;
+const SAVE_CHECK_RETRY_DELAY_MS = 1000;
+
+// Jobs running in this process, so a cancel handled here can abort them without waiting for the next check
+const activeJobs = new Map<string, AbortController>();
+
+/**
+ * Persist a new generation request; a worker picks it up from document_jobs.
+ * With an idempotency key, repeating the same request returns the original job (`replayed`),
+ * while reusing the key for a different request throws IdempotencyConflictError.
+ */
+export async function enqueueDocumentJob(
+  request: GenerationRequest,
+  options: { idempotencyKey?: string; ownerId?: string; callbackUrl?: string; batchId?: string } = {}
+): Promise<{ job: DocumentJob | null; replayed: boolean }> {
+  const { idempotencyKey, ownerId, callbackUrl, batchId } = options;
+  // A different callback makes a different request; without one the hash is the request's alone
+  const payloadHash = idempotencyKey ? hashPayload(callbackUrl ? { ...request, callbackUrl } : request) : undefined;
+
+  if (idempotencyKey) {
+    const existing = await getJobStore().getJobByIdempotencyKey(idempotencyKey, ownerId);
+    if (existing) {
+      return { job: checkIdempotentReplay(existing, idempotencyKey, payloadHash), replayed: true };
+    }
+  }
+
+  const job = await getJobStore().createJob(request.prompt, {
+    payload: request,
+    maxAttempts: MAX_ATTEMPTS,
+    idempotencyKey,
+    payloadHash,
+    // Chat edits belong to the document they were made on
+    documentId: typeof request.documentId === 'string' ? request.documentId : undefined,
+    ownerId,
+    callbackUrl,
+    batchId
+  });
+
+  // createJob hands back the winner's job when a concurrent request used the same key
+  if (job && idempotencyKey) {
+    checkIdempotentReplay(job, idempotencyKey, payloadHash);
+  }
+
+  if (job) {
+    await recordUserMessage(job);
+  }
+
+  return { job, replayed: false };
+}
+
+// Keys are looked up per owner, so a replay can only ever return the caller's own job
+function checkIdempotentReplay(job: DocumentJob, idempotencyKey: string, payloadHash?: string): DocumentJob {
+  if (job.payload_hash !== payloadHash) {
+    throw new IdempotencyConflictError(idempotencyKey);
+  }
+
+  return job;
+}
+
+/**
+ * Generate a document again from its original request.
+ * Runs as a chat edit of the document, so the result becomes its next revision.
+ */
+export async function rerunDocument(documentId: string, ownerId?: string): Promise<DocumentJob | null> {
+  const document = await getJobStore().getJob(documentId);
+
+  if (!document || document.document_id) {
+    return null;
+  }
+
+  const { job } = await enqueueDocumentJob({
+    ...(document.payload || { prompt: document.prompt }),
+    documentId,
+    parentRevisionId: document.current_revision_id ?? null
+  }, { ownerId });
+  return job;
+}
+
+/**
+ * Cancel a pending or running job.
+ * Returns false if the job already finished (or does not exist).
+ */
+export async function cancelDocumentJob(jobId: string): Promise<boolean> {
+  const cancelled = await getJobStore().updateJob(jobId, {
+    status: 'cancelled',
+    error: 'Cancelled by user',
+    progress_message: null,
+    locked_by: null,
+    locked_at: null
+  }, { expectedStatus: ['pending', 'processing'] });
+
+  if (cancelled) {
+    activeJobs.get(jobId)?.abort();
+
+    const job = await getJobStore().getJob(jobId);
+    if (job) {
+      await recordJobOutcome(job, 'cancelled');
+      await queueJobWebhooks(job, { status: 'cancelled', error: job.error });
+    }
+  }
+
+  return cancelled;
+}
+
+/**
+ * Exponential backoff with a little jitter: base, 2x base, 4x base, ... capped at the max delay
+ */
+export function getRetryDelay(attempt: number): number {
+  const delay = RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempt - 1));
+  const jitter = Math.random() * RETRY_BASE_DELAY_MS * 0.2;
+  return Math.min(RETRY_MAX_DELAY_MS, delay + jitter);
+}
+
+/**
+ * Claim and run a single job. Returns false when the queue had nothing due.
+ */
+export async function processNextJob(workerId: string): Promise<boolean> {
+  const job = await getJobStore().claimNextJob(workerId);
+
+  if (!job) {
+    return false;
+  }
+
+  await runJob(job);
+  return true;
+}
+
+async function runJob(job: DocumentJob) {
+  const jobId = job.job_id;
+  const request = job.payload || { prompt: job.prompt };
+  const progress = createProgressWriter(jobId);
+
+  // Abort the generator when the job is cancelled, whichever process handled the cancel request
+  const controller = new AbortController();
+  activeJobs.set(jobId, controller);
+  const cancelCheck = setInterval(async () => {
+    // A failed check is tried again on the next tick; a rejection here would bring the worker down
+    try {
+      const current = await getJobStore().getJob(jobId);
+      if (current?.status === 'cancelled') {
+        controller.abort();
+      }
+    } catch (error) {
+      console.error(`Error checking whether job ${jobId} was cancelled:`, error);
+    }
+  }, CANCEL_CHECK_INTERVAL_MS);
+
+  // Keep updated_at fresh so the stale job reaper knows this worker is alive.
+  // If the job is no longer ours (cancelled or reaped), stop generating.
+  const heartbeat = setInterval(async () => {
+    // One missed heartbeat is harmless while the next ones get through; it must not end the worker
+    try {
+      const touched = await getJobStore().updateJob(jobId, {
+        locked_at: new Date().toISOString()
+      }, { expectedStatus: ['processing'] });
+      // Stop only once a read confirms it; a storage error throws and is tried again on the next beat
+      if (!touched && !isStillOurs(job, await getJobStore().getJob(jobId))) {
+        controller.abort();
+      }
+    } catch (error) {
+      console.error(`Error sending heartbeat for job ${jobId}:`, error);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    console.log(`Processing job ${jobId} (attempt ${job.attempts}/${job.max_attempts})...`);
+
+    // Hand the request to the configured generator backend
+    const generator = getDocumentGenerator();
+    const { generated, report } = sanitizeGeneratedDocument(jobId, await generator.generate(jobId, request, {
+      onProgress: progress.report,
+      signal: controller.signal
+    }));
+    await progress.flush();
+
+    // A job cancelled or reaped meanwhile leaves its document alone
+    if (!isStillOurs(job, await readJobBeforeSave(jobId))) {
+      console.log(`Job ${jobId} was cancelled or reaped, discarding the generated document`);
+      return;
+    }
+
+    // The revision and the document are saved before the job reports completed,
+    // so clients that see the completion find the new version in place
+    const sanitizeReport = report.removed > 0 ? report : null;
+    const revision = await recordGeneratedRevision(job, generated);
+    const completion: DocumentJobUpdate = {
+      status: 'completed',
+      ...generated,
+      sanitize_report: sanitizeReport,
+      progress_message: null,
+      last_error: null,
+      locked_by: null,
+      locked_at: null
+    };
+
+    const documentId = getDocumentId(job);
+    let completed = false;
+    if (documentId === jobId) {
+      // A new document is its own job, so switching to its revision and completing it is one guarded write
+      completed = await getJobStore().updateJob(jobId, {
+        ...completion,
+        current_revision_id: revision.revision_id
+      }, { expectedStatus: ['processing'] });
+    } else if (isStillOurs(job, await readJobBeforeSave(jobId))) {
+      // A chat edit switches another row, so it checks again right before that a cancel has not landed meanwhile
+      await setCurrentRevision(documentId, revision, generated, sanitizeReport);
+      completed = await getJobStore().updateJob(jobId, completion, { expectedStatus: ['processing'] });
+    }
+
+    if (completed) {
+      console.log(`Job ${jobId} completed successfully using the ${generator.name} generator`);
+      await recordJobOutcome(job, 'completed');
+      await queueJobWebhooks(job, { status: 'completed' });
+    } else {
+      console.log(`Job ${jobId} was cancelled while its revision was saved`);
+    }
+  } catch (error) {
+    await progress.flush();
+
+    if (controller.signal.aborted) {
+      console.log(`Job ${jobId} was cancelled or reaped, stopped generating`);
+      return;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    if (isRetryableError(error) && job.attempts < job.max_attempts) {
+      const delay = getRetryDelay(job.attempts);
+      console.warn(`Job ${jobId} attempt ${job.attempts} failed, retrying in ${Math.round(delay / 1000)}s:`, error);
+
+      // Put the job back in the queue for a later attempt
+      await getJobStore().updateJob(jobId, {
+        status: 'pending',
+        progress_message: `Attempt ${job.attempts} failed, retrying in ${Math.round(delay / 1000)} seconds`,
+        last_error: errorMessage,
+        next_attempt_at: new Date(Date.now() + delay).toISOString(),
+        locked_by: null,
+        locked_at: null
+      }, { expectedStatus: ['processing'] });
+      return;
+    }
+
+    console.error(`Job ${jobId} failed:`, error);
+
+    // Record the failure as is, without a stand-in document; clients render the error and offer a retry
+    const errorCode = getErrorCode(error);
+    const failed = await getJobStore().updateJob(jobId, {
+      status: 'failed',
+      progress_message: null,
+      error: errorMessage,
+      error_code: errorCode,
+      last_error: errorMessage,
+      locked_by: null,
+      locked_at: null
+    }, { expectedStatus: ['processing'] });
+
+    if (failed) {
+      await recordJobOutcome(job, 'failed', errorMessage);
+      await queueJobWebhooks(job, { status: 'failed', error: errorMessage, errorCode });
+    }
+  } finally {
+    clearInterval(cancelCheck);
+    clearInterval(heartbeat);
+    activeJobs.delete(jobId);
+  }
+}
+
+// Whether the job is still running under the claim this worker made
+function isStillOurs(claimed: DocumentJob, current: DocumentJob | null): boolean {
+  return current?.status === 'processing' && current.locked_by === claimed.locked_by;
+}
+
+/**
+ * Re-read a job whose generator finished. Storage errors and a missing row are tried again a few times,
+ * so a passing failure does not throw the output away; if they persist, the error fails the attempt
+ * and the job is retried like any other.
+ */
+async function readJobBeforeSave(jobId: string): Promise<DocumentJob | null> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const job = await getJobStore().getJob(jobId);
+      if (job || attempt >= SAVE_CHECK_ATTEMPTS) return job;
+    } catch (error) {
+      if (attempt >= SAVE_CHECK_ATTEMPTS) throw error;
+      console.warn(`Could not re-read job ${jobId} before saving its output, trying again:`, error);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, SAVE_CHECK_RETRY_DELAY_MS * attempt));
+  }
+}
+
+/**
+ * Generator output is stored sanitized, with a report of anything that was removed
+ */
+function sanitizeGeneratedDocument(
+  jobId: string,
+  generated: GeneratedDocument
+): { generated: GeneratedDocument; report: SanitizeReport } {
+  const { html, report } = sanitizeHtml(generated.html);
+
+  if (report.removed > 0) {
+    console.warn(`Sanitizer removed ${formatSanitizeReport(report)} from the output of job ${jobId}`);
+  }
+
+  // The result carries its own copy of the HTML
+  return { generated: { ...generated, html, result: { ...generated.result, html } }, report };
+}
+
+/**
+ * Persist generator progress on the job so the events endpoint can stream it.
+ * Writes are throttled; the latest update always wins.
+ */
+function createProgressWriter(jobId: string) {
+  let pending: GenerationProgress | null = null;
+  let lastWrite = 0;
+  let trailingWrite: ReturnType<typeof setTimeout> | null = null;
+  let writing: Promise<unknown> = Promise.resolve();
+
+  const write = () => {
+    trailingWrite = null;
+    if (!pending) return writing;
+
+    const { message, html } = pending;
+    pending = null;
+    lastWrite = Date.now();
+    // A failed write is only logged, so the chain never stays rejected and flush() never throws
+    writing = writing
+      .then(() => getJobStore().updateJob(jobId, {
+        ...(message !== undefined && { progress_message: message }),
+        ...(html !== undefined && { html: sanitizeHtml(html).html })
+      }, { expectedStatus: ['processing'] }))
+      .catch(error => console.error(`Error saving progress of job ${jobId}:`, error));
+    return writing;
+  };
+
+  return {
+    report(progress: GenerationProgress) {
+      pending = { ...pending, ...progress };
+      const sinceLastWrite = Date.now() - lastWrite;
+      if (sinceLastWrite >= PROGRESS_WRITE_INTERVAL_MS) {
+        write();
+      } else if (!trailingWrite) {
+        trailingWrite = setTimeout(write, PROGRESS_WRITE_INTERVAL_MS - sinceLastWrite);
+      }
+    },
+    flush() {
+      // Partial HTML is superseded by the final update, so only wait for in-flight writes
+      if (trailingWrite) clearTimeout(trailingWrite);
+      trailingWrite = null;
+      pending = null;
+      return writing;
+    }
+  };
+}
+
+/**
+ * Work the queue until the signal is aborted.
+ * Drains due jobs back to back, then sleeps for the poll interval.
+ * Webhook deliveries are sent alongside, from their own loop.
+ */
+export async function runWorker(options: { workerId?: string; signal?: AbortSignal } = {}) {
+  const workerId = options.workerId || `worker-${process.pid}-${Math.random().toString(36).substring(2, 8)}`;
+  console.log(`Job worker ${workerId} started`);
+
+  const webhooks = runWebhookDispatcher({ signal: options.signal });
+
+  while (!options.signal?.aborted) {
+    try {
+      const didWork = await processNextJob(workerId);
+      if (didWork) continue;
+    } catch (error) {
+      console.error(`Job worker ${workerId} error:`, error);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  await webhooks;
+  console.log(`Job worker ${workerId} stopped`);
+}
@@ -0,0 +1,85 @@
+import { getJobStore, DocumentJob } from '@/utils/job-store';
+import { recordJobOutcome } from '@/utils/document-messages';
+import { queueJobWebhooks } from '@/utils/webhooks';
+
+// A processing job whose updated_at is older than this is considered abandoned by its worker
+const STALE_AFTER_MS = Number(process.env.JOB_STALE_AFTER_MS || 5 * 60 * 1000);
+
+export interface ReaperReport {
+  requeued: string[];
+  failed: string[];
+}
+
+/**
+ * Recover jobs stuck in `processing` after their worker crashed or froze.
+ * Jobs with attempts left go back to the queue, the rest fail with a clear error.
+ * Every action is recorded on the job in `reaped_at` / `reaper_note`.
+ */
+export async function reapStaleJobs(staleAfterMs: number = STALE_AFTER_MS): Promise<ReaperReport> {
+  const cutoff = new Date(Date.now() - staleAfterMs).toISOString();
+  const staleJobs = await getJobStore().listStaleJobs(cutoff);
+  const report: ReaperReport = { requeued: [], failed: [] };
+
+  for (const job of staleJobs) {
+    const reaped = job.attempts < job.max_attempts
+      ? await requeueJob(job, staleAfterMs, cutoff)
+      : await failJob(job, staleAfterMs, cutoff);
+
+    if (reaped) {
+      report[job.attempts < job.max_attempts ? 'requeued' : 'failed'].push(job.job_id);
+    }
+  }
+
+  if (report.requeued.length || report.failed.length) {
+    console.warn(`Reaper requeued ${report.requeued.length} and failed ${report.failed.length} stale jobs`);
+  }
+
+  return report;
+}
+
+function describeStaleness(job: DocumentJob, staleAfterMs: number): string {
+  const minutes = Math.round(staleAfterMs / 60000);
+  return `No progress from worker ${job.locked_by || 'unknown'} for over ${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+async function requeueJob(job: DocumentJob, staleAfterMs: number, cutoff: string): Promise<boolean> {
+  const now = new Date().toISOString();
+  const reason = describeStaleness(job, staleAfterMs);
+
+  // updatedBefore guards against a heartbeat that landed after we listed the job
+  return getJobStore().updateJob(job.job_id, {
+    status: 'pending',
+    last_error: reason,
+    progress_message: 'The worker stopped responding, your request was queued again',
+    next_attempt_at: now,
+    locked_by: null,
+    locked_at: null,
+    reaped_at: now,
+    reaper_note: `Requeued after attempt ${job.attempts} of ${job.max_attempts}: ${reason}`
+  }, { expectedStatus: ['processing'], updatedBefore: cutoff });
+}
+
+async function failJob(job: DocumentJob, staleAfterMs: number, cutoff: string): Promise<boolean> {
+  const now = new Date().toISOString();
+  const reason = describeStaleness(job, staleAfterMs);
+  const errorMessage = `Job stalled and was stopped after ${job.attempts} attempt${job.attempts === 1 ? '' : 's'}. ${reason}`;
+
+  const failed = await getJobStore().updateJob(job.job_id, {
+    status: 'failed',
+    error: errorMessage,
+    error_code: 'job_stalled',
+    last_error: reason,
+    progress_message: null,
+    locked_by: null,
+    locked_at: null,
+    reaped_at: now,
+    reaper_note: `Failed after attempt ${job.attempts} of ${job.max_attempts}: ${reason}`
+  }, { expectedStatus: ['processing'], updatedBefore: cutoff });
+
+  if (failed) {
+    await recordJobOutcome(job, 'failed', errorMessage);
+    await queueJobWebhooks(job, { status: 'failed', error: errorMessage, errorCode: 'job_stalled' });
+  }
+
+  return failed;
+}
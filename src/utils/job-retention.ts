@@ -0,0 +1,103 @@
+import { getJobStore, DocumentSummary, RetentionCutoffs } from '@/utils/job-store';
+
+// Only finished jobs expire; pending and processing jobs belong to the queue and the reaper
+export type RetentionStatus = 'completed' | 'failed' | 'cancelled';
+
+// Days to keep a job after its last update, per status; null keeps it forever
+export type RetentionPolicy = Record<RetentionStatus, number | null>;
+
+export interface RetentionReport {
+  dryRun: boolean;
+  policy: RetentionPolicy;
+  cutoffs: RetentionCutoffs;
+  // Jobs deleted, or with dryRun the jobs the cleanup would delete
+  jobs: DocumentSummary[];
+  // Includes chat jobs removed along with their document (0 for a dry run)
+  deleted: number;
+}
+
+const CLEANUP_INTERVAL_MS = Number(process.env.JOB_CLEANUP_INTERVAL_MS || 24 * 60 * 60 * 1000);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let lastCleanupAt = 0;
+
+/**
+ * Retention per status from the environment.
+ * JOB_RETENTION_<STATUS>_DAYS takes a number of days, or `never` to keep jobs forever.
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+  return {
+    completed: parseRetentionDays(process.env.JOB_RETENTION_COMPLETED_DAYS, null),
+    failed: parseRetentionDays(process.env.JOB_RETENTION_FAILED_DAYS, 3),
+    cancelled: parseRetentionDays(process.env.JOB_RETENTION_CANCELLED_DAYS, 3)
+  };
+}
+
+function parseRetentionDays(value: string | undefined, defaultDays: number | null): number | null {
+  if (!value) return defaultDays;
+  if (value === 'never') return null;
+
+  const days = Number(value);
+  if (isNaN(days) || days < 0) {
+    console.warn(`Ignoring invalid retention "${value}", using ${defaultDays ?? 'never'}`);
+    return defaultDays;
+  }
+
+  return days;
+}
+
+export function getRetentionCutoffs(policy: RetentionPolicy, now: number = Date.now()): RetentionCutoffs {
+  const cutoffs: RetentionCutoffs = {};
+
+  for (const [status, days] of Object.entries(policy) as [RetentionStatus, number | null][]) {
+    if (days !== null) {
+      cutoffs[status] = new Date(now - days * DAY_MS).toISOString();
+    }
+  }
+
+  return cutoffs;
+}
+
+/**
+ * Delete jobs past their status' retention. Pinned jobs are always kept.
+ * With dryRun nothing is deleted and the report lists what would be.
+ */
+export async function runRetentionCleanup(
+  options: { dryRun?: boolean; policy?: RetentionPolicy } = {}
+): Promise<RetentionReport> {
+  const policy = options.policy || getRetentionPolicy();
+  const cutoffs = getRetentionCutoffs(policy);
+  const store = getJobStore();
+  const jobs = await store.listExpiredJobs(cutoffs);
+
+  if (options.dryRun) {
+    return { dryRun: true, policy, cutoffs, jobs, deleted: 0 };
+  }
+
+  const deleted = jobs.length > 0 ? await store.deleteExpiredJobs(cutoffs) : 0;
+  lastCleanupAt = Date.now();
+
+  if (deleted > 0) {
+    console.log(`Retention cleanup deleted ${deleted} jobs`);
+  }
+
+  return { dryRun: false, policy, cutoffs, jobs, deleted };
+}
+
+/**
+ * Run the cleanup if JOB_CLEANUP_INTERVAL_MS has passed since the last run in this process
+ */
+export async function runScheduledCleanup(): Promise<RetentionReport | null> {
+  if (Date.now() - lastCleanupAt < CLEANUP_INTERVAL_MS) {
+    return null;
+  }
+
+  return runRetentionCleanup();
+}
+
+/**
+ * When runScheduledCleanup will next do any work in this process
+ */
+export function getNextCleanupAt(): string {
+  return new Date(Math.max(Date.now(), lastCleanupAt + CLEANUP_INTERVAL_MS)).toISOString();
+}
@@ -0,0 +1,95 @@
+import type { DocumentJob } from '@/utils/job-store';
+import type { GeneratorResult } from '@/utils/generators';
+import type { ErrorCode } from '@/utils/api-errors';
+import { createLoadingHtml } from '@/utils/job-html';
+
+/**
+ * Client-facing view of a job, returned by GET /api/proxy?jobId= and
+ * pushed by the /api/jobs/:id/events stream
+ */
+export interface JobStatusPayload {
+  jobId: string;
+  status: DocumentJob['status'];
+  message?: string;
+  progress?: string | null;
+  html?: string;
+  projectId: string;
+  result?: GeneratorResult | null;
+  error?: string;
+  // Set for failed jobs
+  errorCode?: ErrorCode;
+  attempts?: number;
+  lastError?: string | null;
+}
+
+export function isFinishedStatus(status: DocumentJob['status']): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+export function describeJob(job: DocumentJob): JobStatusPayload {
+  const jobId = job.job_id;
+
+  if (job.status === 'pending' || job.status === 'processing') {
+    return {
+      jobId,
+      status: job.status,
+      message: job.attempts > 1
+        ? `Retrying your request (attempt ${job.attempts} of ${job.max_attempts})`
+        : 'Your request is still being processed',
+      progress: job.progress_message,
+      html: job.html || createLoadingHtml(job.prompt),
+      projectId: job.project_id || `pending-${jobId}`,
+      attempts: job.attempts,
+      lastError: job.last_error
+    };
+  }
+
+  if (job.status === 'failed') {
+    return {
+      jobId,
+      status: 'failed',
+      error: job.error || 'Unknown error',
+      errorCode: job.error_code || 'internal_error',
+      html: job.html || undefined,
+      projectId: job.project_id || `failed-${jobId}`,
+      attempts: job.attempts
+    };
+  }
+
+  if (job.status === 'cancelled') {
+    return {
+      jobId,
+      status: 'cancelled',
+      message: 'This request was cancelled',
+      error: job.error || 'Cancelled by user',
+      html: job.html || undefined,
+      projectId: job.project_id || `cancelled-${jobId}`,
+      attempts: job.attempts
+    };
+  }
+
+  // Job completed successfully
+  return {
+    jobId,
+    status: 'completed',
+    result: job.result,
+    html: job.html,
+    projectId: job.project_id || `completed-${jobId}`
+  };
+}
+
+/**
+ * The assistant's chat reply once a job has finished.
+ * Shared by the worker, which saves it with the document, and the page, which shows it right away.
+ */
+export function describeJobOutcome(status: DocumentJob['status'], error?: string | null): string {
+  if (status === 'completed') {
+    return 'Document updated successfully.';
+  }
+
+  if (status === 'cancelled') {
+    return 'Request cancelled.';
+  }
+
+  return `Error: ${error || 'Unknown error'}`;
+}
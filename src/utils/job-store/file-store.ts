@@ -0,0 +1,117 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  createEmptyTables,
+  createMutex,
+  createRecordJobStore,
+  PRIMARY_KEYS,
+  RecordTables,
+  TableName
+} from './record-store';
+import type { JobStore } from './types';
+
+const DEFAULT_FILE = path.join(process.cwd(), '.data', 'document-jobs.json');
+
+// Cross-process lock: how long to wait for it, and when an abandoned lock file may be removed
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_STALE_MS = 10000;
+const LOCK_RETRY_MS = 20;
+
+/**
+ * Job store persisted to a local JSON file (JOB_STORE_FILE, default .data/document-jobs.json).
+ * A lock file makes every read-modify-write atomic, so the web app and
+ * `npm run worker` can share the store without Supabase.
+ */
+export function createFileJobStore(filePath: string = process.env.JOB_STORE_FILE || DEFAULT_FILE): JobStore {
+  const runExclusive = createMutex();
+  const lockPath = `${filePath}.lock`;
+
+  return createRecordJobStore('file', {
+    transaction: (fn, options = {}) => runExclusive(() => withFileLock(lockPath, async () => {
+      const tables = await readTables(filePath);
+      const result = fn(tables);
+
+      if (options.write) {
+        await writeTables(filePath, tables);
+      }
+
+      return result;
+    }))
+  });
+}
+
+// The file holds one array of rows per table: { "document_jobs": [...], "document_revisions": [...] }
+async function readTables(filePath: string): Promise<RecordTables> {
+  const tables = createEmptyTables();
+
+  let contents: string;
+  try {
+    contents = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return tables;
+    }
+    throw error;
+  }
+
+  const parsed = JSON.parse(contents);
+  // Early files stored only the jobs array
+  const rowsByTable: Partial<Record<TableName, any[]>> = Array.isArray(parsed)
+    ? { document_jobs: parsed }
+    : parsed;
+
+  for (const table of Object.keys(tables) as TableName[]) {
+    const key = PRIMARY_KEYS[table];
+    for (const row of rowsByTable[table] || []) {
+      (tables[table] as Map<string, unknown>).set(row[key], row);
+    }
+  }
+
+  return tables;
+}
+
+async function writeTables(filePath: string, tables: RecordTables) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  const rowsByTable = Object.fromEntries(
+    Object.entries(tables).map(([table, rows]) => [table, Array.from((rows as Map<string, unknown>).values())])
+  );
+
+  // Write to a temp file and rename, so readers never see a half-written file
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(rowsByTable, null, 2));
+  await fs.rename(tempPath, filePath);
+}
+
+async function withFileLock<T>(lockPath: string, fn: () => Promise<T>): Promise<T> {
+  await fs.mkdir(path.dirname(lockPath), { recursive: true });
+  const startedAt = Date.now();
+
+  while (true) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+
+      // A process that died while holding the lock leaves the file behind
+      const stat = await fs.stat(lockPath).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+
+      if (Date.now() - startedAt > LOCK_TIMEOUT_MS) {
+        throw new Error(`Timed out waiting for job store lock ${lockPath}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(lockPath, { force: true });
+  }
+}
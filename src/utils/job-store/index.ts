@@ -0,0 +1,67 @@
+import { isSupabaseConfigured } from '@/utils/supabase';
+import { createFileJobStore } from './file-store';
+import { createMemoryJobStore } from './memory-store';
+import { createSupabaseJobStore } from './supabase-store';
+import type { JobStore } from './types';
+
+export type {
+  CreateJobOptions,
+  DocumentBatch,
+  DocumentJob,
+  DocumentJobStatus,
+  DocumentJobUpdate,
+  DocumentMessage,
+  DocumentRevision,
+  DocumentShareLink,
+  DocumentSummary,
+  JobStore,
+  ListDocumentsQuery,
+  RetentionCutoffs,
+  NewDocumentBatch,
+  NewDocumentMessage,
+  NewDocumentRevision,
+  NewDocumentShareLink,
+  NewPromptTemplate,
+  NewPromptTemplateVersion,
+  NewWebhookDelivery,
+  PromptTemplate,
+  PromptTemplateUpdate,
+  PromptTemplateVersion,
+  RateLimitCounter,
+  UpdateJobOptions,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookDeliveryUpdate
+} from './types';
+export { DOCUMENT_SUMMARY_COLUMNS } from './types';
+export { createFileJobStore, createMemoryJobStore, createSupabaseJobStore };
+
+export type JobStoreKind = 'supabase' | 'file' | 'memory';
+
+let cachedStore: JobStore | null = null;
+
+/**
+ * Resolve the job store selected by JOB_STORE (supabase, file or memory).
+ * Defaults to Supabase when it is configured, otherwise to the local file store.
+ */
+export function getJobStore(): JobStore {
+  if (!cachedStore) {
+    const kind = (process.env.JOB_STORE || (isSupabaseConfigured() ? 'supabase' : 'file')) as JobStoreKind;
+    cachedStore = createJobStore(kind);
+  }
+
+  return cachedStore;
+}
+
+export function createJobStore(kind: JobStoreKind): JobStore {
+  switch (kind) {
+    case 'supabase':
+      return createSupabaseJobStore();
+    case 'file':
+      return createFileJobStore();
+    case 'memory':
+      return createMemoryJobStore();
+    default:
+      throw new Error(`Unknown JOB_STORE "${kind}" (expected supabase, file or memory)`);
+  }
+}
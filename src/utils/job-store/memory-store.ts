@@ -0,0 +1,25 @@
+import { createEmptyTables, createMutex, createRecordJobStore, RecordTables } from './record-store';
+import type { JobStore } from './types';
+
+// Kept on globalThis so every route module (and hot reloads) in this process share the same data
+const globalForStore = globalThis as typeof globalThis & { memoryJobTables?: RecordTables };
+
+/**
+ * In-memory job store for tests and quick local runs.
+ * Jobs live only as long as the process, so run the worker inline (JOB_WORKER_INLINE=true).
+ */
+export function createMemoryJobStore(tables: RecordTables = getSharedTables()): JobStore {
+  const runExclusive = createMutex();
+
+  return createRecordJobStore('memory', {
+    transaction: (fn) => runExclusive(async () => fn(tables))
+  });
+}
+
+function getSharedTables(): RecordTables {
+  if (!globalForStore.memoryJobTables) {
+    globalForStore.memoryJobTables = createEmptyTables();
+  }
+
+  return globalForStore.memoryJobTables;
+}
@@ -0,0 +1,573 @@
+import { randomUUID } from 'crypto';
+import type {
+  CreateJobOptions,
+  DocumentBatch,
+  DocumentJob,
+  DocumentJobUpdate,
+  DocumentMessage,
+  DocumentRevision,
+  DocumentShareLink,
+  DocumentSummary,
+  JobStore,
+  ListDocumentsQuery,
+  RetentionCutoffs,
+  NewDocumentBatch,
+  NewDocumentMessage,
+  NewDocumentRevision,
+  NewDocumentShareLink,
+  NewPromptTemplate,
+  NewPromptTemplateVersion,
+  NewWebhookDelivery,
+  PromptTemplate,
+  PromptTemplateUpdate,
+  PromptTemplateVersion,
+  RateLimitCounter,
+  UpdateJobOptions,
+  WebhookDelivery,
+  WebhookDeliveryUpdate
+} from './types';
+import { DOCUMENT_SUMMARY_COLUMNS } from './types';
+
+/**
+ * One Map per table, keyed by primary key - the same tables as the Supabase schema
+ */
+export interface RecordTables {
+  document_jobs: Map<string, DocumentJob>;
+  document_revisions: Map<string, DocumentRevision>;
+  document_messages: Map<string, DocumentMessage>;
+  document_share_links: Map<string, DocumentShareLink>;
+  webhook_deliveries: Map<string, WebhookDelivery>;
+  rate_limit_counters: Map<string, RateLimitCounter>;
+  document_batches: Map<string, DocumentBatch>;
+  prompt_templates: Map<string, PromptTemplate>;
+  prompt_template_versions: Map<string, PromptTemplateVersion>;
+}
+
+export type TableName = keyof RecordTables;
+
+export const PRIMARY_KEYS: { [K in TableName]: string } = {
+  document_jobs: 'job_id',
+  document_revisions: 'revision_id',
+  document_messages: 'message_id',
+  document_share_links: 'link_id',
+  webhook_deliveries: 'delivery_id',
+  rate_limit_counters: 'counter_id',
+  document_batches: 'batch_id',
+  prompt_templates: 'template_id',
+  prompt_template_versions: 'version_id'
+};
+
+export function createEmptyTables(): RecordTables {
+  return {
+    document_jobs: new Map(),
+    document_revisions: new Map(),
+    document_messages: new Map(),
+    document_share_links: new Map(),
+    webhook_deliveries: new Map(),
+    rate_limit_counters: new Map(),
+    document_batches: new Map(),
+    prompt_templates: new Map(),
+    prompt_template_versions: new Map()
+  };
+}
+
+/**
+ * Exclusive access to the record tables.
+ * `transaction` runs one callback at a time; with `write` the tables are persisted afterwards.
+ */
+export interface RecordStorage {
+  transaction<T>(fn: (tables: RecordTables) => T, options?: { write?: boolean }): Promise<T>;
+}
+
+/**
+ * Job store logic shared by the file and memory stores.
+ * Mirrors the Supabase table defaults (UUIDs, timestamps, updated_at trigger, unique idempotency key).
+ */
+export function createRecordJobStore(name: string, storage: RecordStorage): JobStore {
+  const read = <T>(fn: (records: Map<string, DocumentJob>) => T) =>
+    storage.transaction(tables => fn(tables.document_jobs));
+  const write = <T>(fn: (records: Map<string, DocumentJob>) => T) =>
+    storage.transaction(tables => fn(tables.document_jobs), { write: true });
+
+  return {
+    name,
+
+    createJob(prompt: string, options: CreateJobOptions = {}): Promise<DocumentJob | null> {
+      return write(records => {
+        if (options.idempotencyKey) {
+          const existing = findByIdempotencyKey(records, options.idempotencyKey, options.ownerId);
+          if (existing) return copy(existing);
+        }
+
+        const now = new Date().toISOString();
+        const job: DocumentJob = {
+          job_id: randomUUID(),
+          status: 'pending',
+          prompt,
+          payload: options.payload,
+          attempts: 0,
+          max_attempts: options.maxAttempts ?? 3,
+          next_attempt_at: now,
+          idempotency_key: options.idempotencyKey ?? null,
+          payload_hash: options.payloadHash ?? null,
+          document_id: options.documentId ?? null,
+          current_revision_id: null,
+          pinned: false,
+          owner_id: options.ownerId ?? null,
+          shared_with: [],
+          callback_url: options.callbackUrl ?? null,
+          batch_id: options.batchId ?? null,
+          created_at: now,
+          updated_at: now
+        };
+
+        records.set(job.job_id, job);
+        return copy(job);
+      });
+    },
+
+    getJob(jobId: string): Promise<DocumentJob | null> {
+      return read(records => copy(records.get(jobId) ?? null));
+    },
+
+    getJobByIdempotencyKey(idempotencyKey: string, ownerId?: string): Promise<DocumentJob | null> {
+      return read(records => copy(findByIdempotencyKey(records, idempotencyKey, ownerId)));
+    },
+
+    updateJob(jobId: string, updates: DocumentJobUpdate, options: UpdateJobOptions = {}): Promise<boolean> {
+      return write(records => {
+        const job = records.get(jobId);
+
+        if (!job) return false;
+        if (options.expectedStatus && !options.expectedStatus.includes(job.status)) return false;
+        if (options.updatedBefore && !(job.updated_at < options.updatedBefore)) return false;
+
+        records.set(jobId, touch({ ...job, ...updates }));
+        return true;
+      });
+    },
+
+    claimNextJob(workerId: string): Promise<DocumentJob | null> {
+      return write(records => {
+        const now = new Date().toISOString();
+        const next = Array.from(records.values())
+          .filter(job => job.status === 'pending' && job.next_attempt_at <= now)
+          .sort((a, b) => a.next_attempt_at.localeCompare(b.next_attempt_at))[0];
+
+        if (!next) return null;
+
+        const claimed = touch({
+          ...next,
+          status: 'processing',
+          attempts: next.attempts + 1,
+          locked_by: workerId,
+          locked_at: now
+        });
+        records.set(claimed.job_id, claimed);
+        return copy(claimed);
+      });
+    },
+
+    listStaleJobs(cutoff: string): Promise<DocumentJob[]> {
+      return read(records => Array.from(records.values())
+        .filter(job => job.status === 'processing' && job.updated_at < cutoff)
+        .map(job => copy(job)));
+    },
+
+    listExpiredJobs(cutoffs: RetentionCutoffs): Promise<DocumentSummary[]> {
+      return read(records => Array.from(records.values())
+        .filter(job => isExpired(job, cutoffs))
+        .map(toSummary));
+    },
+
+    deleteExpiredJobs(cutoffs: RetentionCutoffs): Promise<number> {
+      return storage.transaction(tables => {
+        const expiredIds = Array.from(tables.document_jobs.values())
+          .filter(job => isExpired(job, cutoffs))
+          .map(job => job.job_id);
+        return deleteJobsCascade(tables, expiredIds);
+      }, { write: true });
+    },
+
+    listDocuments(query: ListDocumentsQuery = {}): Promise<{ documents: DocumentSummary[]; total: number }> {
+      const { sortBy = 'created_at', ascending = false, offset = 0, limit = 20 } = query;
+
+      return read(records => {
+        const matching = Array.from(records.values())
+          .filter(job => !job.document_id)
+          .filter(job => !query.accessibleTo || isAccessibleTo(job, query.accessibleTo))
+          .filter(job => !query.status || query.status.includes(job.status))
+          .filter(job => !query.createdFrom || job.created_at >= query.createdFrom)
+          .filter(job => !query.createdTo || job.created_at <= query.createdTo)
+          .filter(job => !query.batchId || job.batch_id === query.batchId)
+          .sort((a, b) => (ascending ? 1 : -1) * a[sortBy].localeCompare(b[sortBy]));
+
+        return {
+          documents: matching.slice(offset, offset + limit).map(toSummary),
+          total: matching.length
+        };
+      });
+    },
+
+    deleteDocuments(documentIds: string[]): Promise<number> {
+      return storage.transaction(tables => {
+        const existing = documentIds.filter(documentId => tables.document_jobs.has(documentId));
+        deleteJobsCascade(tables, existing);
+        return existing.length;
+      }, { write: true });
+    },
+
+    createRevision(revision: NewDocumentRevision): Promise<DocumentRevision | null> {
+      return storage.transaction(tables => {
+        const numbers = Array.from(tables.document_revisions.values())
+          .filter(existing => existing.document_id === revision.document_id)
+          .map(existing => existing.revision_number);
+
+        const created: DocumentRevision = {
+          parent_revision_id: null,
+          job_id: null,
+          restored_from: null,
+          ...revision,
+          revision_id: randomUUID(),
+          revision_number: Math.max(0, ...numbers) + 1,
+          created_at: new Date().toISOString()
+        };
+
+        tables.document_revisions.set(created.revision_id, created);
+        return copy(created);
+      }, { write: true });
+    },
+
+    getRevision(revisionId: string): Promise<DocumentRevision | null> {
+      return storage.transaction(tables => copy(tables.document_revisions.get(revisionId) ?? null));
+    },
+
+    listRevisions(documentId: string): Promise<DocumentRevision[]> {
+      return storage.transaction(tables => Array.from(tables.document_revisions.values())
+        .filter(revision => revision.document_id === documentId)
+        .sort((a, b) => b.revision_number - a.revision_number)
+        .map(revision => copy(revision)));
+    },
+
+    addMessage(message: NewDocumentMessage): Promise<DocumentMessage | null> {
+      return storage.transaction(tables => {
+        const created: DocumentMessage = {
+          job_id: null,
+          error: null,
+          ...message,
+          message_id: randomUUID(),
+          created_at: new Date().toISOString()
+        };
+
+        tables.document_messages.set(created.message_id, created);
+        return copy(created);
+      }, { write: true });
+    },
+
+    listMessages(documentId: string): Promise<DocumentMessage[]> {
+      return storage.transaction(tables => Array.from(tables.document_messages.values())
+        .filter(message => message.document_id === documentId)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map(message => copy(message)));
+    },
+
+    createShareLink(link: NewDocumentShareLink): Promise<DocumentShareLink | null> {
+      return storage.transaction(tables => {
+        const created: DocumentShareLink = {
+          expires_at: null,
+          ...link,
+          link_id: randomUUID(),
+          revoked_at: null,
+          created_at: new Date().toISOString()
+        };
+
+        tables.document_share_links.set(created.link_id, created);
+        return copy(created);
+      }, { write: true });
+    },
+
+    getShareLinkByToken(token: string): Promise<DocumentShareLink | null> {
+      return storage.transaction(tables => copy(
+        Array.from(tables.document_share_links.values()).find(link => link.token === token) ?? null
+      ));
+    },
+
+    listShareLinks(documentId: string): Promise<DocumentShareLink[]> {
+      return storage.transaction(tables => Array.from(tables.document_share_links.values())
+        .filter(link => link.document_id === documentId)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .map(link => copy(link)));
+    },
+
+    revokeShareLink(documentId: string, linkId: string): Promise<boolean> {
+      return storage.transaction(tables => {
+        const link = tables.document_share_links.get(linkId);
+        if (!link || link.document_id !== documentId || link.revoked_at) return false;
+
+        tables.document_share_links.set(linkId, { ...link, revoked_at: new Date().toISOString() });
+        return true;
+      }, { write: true });
+    },
+
+    createWebhookDeliveries(deliveries: NewWebhookDelivery[]): Promise<WebhookDelivery[]> {
+      return storage.transaction(tables => deliveries.map(delivery => {
+        const now = new Date().toISOString();
+        const created: WebhookDelivery = {
+          ...delivery,
+          delivery_id: randomUUID(),
+          status: 'pending',
+          attempts: 0,
+          next_attempt_at: now,
+          response_status: null,
+          last_error: null,
+          delivered_at: null,
+          created_at: now,
+          updated_at: now
+        };
+
+        tables.webhook_deliveries.set(created.delivery_id, created);
+        return copy(created);
+      }), { write: true });
+    },
+
+    claimNextWebhookDelivery(leaseUntil: string): Promise<WebhookDelivery | null> {
+      return storage.transaction(tables => {
+        const now = new Date().toISOString();
+        const next = Array.from(tables.webhook_deliveries.values())
+          .filter(delivery => (delivery.status === 'pending' || delivery.status === 'delivering') && delivery.next_attempt_at <= now)
+          .sort((a, b) => a.next_attempt_at.localeCompare(b.next_attempt_at))[0];
+
+        if (!next) return null;
+
+        const claimed: WebhookDelivery = {
+          ...next,
+          status: 'delivering',
+          attempts: next.attempts + 1,
+          next_attempt_at: leaseUntil,
+          updated_at: now
+        };
+        tables.webhook_deliveries.set(claimed.delivery_id, claimed);
+        return copy(claimed);
+      }, { write: true });
+    },
+
+    updateWebhookDelivery(deliveryId: string, updates: WebhookDeliveryUpdate): Promise<boolean> {
+      return storage.transaction(tables => {
+        const delivery = tables.webhook_deliveries.get(deliveryId);
+        if (!delivery) return false;
+
+        tables.webhook_deliveries.set(deliveryId, { ...delivery, ...updates, updated_at: new Date().toISOString() });
+        return true;
+      }, { write: true });
+    },
+
+    listWebhookDeliveries(documentId: string): Promise<WebhookDelivery[]> {
+      return storage.transaction(tables => Array.from(tables.webhook_deliveries.values())
+        .filter(delivery => delivery.document_id === documentId)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .map(delivery => copy(delivery)));
+    },
+
+    createBatch(batch: NewDocumentBatch): Promise<DocumentBatch | null> {
+      return storage.transaction(tables => {
+        const created: DocumentBatch = {
+          template: null,
+          ...batch,
+          batch_id: randomUUID(),
+          created_at: new Date().toISOString()
+        };
+
+        tables.document_batches.set(created.batch_id, created);
+        return copy(created);
+      }, { write: true });
+    },
+
+    getBatch(batchId: string): Promise<DocumentBatch | null> {
+      return storage.transaction(tables => copy(tables.document_batches.get(batchId) ?? null));
+    },
+
+    listBatches(ownerId: string): Promise<DocumentBatch[]> {
+      return storage.transaction(tables => Array.from(tables.document_batches.values())
+        .filter(batch => batch.owner_id === ownerId)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .map(batch => copy(batch)));
+    },
+
+    createPromptTemplate(template: NewPromptTemplate): Promise<PromptTemplate | null> {
+      return storage.transaction(tables => {
+        const now = new Date().toISOString();
+        const created: PromptTemplate = {
+          description: null,
+          ...template,
+          template_id: randomUUID(),
+          version: 1,
+          archived_at: null,
+          created_at: now,
+          updated_at: now
+        };
+        const version: PromptTemplateVersion = {
+          version_id: randomUUID(),
+          template_id: created.template_id,
+          version: 1,
+          name: created.name,
+          description: created.description,
+          body: created.body,
+          variables: created.variables,
+          created_by: created.owner_id,
+          created_at: now
+        };
+
+        tables.prompt_templates.set(created.template_id, created);
+        tables.prompt_template_versions.set(version.version_id, version);
+        return copy(created);
+      }, { write: true });
+    },
+
+    getPromptTemplate(templateId: string): Promise<PromptTemplate | null> {
+      return storage.transaction(tables => copy(tables.prompt_templates.get(templateId) ?? null));
+    },
+
+    listPromptTemplates(): Promise<PromptTemplate[]> {
+      return storage.transaction(tables => Array.from(tables.prompt_templates.values())
+        .filter(template => !template.archived_at)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(template => copy(template)));
+    },
+
+    updatePromptTemplate(
+      templateId: string,
+      updates: PromptTemplateUpdate,
+      options: { expectedVersion?: number } = {}
+    ): Promise<boolean> {
+      return storage.transaction(tables => {
+        const template = tables.prompt_templates.get(templateId);
+        if (!template) return false;
+        if (options.expectedVersion !== undefined && template.version !== options.expectedVersion) return false;
+
+        tables.prompt_templates.set(templateId, { ...template, ...updates, updated_at: new Date().toISOString() });
+        return true;
+      }, { write: true });
+    },
+
+    createPromptTemplateVersion(version: NewPromptTemplateVersion): Promise<PromptTemplateVersion | null> {
+      return storage.transaction(tables => {
+        // Same as the unique (template_id, version) constraint
+        const taken = Array.from(tables.prompt_template_versions.values())
+          .some(existing => existing.template_id === version.template_id && existing.version === version.version);
+        if (taken) return null;
+
+        const created: PromptTemplateVersion = {
+          description: null,
+          ...version,
+          version_id: randomUUID(),
+          created_at: new Date().toISOString()
+        };
+
+        tables.prompt_template_versions.set(created.version_id, created);
+        return copy(created);
+      }, { write: true });
+    },
+
+    listPromptTemplateVersions(templateId: string): Promise<PromptTemplateVersion[]> {
+      return storage.transaction(tables => Array.from(tables.prompt_template_versions.values())
+        .filter(version => version.template_id === templateId)
+        .sort((a, b) => b.version - a.version)
+        .map(version => copy(version)));
+    },
+
+    incrementCounter(
+      counter: Pick<RateLimitCounter, 'key' | 'window_start' | 'expires_at'>,
+      amount: number
+    ): Promise<number | null> {
+      return storage.transaction(tables => {
+        const counters = tables.rate_limit_counters;
+        const now = new Date().toISOString();
+
+        // Windows that have ended are never read again
+        for (const [counterId, existing] of Array.from(counters.entries())) {
+          if (existing.expires_at < now) counters.delete(counterId);
+        }
+
+        const counterId = `${counter.key}@${counter.window_start}`;
+        const count = Math.max(0, (counters.get(counterId)?.count ?? 0) + amount);
+        counters.set(counterId, { ...counter, counter_id: counterId, count });
+        return count;
+      }, { write: true });
+    }
+  };
+}
+
+// Same as the ON DELETE CASCADE foreign keys on document_id
+function deleteJobsCascade(tables: RecordTables, jobIds: string[]): number {
+  const { document_jobs: records } = tables;
+  const deletedIds = new Set(jobIds.filter(jobId => records.has(jobId)));
+
+  for (const job of Array.from(records.values())) {
+    if (job.document_id && deletedIds.has(job.document_id)) {
+      deletedIds.add(job.job_id);
+    }
+  }
+
+  deletedIds.forEach(jobId => records.delete(jobId));
+  deleteByDocument(tables.document_revisions, deletedIds);
+  deleteByDocument(tables.document_messages, deletedIds);
+  deleteByDocument(tables.document_share_links, deletedIds);
+  deleteByDocument(tables.webhook_deliveries, deletedIds);
+  return deletedIds.size;
+}
+
+function isAccessibleTo(job: DocumentJob, user: { userId: string; email: string }): boolean {
+  return job.owner_id === user.userId || !!job.shared_with?.includes(user.email.toLowerCase());
+}
+
+function isExpired(job: DocumentJob, cutoffs: RetentionCutoffs): boolean {
+  const cutoff = cutoffs[job.status];
+  return !job.pinned && !!cutoff && job.updated_at < cutoff;
+}
+
+function toSummary(job: DocumentJob): DocumentSummary {
+  return Object.fromEntries(
+    DOCUMENT_SUMMARY_COLUMNS.map(column => [column, job[column] ?? null])
+  ) as DocumentSummary;
+}
+
+function deleteByDocument(rows: Map<string, { document_id: string }>, documentIds: Set<string>) {
+  for (const [key, row] of Array.from(rows.entries())) {
+    if (documentIds.has(row.document_id)) {
+      rows.delete(key);
+    }
+  }
+}
+
+// Keys are unique per owner, like the (owner_id, idempotency_key) index
+function findByIdempotencyKey(
+  records: Map<string, DocumentJob>,
+  idempotencyKey: string,
+  ownerId?: string
+): DocumentJob | null {
+  return Array.from(records.values())
+    .find(job => job.idempotency_key === idempotencyKey && (job.owner_id ?? null) === (ownerId ?? null)) ?? null;
+}
+
+// Same effect as the updated_at trigger on the Supabase table
+function touch(job: DocumentJob): DocumentJob {
+  return { ...job, updated_at: new Date().toISOString() };
+}
+
+// Callers get their own copy so they cannot mutate stored records
+function copy<T extends object | null>(record: T): T {
+  return record ? structuredClone(record) : record;
+}
+
+/**
+ * Serializes async callbacks within this process
+ */
+export function createMutex() {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return function runExclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const result = tail.then(fn, fn);
+    tail = result.catch(() => undefined);
+    return result;
+  };
+}
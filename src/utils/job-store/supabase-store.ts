@@ -0,0 +1,705 @@
+import { getSupabaseClient } from '@/utils/supabase';
+import { StorageError } from '@/utils/api-errors';
+import type {
+  CreateJobOptions,
+  DocumentBatch,
+  DocumentJob,
+  DocumentJobUpdate,
+  DocumentMessage,
+  DocumentRevision,
+  DocumentShareLink,
+  DocumentSummary,
+  JobStore,
+  ListDocumentsQuery,
+  RetentionCutoffs,
+  NewDocumentBatch,
+  NewDocumentMessage,
+  NewDocumentRevision,
+  NewDocumentShareLink,
+  NewPromptTemplate,
+  NewPromptTemplateVersion,
+  NewWebhookDelivery,
+  PromptTemplate,
+  PromptTemplateUpdate,
+  PromptTemplateVersion,
+  RateLimitCounter,
+  UpdateJobOptions,
+  WebhookDelivery,
+  WebhookDeliveryUpdate
+} from './types';
+import { DOCUMENT_SUMMARY_COLUMNS } from './types';
+
+/**
+ * Job store backed by the Supabase `document_jobs` table (see README-supabase.md).
+ * Jobs and revisions throw a StorageError when a query fails, so callers can tell it from a missing row.
+ */
+export function createSupabaseJobStore(): JobStore {
+  const supabase = getSupabaseClient();
+
+  const getJobByIdempotencyKey = async (idempotencyKey: string, ownerId?: string): Promise<DocumentJob | null> => {
+    const query = supabase
+      .from('document_jobs')
+      .select('*')
+      .eq('idempotency_key', idempotencyKey);
+    const { data, error } = await (ownerId ? query.eq('owner_id', ownerId) : query.is('owner_id', null)).maybeSingle();
+
+    if (error) {
+      console.error('Error retrieving document job by idempotency key:', error);
+      throw new StorageError();
+    }
+
+    return data;
+  };
+
+  return {
+    name: 'supabase',
+
+    async createJob(prompt: string, options: CreateJobOptions = {}): Promise<DocumentJob | null> {
+      const { data, error } = await supabase
+        .from('document_jobs')
+        .insert({
+          prompt,
+          payload: options.payload,
+          max_attempts: options.maxAttempts,
+          idempotency_key: options.idempotencyKey,
+          payload_hash: options.payloadHash,
+          document_id: options.documentId,
+          owner_id: options.ownerId,
+          callback_url: options.callbackUrl,
+          batch_id: options.batchId
+        })
+        .select()
+        .single();
+
+      if (error) {
+        // A concurrent request won the race for this idempotency key - hand back its job
+        if (error.code === '23505' && options.idempotencyKey) {
+          return getJobByIdempotencyKey(options.idempotencyKey, options.ownerId);
+        }
+
+        console.error('Error creating document job:', error);
+        throw new StorageError();
+      }
+
+      return data;
+    },
+
+    async getJob(jobId: string): Promise<DocumentJob | null> {
+      const { data, error } = await supabase
+        .from('document_jobs')
+        .select('*')
+        .eq('job_id', jobId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error retrieving document job:', error);
+        throw new StorageError();
+      }
+
+      return data;
+    },
+
+    getJobByIdempotencyKey,
+
+    async updateJob(
+      jobId: string,
+      updates: DocumentJobUpdate,
+      options: UpdateJobOptions = {}
+    ): Promise<boolean> {
+      let query = supabase
+        .from('document_jobs')
+        .update(updates)
+        .eq('job_id', jobId);
+
+      if (options.expectedStatus) {
+        query = query.in('status', options.expectedStatus);
+      }
+
+      if (options.updatedBefore) {
+        query = query.lt('updated_at', options.updatedBefore);
+      }
+
+      const { data, error } = await query.select('job_id');
+
+      if (error) {
+        console.error('Error updating document job:', error);
+        throw new StorageError();
+      }
+
+      return (data?.length || 0) > 0;
+    },
+
+    // The conditional update only succeeds if no other worker claimed the job first
+    async claimNextJob(workerId: string): Promise<DocumentJob | null> {
+      const now = new Date().toISOString();
+
+      const { data: candidates, error } = await supabase
+        .from('document_jobs')
+        .select('job_id, attempts')
+        .eq('status', 'pending')
+        .lte('next_attempt_at', now)
+        .order('next_attempt_at', { ascending: true })
+        .limit(5);
+
+      if (error) {
+        console.error('Error listing pending jobs:', error);
+        throw new StorageError();
+      }
+
+      for (const candidate of candidates || []) {
+        const { data: claimed, error: claimError } = await supabase
+          .from('document_jobs')
+          .update({
+            status: 'processing',
+            attempts: candidate.attempts + 1,
+            locked_by: workerId,
+            locked_at: now
+          })
+          .eq('job_id', candidate.job_id)
+          .eq('status', 'pending')
+          .eq('attempts', candidate.attempts)
+          .select();
+
+        if (claimError) {
+          console.error('Error claiming document job:', claimError);
+          throw new StorageError();
+        }
+
+        if (claimed && claimed.length > 0) {
+          return claimed[0];
+        }
+      }
+
+      return null;
+    },
+
+    async listStaleJobs(cutoff: string): Promise<DocumentJob[]> {
+      const { data, error } = await supabase
+        .from('document_jobs')
+        .select('*')
+        .eq('status', 'processing')
+        .lt('updated_at', cutoff);
+
+      if (error) {
+        console.error('Error listing stale document jobs:', error);
+        throw new StorageError();
+      }
+
+      return data || [];
+    },
+
+    async listDocuments(query: ListDocumentsQuery = {}): Promise<{ documents: DocumentSummary[]; total: number }> {
+      const { sortBy = 'created_at', ascending = false, offset = 0, limit = 20 } = query;
+
+      let request = supabase
+        .from('document_jobs')
+        .select(DOCUMENT_SUMMARY_COLUMNS.join(', '), { count: 'exact' })
+        .is('document_id', null);
+
+      if (query.accessibleTo) {
+        const { userId, email } = query.accessibleTo;
+        request = request.or(`owner_id.eq.${userId},shared_with.cs.{"${email.toLowerCase()}"}`);
+      }
+
+      if (query.status) {
+        request = request.in('status', query.status);
+      }
+
+      if (query.createdFrom) {
+        request = request.gte('created_at', query.createdFrom);
+      }
+
+      if (query.createdTo) {
+        request = request.lte('created_at', query.createdTo);
+      }
+
+      if (query.batchId) {
+        request = request.eq('batch_id', query.batchId);
+      }
+
+      const { data, count, error } = await request
+        .order(sortBy, { ascending })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        console.error('Error listing documents:', error);
+        return { documents: [], total: 0 };
+      }
+
+      return { documents: (data || []) as unknown as DocumentSummary[], total: count || 0 };
+    },
+
+    // Revisions, messages, share links and chat jobs go with their document (ON DELETE CASCADE)
+    async deleteDocuments(documentIds: string[]): Promise<number> {
+      const { data, error } = await supabase
+        .from('document_jobs')
+        .delete()
+        .in('job_id', documentIds)
+        .select('job_id');
+
+      if (error) {
+        console.error('Error deleting documents:', error);
+        return 0;
+      }
+
+      return data?.length || 0;
+    },
+
+    async listExpiredJobs(cutoffs: RetentionCutoffs): Promise<DocumentSummary[]> {
+      const expired: DocumentSummary[] = [];
+
+      for (const [status, cutoff] of Object.entries(cutoffs)) {
+        const { data, error } = await supabase
+          .from('document_jobs')
+          .select(DOCUMENT_SUMMARY_COLUMNS.join(', '))
+          .eq('status', status)
+          .eq('pinned', false)
+          .lt('updated_at', cutoff);
+
+        if (error) {
+          console.error(`Error listing expired ${status} jobs:`, error);
+          continue;
+        }
+
+        expired.push(...(data || []) as unknown as DocumentSummary[]);
+      }
+
+      return expired;
+    },
+
+    // Revisions, messages, share links and chat jobs of deleted documents go with them (ON DELETE CASCADE)
+    async deleteExpiredJobs(cutoffs: RetentionCutoffs): Promise<number> {
+      let deleted = 0;
+
+      for (const [status, cutoff] of Object.entries(cutoffs)) {
+        const { data, error } = await supabase
+          .from('document_jobs')
+          .delete()
+          .eq('status', status)
+          .eq('pinned', false)
+          .lt('updated_at', cutoff)
+          .select('job_id');
+
+        if (error) {
+          console.error(`Error deleting expired ${status} jobs:`, error);
+          continue;
+        }
+
+        deleted += data?.length || 0;
+      }
+
+      return deleted;
+    },
+
+    async createRevision(revision: NewDocumentRevision): Promise<DocumentRevision | null> {
+      // revision_number is assigned by the next_revision_number trigger (see README-supabase.md)
+      const { data, error } = await supabase
+        .from('document_revisions')
+        .insert(revision)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating document revision:', error);
+        throw new StorageError();
+      }
+
+      return data;
+    },
+
+    async getRevision(revisionId: string): Promise<DocumentRevision | null> {
+      const { data, error } = await supabase
+        .from('document_revisions')
+        .select('*')
+        .eq('revision_id', revisionId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error retrieving document revision:', error);
+        throw new StorageError();
+      }
+
+      return data;
+    },
+
+    async listRevisions(documentId: string): Promise<DocumentRevision[]> {
+      const { data, error } = await supabase
+        .from('document_revisions')
+        .select('*')
+        .eq('document_id', documentId)
+        .order('revision_number', { ascending: false });
+
+      if (error) {
+        console.error('Error listing document revisions:', error);
+        return [];
+      }
+
+      return data || [];
+    },
+
+    async addMessage(message: NewDocumentMessage): Promise<DocumentMessage | null> {
+      const { data, error } = await supabase
+        .from('document_messages')
+        .insert(message)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving document message:', error);
+        return null;
+      }
+
+      return data;
+    },
+
+    async listMessages(documentId: string): Promise<DocumentMessage[]> {
+      const { data, error } = await supabase
+        .from('document_messages')
+        .select('*')
+        .eq('document_id', documentId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error listing document messages:', error);
+        return [];
+      }
+
+      return data || [];
+    },
+
+    async createShareLink(link: NewDocumentShareLink): Promise<DocumentShareLink | null> {
+      const { data, error } = await supabase
+        .from('document_share_links')
+        .insert(link)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating share link:', error);
+        return null;
+      }
+
+      return data;
+    },
+
+    async getShareLinkByToken(token: string): Promise<DocumentShareLink | null> {
+      const { data, error } = await supabase
+        .from('document_share_links')
+        .select('*')
+        .eq('token', token)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error retrieving share link:', error);
+        return null;
+      }
+
+      return data;
+    },
+
+    async listShareLinks(documentId: string): Promise<DocumentShareLink[]> {
+      const { data, error } = await supabase
+        .from('document_share_links')
+        .select('*')
+        .eq('document_id', documentId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error listing share links:', error);
+        return [];
+      }
+
+      return data || [];
+    },
+
+    async revokeShareLink(documentId: string, linkId: string): Promise<boolean> {
+      const { data, error } = await supabase
+        .from('document_share_links')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('link_id', linkId)
+        .eq('document_id', documentId)
+        .is('revoked_at', null)
+        .select('link_id');
+
+      if (error) {
+        console.error('Error revoking share link:', error);
+        return false;
+      }
+
+      return (data?.length || 0) > 0;
+    },
+
+    async createWebhookDeliveries(deliveries: NewWebhookDelivery[]): Promise<WebhookDelivery[]> {
+      if (deliveries.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('webhook_deliveries')
+        .insert(deliveries)
+        .select();
+
+      if (error) {
+        console.error('Error queueing webhook deliveries:', error);
+        return [];
+      }
+
+      return data || [];
+    },
+
+    async claimNextWebhookDelivery(leaseUntil: string): Promise<WebhookDelivery | null> {
+      const now = new Date().toISOString();
+
+      const { data: candidates, error } = await supabase
+        .from('webhook_deliveries')
+        .select('delivery_id, attempts')
+        .in('status', ['pending', 'delivering'])
+        .lte('next_attempt_at', now)
+        .order('next_attempt_at', { ascending: true })
+        .limit(5);
+
+      if (error) {
+        console.error('Error listing due webhook deliveries:', error);
+        return null;
+      }
+
+      for (const candidate of candidates || []) {
+        // Matching on attempts makes the claim exclusive, like claimNextJob
+        const { data: claimed, error: claimError } = await supabase
+          .from('webhook_deliveries')
+          .update({
+            status: 'delivering',
+            attempts: candidate.attempts + 1,
+            next_attempt_at: leaseUntil
+          })
+          .eq('delivery_id', candidate.delivery_id)
+          .in('status', ['pending', 'delivering'])
+          .eq('attempts', candidate.attempts)
+          .select();
+
+        if (claimError) {
+          console.error('Error claiming webhook delivery:', claimError);
+          continue;
+        }
+
+        if (claimed && claimed.length > 0) {
+          return claimed[0];
+        }
+      }
+
+      return null;
+    },
+
+    async updateWebhookDelivery(deliveryId: string, updates: WebhookDeliveryUpdate): Promise<boolean> {
+      const { data, error } = await supabase
+        .from('webhook_deliveries')
+        .update(updates)
+        .eq('delivery_id', deliveryId)
+        .select('delivery_id');
+
+      if (error) {
+        console.error('Error updating webhook delivery:', error);
+        return false;
+      }
+
+      return (data?.length || 0) > 0;
+    },
+
+    async listWebhookDeliveries(documentId: string): Promise<WebhookDelivery[]> {
+      const { data, error } = await supabase
+        .from('webhook_deliveries')
+        .select('*')
+        .eq('document_id', documentId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error listing webhook deliveries:', error);
+        return [];
+      }
+
+      return data || [];
+    },
+
+    async createBatch(batch: NewDocumentBatch): Promise<DocumentBatch | null> {
+      const { data, error } = await supabase
+        .from('document_batches')
+        .insert(batch)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating batch:', error);
+        return null;
+      }
+
+      return data;
+    },
+
+    async getBatch(batchId: string): Promise<DocumentBatch | null> {
+      const { data, error } = await supabase
+        .from('document_batches')
+        .select('*')
+        .eq('batch_id', batchId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error retrieving batch:', error);
+        return null;
+      }
+
+      return data;
+    },
+
+    async listBatches(ownerId: string): Promise<DocumentBatch[]> {
+      const { data, error } = await supabase
+        .from('document_batches')
+        .select('*')
+        .eq('owner_id', ownerId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error listing batches:', error);
+        return [];
+      }
+
+      return data || [];
+    },
+
+    async createPromptTemplate(template: NewPromptTemplate): Promise<PromptTemplate | null> {
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .insert({ ...template, version: 1 })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating prompt template:', error);
+        return null;
+      }
+
+      const { error: versionError } = await supabase
+        .from('prompt_template_versions')
+        .insert({
+          template_id: data.template_id,
+          version: 1,
+          name: data.name,
+          description: data.description,
+          body: data.body,
+          variables: data.variables,
+          created_by: data.owner_id
+        });
+
+      if (versionError) {
+        console.error('Error saving the first prompt template version:', versionError);
+      }
+
+      return data;
+    },
+
+    async getPromptTemplate(templateId: string): Promise<PromptTemplate | null> {
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .select('*')
+        .eq('template_id', templateId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error retrieving prompt template:', error);
+        return null;
+      }
+
+      return data;
+    },
+
+    async listPromptTemplates(): Promise<PromptTemplate[]> {
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .select('*')
+        .is('archived_at', null)
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error listing prompt templates:', error);
+        return [];
+      }
+
+      return data || [];
+    },
+
+    async updatePromptTemplate(
+      templateId: string,
+      updates: PromptTemplateUpdate,
+      options: { expectedVersion?: number } = {}
+    ): Promise<boolean> {
+      let query = supabase
+        .from('prompt_templates')
+        .update(updates)
+        .eq('template_id', templateId);
+
+      if (options.expectedVersion !== undefined) {
+        query = query.eq('version', options.expectedVersion);
+      }
+
+      const { data, error } = await query.select('template_id');
+
+      if (error) {
+        console.error('Error updating prompt template:', error);
+        return false;
+      }
+
+      return (data?.length || 0) > 0;
+    },
+
+    // The unique (template_id, version) constraint turns away a concurrent save of the same version
+    async createPromptTemplateVersion(version: NewPromptTemplateVersion): Promise<PromptTemplateVersion | null> {
+      const { data, error } = await supabase
+        .from('prompt_template_versions')
+        .insert(version)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code !== '23505') {
+          console.error('Error saving prompt template version:', error);
+        }
+        return null;
+      }
+
+      return data;
+    },
+
+    async listPromptTemplateVersions(templateId: string): Promise<PromptTemplateVersion[]> {
+      const { data, error } = await supabase
+        .from('prompt_template_versions')
+        .select('*')
+        .eq('template_id', templateId)
+        .order('version', { ascending: false });
+
+      if (error) {
+        console.error('Error listing prompt template versions:', error);
+        return [];
+      }
+
+      return data || [];
+    },
+
+    async incrementCounter(
+      counter: Pick<RateLimitCounter, 'key' | 'window_start' | 'expires_at'>,
+      amount: number
+    ): Promise<number | null> {
+      // An upsert in SQL (see README-supabase.md), so concurrent requests cannot lose an increment
+      const { data, error } = await supabase.rpc('increment_rate_limit_counter', {
+        p_counter_id: `${counter.key}@${counter.window_start}`,
+        p_key: counter.key,
+        p_window_start: counter.window_start,
+        p_expires_at: counter.expires_at,
+        p_amount: amount
+      });
+
+      if (error) {
+        console.error('Error updating rate limit counter:', error);
+        return null;
+      }
+
+      return data;
+    }
+  };
+}
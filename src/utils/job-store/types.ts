@@ -0,0 +1,418 @@
+import type { GenerationRequest, GeneratorResult } from '@/utils/generators';
+import type { SanitizeReport } from '@/utils/html-sanitizer/types';
+import type { ErrorCode } from '@/utils/api-errors';
+import type { WebhookEvent, WebhookPayload } from '@/utils/webhooks/payload';
+import type { TemplateVariable } from '@/utils/prompt-templates/variables';
+
+// Type definitions for our document jobs
+export interface DocumentJob {
+  job_id: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  prompt: string;
+  html?: string;
+  project_id?: string;
+  error?: string | null;
+  // Why a failed job failed (see src/utils/api-errors.ts)
+  error_code?: ErrorCode | null;
+  // Validated generator output (see src/utils/generators/result.ts)
+  result?: GeneratorResult | null;
+  // Latest progress message reported by the generator
+  progress_message?: string | null;
+  // Queue bookkeeping
+  payload?: GenerationRequest;
+  attempts: number;
+  max_attempts: number;
+  last_error?: string | null;
+  next_attempt_at: string;
+  locked_by?: string | null;
+  locked_at?: string | null;
+  // Set when the stale job reaper requeued or failed the job
+  reaped_at?: string | null;
+  reaper_note?: string | null;
+  // Client-supplied Idempotency-Key and the hash of the payload it was first used with
+  idempotency_key?: string | null;
+  payload_hash?: string | null;
+  // Chat edits run as their own job; document_id points at the job that owns the document
+  document_id?: string | null;
+  // Revision currently shown for a document (set on the document's own job)
+  current_revision_id?: string | null;
+  // Pinned jobs are never removed by the retention cleanup
+  pinned?: boolean;
+  // User who submitted the job
+  owner_id?: string | null;
+  // Lower-cased emails of other users who may read and edit the document
+  shared_with?: string[] | null;
+  // Called when the job completes, fails or is cancelled, in addition to WEBHOOK_URLS
+  callback_url?: string | null;
+  // Batch the document was submitted with (see DocumentBatch)
+  batch_id?: string | null;
+  // What the sanitizer removed from the generated HTML (null when nothing was)
+  sanitize_report?: SanitizeReport | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type DocumentJobStatus = DocumentJob['status'];
+
+export type DocumentJobUpdate = Partial<Omit<DocumentJob, 'job_id' | 'created_at' | 'updated_at'>>;
+
+export interface CreateJobOptions {
+  payload?: GenerationRequest;
+  maxAttempts?: number;
+  idempotencyKey?: string;
+  payloadHash?: string;
+  documentId?: string;
+  ownerId?: string;
+  callbackUrl?: string;
+  batchId?: string;
+}
+
+// A saved version of a document's HTML and the prompt that produced it
+export interface DocumentRevision {
+  revision_id: string;
+  // job_id of the document's original job
+  document_id: string;
+  parent_revision_id?: string | null;
+  // 1, 2, 3... per document
+  revision_number: number;
+  // Job that generated this revision (null for restores)
+  job_id?: string | null;
+  prompt: string;
+  html: string;
+  source: 'generated' | 'restored';
+  // Revision whose HTML was copied when source is `restored`
+  restored_from?: string | null;
+  created_at: string;
+}
+
+export type NewDocumentRevision = Omit<DocumentRevision, 'revision_id' | 'revision_number' | 'created_at'>;
+
+// One chat turn on a document: the user's prompt or the assistant's reply
+export interface DocumentMessage {
+  message_id: string;
+  // job_id of the document's original job
+  document_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  // Job the message belongs to (null for messages not tied to a job, e.g. restores)
+  job_id?: string | null;
+  // Set on assistant replies for failed jobs
+  error?: string | null;
+  created_at: string;
+}
+
+export type NewDocumentMessage = Omit<DocumentMessage, 'message_id' | 'created_at'>;
+
+// A read-only link to a document that works without an account
+export interface DocumentShareLink {
+  link_id: string;
+  // job_id of the document's original job
+  document_id: string;
+  // Random secret in the link's URL
+  token: string;
+  // User who created the link
+  created_by: string;
+  // The link stops working after this ISO timestamp (null never expires)
+  expires_at?: string | null;
+  revoked_at?: string | null;
+  created_at: string;
+}
+
+export type NewDocumentShareLink = Omit<DocumentShareLink, 'link_id' | 'revoked_at' | 'created_at'>;
+
+// One webhook call for a finished job; the rows are the delivery log
+export interface WebhookDelivery {
+  delivery_id: string;
+  // job_id of the document's original job
+  document_id: string;
+  // The job that finished (the document's own job or a chat edit)
+  job_id: string;
+  event: WebhookEvent;
+  url: string;
+  // The JSON body that is signed and sent on every attempt
+  payload: WebhookPayload;
+  status: 'pending' | 'delivering' | 'delivered' | 'failed';
+  attempts: number;
+  max_attempts: number;
+  // When the next attempt is due; while `delivering`, when the running attempt counts as lost
+  next_attempt_at: string;
+  // HTTP status of the last attempt (null when there was no response)
+  response_status?: number | null;
+  last_error?: string | null;
+  delivered_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WebhookDeliveryStatus = WebhookDelivery['status'];
+
+export type NewWebhookDelivery = Pick<
+  WebhookDelivery,
+  'document_id' | 'job_id' | 'event' | 'url' | 'payload' | 'max_attempts'
+>;
+
+export type WebhookDeliveryUpdate = Partial<Pick<
+  WebhookDelivery,
+  'status' | 'next_attempt_at' | 'response_status' | 'last_error' | 'delivered_at'
+>>;
+
+// Documents submitted together from one uploaded file of prompts
+export interface DocumentBatch {
+  batch_id: string;
+  owner_id: string;
+  // Name of the uploaded file, or one given by the user
+  name: string;
+  // Shared prompt template the rows were filled into (null when every row had its own prompt)
+  template?: string | null;
+  // Number of documents queued for the batch
+  total: number;
+  created_at: string;
+}
+
+export type NewDocumentBatch = Omit<DocumentBatch, 'batch_id' | 'created_at'>;
+
+// A saved prompt with typed variables, shared with every user; the fields are those of its latest version
+export interface PromptTemplate {
+  template_id: string;
+  // User who created the template; only they may archive it
+  owner_id: string;
+  name: string;
+  description?: string | null;
+  // Prompt text with {{variable}} placeholders
+  body: string;
+  variables: TemplateVariable[];
+  // Number of the latest version: 1, 2, 3...
+  version: number;
+  // Archived templates are hidden from the library; their versions are kept
+  archived_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewPromptTemplate = Pick<PromptTemplate, 'owner_id' | 'name' | 'description' | 'body' | 'variables'>;
+
+export type PromptTemplateUpdate = Partial<Pick<
+  PromptTemplate,
+  'name' | 'description' | 'body' | 'variables' | 'version' | 'archived_at'
+>>;
+
+// A saved state of a prompt template; every change creates one
+export interface PromptTemplateVersion {
+  version_id: string;
+  template_id: string;
+  version: number;
+  name: string;
+  description?: string | null;
+  body: string;
+  variables: TemplateVariable[];
+  // User who saved this version
+  created_by: string;
+  created_at: string;
+}
+
+export type NewPromptTemplateVersion = Omit<PromptTemplateVersion, 'version_id' | 'created_at'>;
+
+// Requests counted in one fixed window, for rate limits and quotas
+export interface RateLimitCounter {
+  // `<key>@<window_start>`
+  counter_id: string;
+  // What is counted, e.g. `user:<id>` or `quota:<id>`
+  key: string;
+  window_start: string;
+  count: number;
+  // End of the window; the row can be removed afterwards
+  expires_at: string;
+}
+
+export interface ListDocumentsQuery {
+  // Only documents this user owns or that are shared with their email
+  accessibleTo?: { userId: string; email: string };
+  status?: DocumentJobStatus[];
+  // ISO timestamps, inclusive
+  createdFrom?: string;
+  createdTo?: string;
+  // Only documents of this batch
+  batchId?: string;
+  sortBy?: 'created_at' | 'updated_at' | 'status';
+  ascending?: boolean;
+  offset?: number;
+  limit?: number;
+}
+
+// Document jobs without their (potentially large) HTML and result, for listings
+export type DocumentSummary = Pick<
+  DocumentJob,
+  | 'job_id' | 'status' | 'prompt' | 'project_id' | 'error' | 'error_code' | 'current_revision_id' | 'pinned'
+  | 'owner_id' | 'batch_id' | 'created_at' | 'updated_at'
+>;
+
+export const DOCUMENT_SUMMARY_COLUMNS: (keyof DocumentSummary)[] = [
+  'job_id', 'status', 'prompt', 'project_id', 'error', 'error_code', 'current_revision_id', 'pinned',
+  'owner_id', 'batch_id', 'created_at', 'updated_at'
+];
+
+// Per status: jobs last updated before this ISO timestamp have expired. Statuses without a cutoff never expire.
+export type RetentionCutoffs = Partial<Record<DocumentJobStatus, string>>;
+
+export interface UpdateJobOptions {
+  // Only apply while the job is still in one of these states
+  expectedStatus?: DocumentJobStatus[];
+  // Only apply if nobody touched the job since this timestamp
+  updatedBefore?: string;
+}
+
+/**
+ * Persistence for document jobs.
+ * Implementations: Supabase (production), JSON file (local development), memory (tests).
+ * Job and revision methods throw a StorageError when the storage cannot be reached; null and false
+ * only mean that the row does not exist or that an expected status did not match.
+ */
+export interface JobStore {
+  readonly name: string;
+
+  /**
+   * Create a new document generation job.
+   * If the owner already has a job with the same idempotency key, that job is returned instead.
+   */
+  createJob(prompt: string, options?: CreateJobOptions): Promise<DocumentJob | null>;
+
+  getJob(jobId: string): Promise<DocumentJob | null>;
+
+  /**
+   * The owner's job with this idempotency key; keys are unique per owner
+   */
+  getJobByIdempotencyKey(idempotencyKey: string, ownerId?: string): Promise<DocumentJob | null>;
+
+  /**
+   * Update a job's status and data; resolves to whether a job was actually changed,
+   * false when it does not exist or its status is not one of `expectedStatus`
+   */
+  updateJob(jobId: string, updates: DocumentJobUpdate, options?: UpdateJobOptions): Promise<boolean>;
+
+  /**
+   * Atomically claim the next pending job that is due for an attempt
+   */
+  claimNextJob(workerId: string): Promise<DocumentJob | null>;
+
+  /**
+   * Jobs stuck in `processing` that have not been updated since the cutoff
+   */
+  listStaleJobs(cutoff: string): Promise<DocumentJob[]>;
+
+  /**
+   * A page of documents (jobs that are not chat edits of another document) and the total matching the filters
+   */
+  listDocuments(query?: ListDocumentsQuery): Promise<{ documents: DocumentSummary[]; total: number }>;
+
+  /**
+   * Delete documents with their revisions, messages, share links, webhook deliveries and chat jobs;
+   * resolves to the number of documents deleted
+   */
+  deleteDocuments(documentIds: string[]): Promise<number>;
+
+  /**
+   * Unpinned jobs whose status has a cutoff and that were last updated before it
+   */
+  listExpiredJobs(cutoffs: RetentionCutoffs): Promise<DocumentSummary[]>;
+
+  /**
+   * Delete the jobs listExpiredJobs would return, with the revisions, messages, share links,
+   * webhook deliveries and chat jobs of deleted documents; resolves to the number of jobs deleted
+   */
+  deleteExpiredJobs(cutoffs: RetentionCutoffs): Promise<number>;
+
+  /**
+   * Save a new revision; the store assigns the next revision number for the document
+   */
+  createRevision(revision: NewDocumentRevision): Promise<DocumentRevision | null>;
+
+  getRevision(revisionId: string): Promise<DocumentRevision | null>;
+
+  /**
+   * All revisions of a document, newest first
+   */
+  listRevisions(documentId: string): Promise<DocumentRevision[]>;
+
+  addMessage(message: NewDocumentMessage): Promise<DocumentMessage | null>;
+
+  /**
+   * The document's chat, oldest first
+   */
+  listMessages(documentId: string): Promise<DocumentMessage[]>;
+
+  createShareLink(link: NewDocumentShareLink): Promise<DocumentShareLink | null>;
+
+  getShareLinkByToken(token: string): Promise<DocumentShareLink | null>;
+
+  /**
+   * All share links of a document, including expired and revoked ones, newest first
+   */
+  listShareLinks(documentId: string): Promise<DocumentShareLink[]>;
+
+  /**
+   * Revoke a document's share link; resolves to whether an active link was revoked
+   */
+  revokeShareLink(documentId: string, linkId: string): Promise<boolean>;
+
+  createWebhookDeliveries(deliveries: NewWebhookDelivery[]): Promise<WebhookDelivery[]>;
+
+  /**
+   * Atomically claim the next delivery that is due (or whose last attempt was lost),
+   * counting an attempt and marking it `delivering` until `leaseUntil`
+   */
+  claimNextWebhookDelivery(leaseUntil: string): Promise<WebhookDelivery | null>;
+
+  updateWebhookDelivery(deliveryId: string, updates: WebhookDeliveryUpdate): Promise<boolean>;
+
+  /**
+   * The delivery log of a document, newest first
+   */
+  listWebhookDeliveries(documentId: string): Promise<WebhookDelivery[]>;
+
+  createBatch(batch: NewDocumentBatch): Promise<DocumentBatch | null>;
+
+  getBatch(batchId: string): Promise<DocumentBatch | null>;
+
+  /**
+   * The user's batches, newest first
+   */
+  listBatches(ownerId: string): Promise<DocumentBatch[]>;
+
+  /**
+   * Create a template at version 1 together with its first version record
+   */
+  createPromptTemplate(template: NewPromptTemplate): Promise<PromptTemplate | null>;
+
+  getPromptTemplate(templateId: string): Promise<PromptTemplate | null>;
+
+  /**
+   * Templates that are not archived, by name
+   */
+  listPromptTemplates(): Promise<PromptTemplate[]>;
+
+  /**
+   * Update a template; with `expectedVersion`, only while it is still at that version.
+   * Resolves to whether the template was changed.
+   */
+  updatePromptTemplate(
+    templateId: string,
+    updates: PromptTemplateUpdate,
+    options?: { expectedVersion?: number }
+  ): Promise<boolean>;
+
+  createPromptTemplateVersion(version: NewPromptTemplateVersion): Promise<PromptTemplateVersion | null>;
+
+  /**
+   * All versions of a template, newest first
+   */
+  listPromptTemplateVersions(templateId: string): Promise<PromptTemplateVersion[]>;
+
+  /**
+   * Atomically add `amount` (which may be 0 or negative) to a rate limit counter, creating it at 0,
+   * and resolve to the new count; null when the store could not be reached
+   */
+  incrementCounter(
+    counter: Pick<RateLimitCounter, 'key' | 'window_start' | 'expires_at'>,
+    amount: number
+  ): Promise<number | null>;
+}
@@ -0,0 +1,101 @@
+import { getJobStore, PromptTemplate } from '@/utils/job-store';
+import { ApiError, StorageError, ValidationError } from '@/utils/api-errors';
+import { checkTemplateDefinition, TemplateVariable } from './variables';
+
+export { fillPlaceholders, getPlaceholders } from './placeholders';
+export {
+  checkTemplateDefinition,
+  getDefaultValues,
+  renderPromptTemplate,
+  validateTemplateValues,
+  TEMPLATE_VARIABLE_TYPES
+} from './variables';
+export type { TemplateValues, TemplateVariable, TemplateVariableType } from './variables';
+
+const MAX_NAME_LENGTH = 120;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+// What a user submits to create a template or save a new version of it
+export interface PromptTemplateInput {
+  name: string;
+  description: string | null;
+  body: string;
+  variables: TemplateVariable[];
+}
+
+/**
+ * Check a create or save request body. Throws ValidationError listing every problem.
+ */
+export function readPromptTemplateInput(data: unknown): PromptTemplateInput {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+
+  const { name, description, body, variables } = data as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+    throw new ValidationError(`name is required and must be at most ${MAX_NAME_LENGTH} characters`, { field: 'name' });
+  }
+
+  if (description !== undefined && description !== null
+    && (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+    throw new ValidationError(`description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters`, { field: 'description' });
+  }
+
+  return {
+    name: name.trim(),
+    description: typeof description === 'string' && description.trim() ? description.trim() : null,
+    body: typeof body === 'string' ? body.trim() : '',
+    variables: checkTemplateDefinition(body, variables)
+  };
+}
+
+/**
+ * Save a change as the template's next version.
+ * `baseVersion` is the version the user edited; if someone saved in between, throws a version_conflict ApiError.
+ */
+export async function savePromptTemplateVersion(
+  template: PromptTemplate,
+  input: PromptTemplateInput,
+  userId: string,
+  baseVersion: number
+): Promise<PromptTemplate> {
+  if (baseVersion !== template.version) {
+    throw versionConflict(template);
+  }
+
+  const store = getJobStore();
+  const next = template.version + 1;
+
+  // The version record is written first: only one concurrent save can take the number
+  const version = await store.createPromptTemplateVersion({
+    template_id: template.template_id,
+    version: next,
+    ...input,
+    created_by: userId
+  });
+
+  if (!version) {
+    const current = await store.getPromptTemplate(template.template_id);
+    if (current && current.version !== template.version) throw versionConflict(current);
+    throw new StorageError('Could not save the template, please try again');
+  }
+
+  const updated = await store.updatePromptTemplate(template.template_id, { ...input, version: next }, {
+    expectedVersion: template.version
+  });
+
+  if (!updated) {
+    throw new StorageError('Could not save the template, please try again');
+  }
+
+  return { ...template, ...input, version: next, updated_at: version.created_at };
+}
+
+function versionConflict(current: PromptTemplate): ApiError {
+  return new ApiError(
+    'version_conflict',
+    `The template was changed by someone else in the meantime (now version ${current.version}); reload it and apply your changes again`,
+    { currentVersion: current.version }
+  );
+}
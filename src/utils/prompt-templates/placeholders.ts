@@ -0,0 +1,34 @@
+const PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/**
+ * Names used in `{{name}}` placeholders, lower-cased, in order of first use
+ */
+export function getPlaceholders(template: string): string[] {
+  const names = Array.from(template.matchAll(PLACEHOLDER), match => match[1].toLowerCase());
+  return Array.from(new Set(names));
+}
+
+/**
+ * Replace `{{name}}` placeholders (matched case-insensitively) with values; names without a value are reported
+ * and left in place. With `allowEmpty`, an empty string counts as a value.
+ */
+export function fillPlaceholders(
+  template: string,
+  values: Record<string, string>,
+  allowEmpty: boolean = false
+): { text: string; missing: string[] } {
+  const missing = new Set<string>();
+  const text = template.replace(PLACEHOLDER, (placeholder, name: string) => {
+    // Own string values only, so names like {{constructor}} never reach Object.prototype
+    const key = name.toLowerCase();
+    const raw = Object.hasOwn(values, key) ? values[key] : undefined;
+    const value = typeof raw === 'string' ? raw.trim() : undefined;
+    if (value === undefined || (!value && !allowEmpty)) {
+      missing.add(name.toLowerCase());
+      return placeholder;
+    }
+    return value;
+  });
+
+  return { text, missing: Array.from(missing) };
+}
@@ -0,0 +1,226 @@
+import { ValidationError } from '@/utils/api-errors';
+import { fillPlaceholders, getPlaceholders } from './placeholders';
+
+// Template definitions and rendering, shared by the template form in the browser and the API routes
+
+export type TemplateVariableType = 'text' | 'number' | 'select' | 'date';
+
+export const TEMPLATE_VARIABLE_TYPES: TemplateVariableType[] = ['text', 'number', 'select', 'date'];
+
+export interface TemplateVariable {
+  // Used as {{name}} in the template body
+  name: string;
+  // Field label in the form
+  label: string;
+  type: TemplateVariableType;
+  required?: boolean;
+  // Choices of a select variable
+  options?: string[];
+  // Bounds of a number variable
+  min?: number;
+  max?: number;
+  defaultValue?: string;
+  // Hint shown below the field
+  help?: string;
+}
+
+// Form values by variable name, as entered (dates as YYYY-MM-DD)
+export type TemplateValues = Record<string, string>;
+
+const MAX_BODY_LENGTH = 20000;
+const MAX_VARIABLES = 30;
+const MAX_TEXT_VALUE_LENGTH = 2000;
+const VARIABLE_NAME = /^[a-z][a-z0-9_]{0,39}$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check a template body and its variable definitions before they are saved.
+ * Every placeholder must be defined and every variable used. Resolves to the variables without unknown fields;
+ * throws ValidationError listing every problem found.
+ */
+export function checkTemplateDefinition(body: unknown, variables: unknown): TemplateVariable[] {
+  const issues: string[] = [];
+
+  if (typeof body !== 'string' || !body.trim()) {
+    issues.push('body is required');
+  } else if (body.length > MAX_BODY_LENGTH) {
+    issues.push(`body must be at most ${MAX_BODY_LENGTH} characters`);
+  }
+
+  if (!Array.isArray(variables)) {
+    issues.push('variables must be an array');
+  } else if (variables.length > MAX_VARIABLES) {
+    issues.push(`At most ${MAX_VARIABLES} variables per template`);
+  }
+
+  const checked: TemplateVariable[] = [];
+  (Array.isArray(variables) ? variables : []).forEach((entry, index) => {
+    const variable = readVariable(entry, `variables[${index}]`, issues);
+    if (!variable) return;
+
+    if (checked.some(other => other.name === variable.name)) {
+      issues.push(`${variable.name} is defined twice`);
+      return;
+    }
+    checked.push(variable);
+  });
+
+  if (typeof body === 'string') {
+    const used = getPlaceholders(body);
+    used.filter(name => !checked.some(variable => variable.name === name))
+      .forEach(name => issues.push(`{{${name}}} is used in the body but not defined`));
+    checked.filter(variable => !used.includes(variable.name))
+      .forEach(variable => issues.push(`${variable.name} is defined but not used in the body`));
+  }
+
+  if (issues.length > 0) {
+    throw new ValidationError(
+      issues.length === 1 ? issues[0] : `The template has ${issues.length} problems, starting with: ${issues[0]}`,
+      { issues }
+    );
+  }
+
+  return checked;
+}
+
+/**
+ * Problems with the entered values, by variable name; empty when the form can be submitted
+ */
+export function validateTemplateValues(variables: TemplateVariable[], values: TemplateValues): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  for (const variable of variables) {
+    const error = checkValue(variable, values[variable.name] ?? '');
+    if (error) errors[variable.name] = error;
+  }
+
+  return errors;
+}
+
+/**
+ * The final prompt for the entered values, with the errors that keep it from being submitted.
+ * Missing required values stay visible as `{{name}}`; empty optional ones are left out.
+ */
+export function renderPromptTemplate(
+  body: string,
+  variables: TemplateVariable[],
+  values: TemplateValues
+): { prompt: string; errors: Record<string, string> } {
+  const errors = validateTemplateValues(variables, values);
+  const formatted: Record<string, string> = {};
+
+  for (const variable of variables) {
+    const value = (values[variable.name] ?? '').trim();
+    if (value) {
+      formatted[variable.name] = variable.type === 'date' && !errors[variable.name] ? formatDate(value) : value;
+    } else if (!variable.required) {
+      formatted[variable.name] = '';
+    }
+  }
+
+  return { prompt: fillPlaceholders(body, formatted, true).text.trim(), errors };
+}
+
+/**
+ * Initial form values: each variable's default, or empty
+ */
+export function getDefaultValues(variables: TemplateVariable[]): TemplateValues {
+  return Object.fromEntries(variables.map(variable => [variable.name, variable.defaultValue ?? '']));
+}
+
+function checkValue(variable: TemplateVariable, rawValue: string): string | null {
+  const value = rawValue.trim();
+
+  if (!value) {
+    return variable.required ? `${variable.label} is required` : null;
+  }
+
+  switch (variable.type) {
+    case 'text':
+      return value.length > MAX_TEXT_VALUE_LENGTH ? `${variable.label} must be at most ${MAX_TEXT_VALUE_LENGTH} characters` : null;
+    case 'number': {
+      const number = Number(value);
+      if (!isFinite(number)) return `${variable.label} must be a number`;
+      if (variable.min !== undefined && number < variable.min) return `${variable.label} must be at least ${variable.min}`;
+      if (variable.max !== undefined && number > variable.max) return `${variable.label} must be at most ${variable.max}`;
+      return null;
+    }
+    case 'select':
+      return variable.options?.includes(value) ? null : `${variable.label} must be one of the listed options`;
+    case 'date':
+      return ISO_DATE.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`)) ? null : `${variable.label} must be a date`;
+  }
+}
+
+function readVariable(entry: unknown, path: string, issues: string[]): TemplateVariable | null {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    issues.push(`${path} must be an object`);
+    return null;
+  }
+
+  const fields = entry as Record<string, unknown>;
+  const name = typeof fields.name === 'string' ? fields.name.trim() : '';
+  if (!VARIABLE_NAME.test(name)) {
+    issues.push(`${path}.name must start with a letter and use only lower-case letters, digits and underscores`);
+    return null;
+  }
+
+  if (!TEMPLATE_VARIABLE_TYPES.includes(fields.type as TemplateVariableType)) {
+    issues.push(`${name}: type must be one of ${TEMPLATE_VARIABLE_TYPES.join(', ')}`);
+    return null;
+  }
+
+  const variable: TemplateVariable = {
+    name,
+    label: typeof fields.label === 'string' && fields.label.trim() ? fields.label.trim() : name,
+    type: fields.type as TemplateVariableType,
+    required: fields.required === true
+  };
+
+  if (typeof fields.help === 'string' && fields.help.trim()) {
+    variable.help = fields.help.trim();
+  }
+
+  if (variable.type === 'select') {
+    const options = Array.isArray(fields.options)
+      ? fields.options.filter((option): option is string => typeof option === 'string').map(option => option.trim()).filter(Boolean)
+      : [];
+    if (options.length === 0) {
+      issues.push(`${name}: a select variable needs at least one option`);
+    }
+    variable.options = Array.from(new Set(options));
+  }
+
+  if (variable.type === 'number') {
+    for (const bound of ['min', 'max'] as const) {
+      const value = fields[bound];
+      if (value === undefined || value === null || value === '') continue;
+      if (typeof value !== 'number' || !isFinite(value)) {
+        issues.push(`${name}: ${bound} must be a number`);
+      } else {
+        variable[bound] = value;
+      }
+    }
+    if (variable.min !== undefined && variable.max !== undefined && variable.min > variable.max) {
+      issues.push(`${name}: min must not be greater than max`);
+    }
+  }
+
+  if (typeof fields.defaultValue === 'string' && fields.defaultValue.trim()) {
+    variable.defaultValue = fields.defaultValue.trim();
+    const error = checkValue({ ...variable, required: false }, variable.defaultValue);
+    if (error) issues.push(`${name}: default value is invalid (${error})`);
+  }
+
+  return variable;
+}
+
+// 2026-10-18 -> 18 October 2026, the same on the server and in the browser
+function formatDate(value: string): string {
+  return new Date(`${value}T00:00:00Z`).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC'
+  });
+}
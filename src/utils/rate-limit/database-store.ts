@@ -0,0 +1,22 @@
+import { getJobStore } from '@/utils/job-store';
+import type { RateLimitStore, RateLimitWindow } from './types';
+
+/**
+ * Counts in the job store's `rate_limit_counters` table, shared by every server process
+ */
+export function createDatabaseRateLimitStore(): RateLimitStore {
+  return {
+    name: 'database',
+
+    async increment(key: string, window: RateLimitWindow, amount: number = 1): Promise<number> {
+      const count = await getJobStore().incrementCounter({
+        key,
+        window_start: window.start,
+        expires_at: window.end
+      }, amount);
+
+      // Fail open: an unreachable counter table should not stop everyone from generating documents
+      return count ?? 0;
+    }
+  };
+}
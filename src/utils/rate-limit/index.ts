@@ -0,0 +1,158 @@
+import type { NextRequest } from 'next/server';
+import { RateLimitError } from '@/utils/api-errors';
+import { createDatabaseRateLimitStore } from './database-store';
+import { createMemoryRateLimitStore } from './memory-store';
+import type { LimitStatus, RateLimitStore, RateLimitWindow } from './types';
+
+export type { LimitStatus, RateLimitStore, RateLimitWindow } from './types';
+export { createDatabaseRateLimitStore, createMemoryRateLimitStore };
+
+export type RateLimitStoreKind = 'memory' | 'database';
+
+// Limits on job submissions, overridable through the environment; 0 turns a limit off
+const WINDOW_MS = Number(process.env.RATE_LIMIT_WINDOW_MS || 60 * 1000);
+const PER_USER = Number(process.env.RATE_LIMIT_PER_USER || 10);
+const PER_CLIENT = Number(process.env.RATE_LIMIT_PER_CLIENT || 30);
+const DAILY_QUOTA = Number(process.env.JOB_DAILY_QUOTA || 50);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let cachedStore: RateLimitStore | null = null;
+
+/**
+ * Resolve the counter store selected by RATE_LIMIT_STORE (memory or database). Defaults to memory.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!cachedStore) {
+    cachedStore = createRateLimitStore((process.env.RATE_LIMIT_STORE || 'memory') as RateLimitStoreKind);
+  }
+
+  return cachedStore;
+}
+
+export function createRateLimitStore(kind: RateLimitStoreKind): RateLimitStore {
+  switch (kind) {
+    case 'memory':
+      return createMemoryRateLimitStore();
+    case 'database':
+      return createDatabaseRateLimitStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${kind}" (expected memory or database)`);
+  }
+}
+
+/**
+ * The address a request came from: the first X-Forwarded-For entry, as set by the hosting proxy.
+ * Without a proxy in front of the app, clients can put anything in these headers.
+ */
+export function getClientId(request: NextRequest): string {
+  const forwardedFor = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return forwardedFor || request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+/**
+ * Count a job submission against the per-client and per-user rate limits.
+ * Throws RateLimitError (rate_limited) once either is exceeded within the current window.
+ */
+export async function checkRateLimits(userId: string, clientId: string): Promise<void> {
+  const window = fixedWindow(Date.now(), WINDOW_MS);
+  const limits = [
+    { key: `client:${clientId}`, limit: PER_CLIENT, from: 'from your network' },
+    { key: `user:${userId}`, limit: PER_USER, from: 'for your account' }
+  ];
+
+  for (const { key, limit, from } of limits) {
+    if (limit <= 0) continue;
+
+    const count = await getRateLimitStore().increment(key, window);
+    if (count > limit) {
+      throw new RateLimitError(
+        'rate_limited',
+        `Too many requests ${from}: at most ${limit} every ${describeDuration(WINDOW_MS)}`,
+        secondsUntil(window.end),
+        { limit }
+      );
+    }
+  }
+}
+
+/**
+ * The user's daily quota of generation jobs, or null when there is no quota
+ */
+export async function getQuotaStatus(userId: string): Promise<LimitStatus | null> {
+  if (DAILY_QUOTA <= 0) return null;
+
+  const window = utcDay(Date.now());
+  const used = await getRateLimitStore().increment(`quota:${userId}`, window, 0);
+  return toStatus(used, window);
+}
+
+/**
+ * Take `amount` jobs from the user's daily quota.
+ * Throws RateLimitError (quota_exceeded), without taking anything, when not enough is left.
+ */
+export async function consumeQuota(userId: string, amount: number = 1): Promise<LimitStatus | null> {
+  if (DAILY_QUOTA <= 0 || amount <= 0) return null;
+
+  const window = utcDay(Date.now());
+  const store = getRateLimitStore();
+  const used = await store.increment(`quota:${userId}`, window, amount);
+
+  if (used > DAILY_QUOTA) {
+    const status = toStatus(await store.increment(`quota:${userId}`, window, -amount), window);
+    throw new RateLimitError(
+      'quota_exceeded',
+      status.remaining > 0
+        ? `Only ${status.remaining} of your ${DAILY_QUOTA} documents for today are left`
+        : `You have used all ${DAILY_QUOTA} documents for today`,
+      secondsUntil(window.end),
+      { ...status }
+    );
+  }
+
+  return toStatus(used, window);
+}
+
+/**
+ * Give back quota taken for jobs that were never queued
+ */
+export async function refundQuota(userId: string, amount: number = 1): Promise<void> {
+  if (DAILY_QUOTA <= 0 || amount <= 0) return;
+  await getRateLimitStore().increment(`quota:${userId}`, utcDay(Date.now()), -amount);
+}
+
+/**
+ * The rate limits in effect, for display
+ */
+export function getRateLimitSettings() {
+  return { windowMs: WINDOW_MS, perUser: PER_USER, perClient: PER_CLIENT, dailyQuota: DAILY_QUOTA };
+}
+
+function toStatus(used: number, window: RateLimitWindow): LimitStatus {
+  return {
+    limit: DAILY_QUOTA,
+    used,
+    remaining: Math.max(0, DAILY_QUOTA - used),
+    resetAt: window.end
+  };
+}
+
+function fixedWindow(now: number, windowMs: number): RateLimitWindow {
+  const start = Math.floor(now / windowMs) * windowMs;
+  return { start: new Date(start).toISOString(), end: new Date(start + windowMs).toISOString() };
+}
+
+// Quotas reset at midnight UTC
+function utcDay(now: number): RateLimitWindow {
+  return fixedWindow(now, DAY_MS);
+}
+
+function secondsUntil(isoTimestamp: string): number {
+  return Math.max(1, Math.ceil((new Date(isoTimestamp).getTime() - Date.now()) / 1000));
+}
+
+function describeDuration(ms: number): string {
+  if (ms % (60 * 60 * 1000) === 0) return ms === 60 * 60 * 1000 ? 'hour' : `${ms / (60 * 60 * 1000)} hours`;
+  if (ms % (60 * 1000) === 0) return ms === 60 * 1000 ? 'minute' : `${ms / (60 * 1000)} minutes`;
+  return `${Math.round(ms / 1000)} seconds`;
+}
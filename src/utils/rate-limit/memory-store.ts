@@ -0,0 +1,30 @@
+import type { RateLimitStore, RateLimitWindow } from './types';
+
+type Counters = Map<string, { count: number; expiresAt: string }>;
+
+// Kept on globalThis so every route module (and hot reloads) in this process count against the same limits
+const globalForCounters = globalThis as typeof globalThis & { memoryRateLimitCounters?: Counters };
+
+/**
+ * Counts in process memory. Each server process counts on its own,
+ * so with several instances the effective limits are multiplied.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const counts = globalForCounters.memoryRateLimitCounters ??= new Map();
+
+  return {
+    name: 'memory',
+
+    async increment(key: string, window: RateLimitWindow, amount: number = 1): Promise<number> {
+      const now = new Date().toISOString();
+      for (const [counterId, counter] of Array.from(counts.entries())) {
+        if (counter.expiresAt < now) counts.delete(counterId);
+      }
+
+      const counterId = `${key}@${window.start}`;
+      const count = Math.max(0, (counts.get(counterId)?.count ?? 0) + amount);
+      counts.set(counterId, { count, expiresAt: window.end });
+      return count;
+    }
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * A fixed counting window, as ISO timestamps
+ */
+export interface RateLimitWindow {
+  start: string;
+  end: string;
+}
+
+/**
+ * Where request counts are kept
+ */
+export interface RateLimitStore {
+  readonly name: string;
+
+  /**
+   * Add `amount` (0 to read, negative to give back) to the count of `key` in `window`; resolves to the new count
+   */
+  increment(key: string, window: RateLimitWindow, amount?: number): Promise<number>;
+}
+
+/**
+ * Where a caller stands against one limit
+ */
+export interface LimitStatus {
+  limit: number;
+  used: number;
+  remaining: number;
+  // When the window ends and the count starts over
+  resetAt: string;
+}
@@ -0,0 +1,323 @@
+import type { Browser, Page } from 'puppeteer-core';
+import { ApiError } from '@/utils/api-errors';
+import { launchChromium } from './chromium';
+
+// A bounded set of headless browsers shared by every PDF render in this server process.
+// Each browser renders one page at a time; renders beyond the pool size wait in a FIFO queue.
+
+// Pool limits, overridable through the environment
+const POOL_SIZE = Math.max(Number(process.env.RENDER_POOL_SIZE || 2), 1);
+const QUEUE_LIMIT = Number(process.env.RENDER_QUEUE_LIMIT || 20);
+const QUEUE_TIMEOUT_MS = Number(process.env.RENDER_QUEUE_TIMEOUT_MS || 60000);
+const RENDER_TIMEOUT_MS = Number(process.env.RENDER_TIMEOUT_MS || 60000);
+// Browsers are replaced after this many renders, before leaks pile up
+const MAX_RENDERS_PER_BROWSER = Number(process.env.RENDER_MAX_USES || 50);
+// Browsers idle for longer are closed to give their memory back
+const IDLE_CLOSE_MS = Number(process.env.RENDER_IDLE_CLOSE_MS || 5 * 60 * 1000);
+const HEALTH_CHECK_INTERVAL_MS = 30000;
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+// Latency figures cover the most recent renders
+const LATENCY_SAMPLES = 200;
+
+type CloseReason = 'worn' | 'idle' | 'unhealthy' | 'timeout' | 'crashed';
+
+interface PoolSlot {
+  browser: Browser | null;
+  // Taken by a render or a health check
+  busy: boolean;
+  uses: number;
+  idleSince: number;
+}
+
+interface Waiter {
+  resolve: (slot: PoolSlot) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export interface LatencySummary {
+  samples: number;
+  averageMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+export interface RenderPoolStats {
+  // Renders that can run at once
+  size: number;
+  // Browsers currently running
+  browsers: number;
+  busy: number;
+  queued: number;
+  queueLimit: number;
+  renders: {
+    completed: number;
+    failed: number;
+    timedOut: number;
+    // Refused because the queue was full or waited on too long
+    rejected: number;
+  };
+  browsersLaunched: number;
+  browsersClosed: Record<CloseReason, number>;
+  // Render time without queueing, and time spent in the queue; null before the first render
+  renderLatency: LatencySummary | null;
+  queueWait: LatencySummary | null;
+}
+
+interface PoolState {
+  slots: PoolSlot[];
+  waiting: Waiter[];
+  renderDurations: number[];
+  queueWaits: number[];
+  counts: { completed: number; failed: number; timedOut: number; rejected: number; launched: number };
+  closed: Record<CloseReason, number>;
+  healthTimer: ReturnType<typeof setInterval> | null;
+}
+
+// Kept on globalThis so every route module (and hot reloads) in this process share one pool and its limits
+const globalForPool = globalThis as typeof globalThis & { renderPool?: PoolState };
+const pool = globalForPool.renderPool ??= {
+  slots: Array.from({ length: POOL_SIZE }, () => ({
+    browser: null,
+    busy: false,
+    uses: 0,
+    idleSince: Date.now()
+  })),
+  waiting: [],
+  renderDurations: [],
+  queueWaits: [],
+  counts: { completed: 0, failed: 0, timedOut: 0, rejected: 0, launched: 0 },
+  closed: { worn: 0, idle: 0, unhealthy: 0, timeout: 0, crashed: 0 },
+  healthTimer: null
+};
+const { slots, waiting, renderDurations, queueWaits, counts, closed } = pool;
+
+/**
+ * Run `render` with a fresh page in one of the pool's browsers, closing the page afterwards.
+ * Waits for a free browser when all are busy. Throws `renderer_busy` when the queue is full or the wait
+ * exceeds RENDER_QUEUE_TIMEOUT_MS, and `render_timeout` when the render exceeds RENDER_TIMEOUT_MS.
+ */
+export async function withBrowserPage<T>(render: (page: Page) => Promise<T>, context: string): Promise<T> {
+  startHealthChecks();
+
+  const queuedAt = Date.now();
+  const slot = await acquire();
+  const startedAt = Date.now();
+  record(queueWaits, startedAt - queuedAt);
+
+  let page: Page | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const browser = await getBrowser(slot);
+    slot.uses++;
+    page = await browser.newPage();
+
+    const result = await Promise.race([
+      render(page),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new ApiError(
+          'render_timeout',
+          `Rendering took longer than ${Math.round(RENDER_TIMEOUT_MS / 1000)} seconds`
+        )), RENDER_TIMEOUT_MS);
+      })
+    ]);
+
+    counts.completed++;
+    record(renderDurations, Date.now() - startedAt);
+    return result;
+  } catch (error) {
+    counts.failed++;
+    if (error instanceof ApiError && error.code === 'render_timeout') {
+      // The page may still be busy; only closing its browser stops it
+      counts.timedOut++;
+      console.error(`Render for ${context} timed out, closing its browser`);
+      await closeBrowser(slot, 'timeout');
+    } else if (slot.browser && !slot.browser.isConnected()) {
+      await closeBrowser(slot, 'crashed');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    if (page && slot.browser) {
+      await page.close().catch(error => console.error(`Error closing page for ${context}:`, error));
+    }
+    release(slot);
+  }
+}
+
+/**
+ * Pool usage for monitoring
+ */
+export function getRenderPoolStats(): RenderPoolStats {
+  return {
+    size: slots.length,
+    browsers: slots.filter(slot => slot.browser).length,
+    busy: slots.filter(slot => slot.busy).length,
+    queued: waiting.length,
+    queueLimit: QUEUE_LIMIT,
+    renders: {
+      completed: counts.completed,
+      failed: counts.failed,
+      timedOut: counts.timedOut,
+      rejected: counts.rejected
+    },
+    browsersLaunched: counts.launched,
+    browsersClosed: { ...closed },
+    renderLatency: summarize(renderDurations),
+    queueWait: summarize(queueWaits)
+  };
+}
+
+function acquire(): Promise<PoolSlot> {
+  // A slot only stays free while nobody is waiting: release() hands slots straight to the queue
+  const free = slots.find(slot => !slot.busy);
+  if (free) {
+    free.busy = true;
+    return Promise.resolve(free);
+  }
+
+  if (waiting.length >= QUEUE_LIMIT) {
+    counts.rejected++;
+    return Promise.reject(busyError());
+  }
+
+  return new Promise((resolve, reject) => {
+    const waiter: Waiter = {
+      resolve,
+      reject,
+      timer: setTimeout(() => {
+        waiting.splice(waiting.indexOf(waiter), 1);
+        counts.rejected++;
+        reject(busyError());
+      }, QUEUE_TIMEOUT_MS)
+    };
+    waiting.push(waiter);
+  });
+}
+
+function release(slot: PoolSlot) {
+  const next = waiting.shift();
+  if (next) {
+    clearTimeout(next.timer);
+    next.resolve(slot);
+    return;
+  }
+
+  slot.busy = false;
+  slot.idleSince = Date.now();
+}
+
+function busyError(): ApiError {
+  return new ApiError('renderer_busy', 'All PDF renderers are busy, please try again in a minute', {
+    queueLimit: QUEUE_LIMIT
+  });
+}
+
+async function getBrowser(slot: PoolSlot): Promise<Browser> {
+  if (slot.browser && !slot.browser.isConnected()) {
+    await closeBrowser(slot, 'crashed');
+  } else if (slot.browser && slot.uses >= MAX_RENDERS_PER_BROWSER) {
+    await closeBrowser(slot, 'worn');
+  }
+
+  if (!slot.browser) {
+    const browser = await launchChromium();
+    counts.launched++;
+    slot.browser = browser;
+    slot.uses = 0;
+
+    browser.on('disconnected', () => {
+      // Browsers closed on purpose have already left their slot
+      if (slot.browser === browser) {
+        console.error('A PDF browser disconnected unexpectedly');
+        slot.browser = null;
+        closed.crashed++;
+      }
+    });
+  }
+
+  return slot.browser;
+}
+
+async function closeBrowser(slot: PoolSlot, reason: CloseReason) {
+  const browser = slot.browser;
+  if (!browser) return;
+
+  slot.browser = null;
+  closed[reason]++;
+  await browser.close().catch(error => console.error(`Error closing ${reason} browser:`, error));
+}
+
+function startHealthChecks() {
+  if (pool.healthTimer) return;
+
+  pool.healthTimer = setInterval(checkIdleBrowsers, HEALTH_CHECK_INTERVAL_MS);
+  // Never keeps the process alive on its own
+  pool.healthTimer.unref?.();
+}
+
+/**
+ * Close idle browsers that no longer answer or have been idle for IDLE_CLOSE_MS
+ */
+async function checkIdleBrowsers() {
+  for (const slot of slots) {
+    if (slot.busy || !slot.browser) continue;
+
+    // Taken while checking, so no render starts on a browser that is about to be closed
+    const { idleSince } = slot;
+    slot.busy = true;
+    try {
+      if (Date.now() - idleSince > IDLE_CLOSE_MS) {
+        await closeBrowser(slot, 'idle');
+      } else if (!(await isResponsive(slot.browser))) {
+        console.error('A PDF browser failed its health check, closing it');
+        await closeBrowser(slot, 'unhealthy');
+      }
+    } finally {
+      release(slot);
+      // A check is not use: the browser has been idle all along
+      if (!slot.busy) slot.idleSince = idleSince;
+    }
+  }
+}
+
+async function isResponsive(browser: Browser): Promise<boolean> {
+  if (!browser.isConnected()) return false;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      browser.version(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Health check timed out')), HEALTH_CHECK_TIMEOUT_MS);
+      })
+    ]);
+    return true;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function record(samples: number[], value: number) {
+  samples.push(value);
+  if (samples.length > LATENCY_SAMPLES) samples.shift();
+}
+
+function summarize(samples: number[]): LatencySummary | null {
+  if (samples.length === 0) return null;
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+
+  return {
+    samples: sorted.length,
+    averageMs: Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    p50Ms: percentile(0.5),
+    p95Ms: percentile(0.95),
+    maxMs: sorted[sorted.length - 1]
+  };
+}
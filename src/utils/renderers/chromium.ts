@@ -0,0 +1,123 @@
+import fs from 'fs';
+import puppeteer, { Browser } from 'puppeteer-core';
+import { ApiError } from '@/utils/api-errors';
+
+// Finds and launches the Chromium that renders PDFs. Looked up in order:
+// 1. CHROME_EXECUTABLE_PATH (or PUPPETEER_EXECUTABLE_PATH)
+// 2. A Chrome or Chromium installed in the usual place for the platform
+// 3. @sparticuz/chromium-min, unpacked from CHROMIUM_PACK_URL, for serverless hosts without a browser
+
+export type ChromiumSource = 'path' | 'local' | 'serverless';
+
+export interface ResolvedChromium {
+  source: ChromiumSource;
+  executablePath: string;
+  args: string[];
+  headless: boolean | 'shell';
+}
+
+const LOCAL_CHROME_PATHS: Partial<Record<NodeJS.Platform, string[]>> = {
+  linux: [
+    '/usr/bin/google-chrome-stable',
+    '/usr/bin/google-chrome',
+    '/usr/bin/chromium',
+    '/usr/bin/chromium-browser',
+    '/snap/bin/chromium'
+  ],
+  darwin: [
+    '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+    '/Applications/Chromium.app/Contents/MacOS/Chromium'
+  ],
+  win32: [process.env.PROGRAMFILES, process.env['PROGRAMFILES(X86)'], process.env.LOCALAPPDATA]
+    .filter((dir): dir is string => !!dir)
+    .map(dir => `${dir}\\Google\\Chrome\\Application\\chrome.exe`)
+};
+
+// Renders run sanitized HTML as root in containers, where Chrome's sandbox is not available
+const LOCAL_ARGS = ['--no-sandbox', '--disable-setuid-sandbox'];
+
+let resolving: Promise<ResolvedChromium> | null = null;
+
+/**
+ * Start a headless Chromium for rendering. Throws `renderer_unavailable` with what to configure
+ * when no Chromium can be found.
+ */
+export async function launchChromium(): Promise<Browser> {
+  const { executablePath, args, headless } = await resolveChromium();
+  return puppeteer.launch({ executablePath, args, headless });
+}
+
+/**
+ * The Chromium to launch, looked up once per process. A failed lookup is tried again on the next launch.
+ */
+export function resolveChromium(): Promise<ResolvedChromium> {
+  if (!resolving) {
+    resolving = findChromium()
+      .then(chromium => {
+        console.log(`PDF rendering uses ${chromium.source} Chromium at ${chromium.executablePath}`);
+        return chromium;
+      })
+      .catch(error => {
+        resolving = null;
+        throw error;
+      });
+  }
+
+  return resolving;
+}
+
+async function findChromium(): Promise<ResolvedChromium> {
+  const pathVariable = process.env.CHROME_EXECUTABLE_PATH ? 'CHROME_EXECUTABLE_PATH' : 'PUPPETEER_EXECUTABLE_PATH';
+  const explicitPath = process.env[pathVariable];
+  if (explicitPath) {
+    if (!isExecutable(explicitPath)) {
+      throw unavailable(
+        `${pathVariable} is set to ${explicitPath}, but that is not an executable file. `
+          + 'Point it at a Chrome or Chromium binary, or unset it to use an installed Chrome.'
+      );
+    }
+    return { source: 'path', executablePath: explicitPath, args: LOCAL_ARGS, headless: true };
+  }
+
+  const localPath = (LOCAL_CHROME_PATHS[process.platform] || []).find(isExecutable);
+  if (localPath) {
+    return { source: 'local', executablePath: localPath, args: LOCAL_ARGS, headless: true };
+  }
+
+  const packUrl = process.env.CHROMIUM_PACK_URL;
+  if (packUrl) {
+    const { default: chromium } = await import('@sparticuz/chromium-min');
+    try {
+      return {
+        source: 'serverless',
+        executablePath: await chromium.executablePath(packUrl),
+        args: chromium.args,
+        headless: 'shell'
+      };
+    } catch (error) {
+      throw unavailable(
+        `@sparticuz/chromium-min could not unpack Chromium from CHROMIUM_PACK_URL (${packUrl}): `
+          + `${(error instanceof Error ? error.message : String(error)).replace(/\.$/, '')}. `
+          + 'Check that it points to a chromium-v*-pack tar matching the installed @sparticuz/chromium-min version.'
+      );
+    }
+  }
+
+  throw unavailable(
+    'No Chromium found for PDF rendering. Set CHROME_EXECUTABLE_PATH to a Chrome or Chromium binary, '
+      + 'install Google Chrome or Chromium, or on serverless hosts set CHROMIUM_PACK_URL to a @sparticuz/chromium-min pack.'
+  );
+}
+
+function isExecutable(path: string): boolean {
+  try {
+    fs.accessSync(path, fs.constants.X_OK);
+    return fs.statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function unavailable(message: string): ApiError {
+  return new ApiError('renderer_unavailable', message);
+}
@@ -0,0 +1,111 @@
+import JSZip from 'jszip';
+import { DEFAULT_TOC_DEPTH, TOC_TITLE } from './toc-options';
+
+// A Word table of contents for a converted document. Headings already carry Word's heading styles, which give
+// the navigation pane and PDF bookmarks; this adds a TOC field listing them, each linked to a bookmark on its
+// heading. Word lays out the pages, so it fills in the page numbers when the document is opened.
+
+const HEADING_PARAGRAPH = /<w:p>(?:(?!<\/w:p>)[\s\S])*?<w:pStyle w:val="Heading([1-6])"\/>[\s\S]*?<\/w:p>/g;
+
+/**
+ * Insert a table of contents page at the start of a DOCX made by renderDocx, listing headings down to `depth`.
+ * `tabPosition` is the width of the text area in twips, where page numbers are right-aligned.
+ * Documents without headings are returned unchanged.
+ */
+export async function addDocxToc(docx: Buffer, tabPosition: number, depth: number = DEFAULT_TOC_DEPTH): Promise<Buffer> {
+  const zip = await JSZip.loadAsync(docx);
+  const documentFile = zip.file('word/document.xml');
+  const settingsFile = zip.file('word/settings.xml');
+  const stylesFile = zip.file('word/styles.xml');
+  if (!documentFile || !settingsFile || !stylesFile) {
+    throw new Error('DOCX is missing its document, settings or styles part');
+  }
+
+  let documentXml = await documentFile.async('string');
+  const entries: { bookmark: string; level: number; text: string }[] = [];
+  let bookmarkId = Math.max(0, ...Array.from(documentXml.matchAll(/<w:bookmarkStart w:id="(\d+)"/g), match => Number(match[1]) + 1));
+
+  documentXml = documentXml.replace(HEADING_PARAGRAPH, (paragraph, levelText: string) => {
+    const level = Number(levelText);
+    // Text runs are already XML-escaped
+    const text = Array.from(paragraph.matchAll(/<w:t(?: [^>]*)?>([^<]*)<\/w:t>/g), match => match[1]).join('').trim();
+    if (level > depth || !text) return paragraph;
+
+    // _Toc bookmarks are hidden from Word's bookmark list
+    const bookmark = `_Toc${entries.length + 1}`;
+    const id = bookmarkId++;
+    entries.push({ bookmark, level, text });
+
+    const start = `<w:bookmarkStart w:id="${id}" w:name="${bookmark}"/>`;
+    const withStart = paragraph.includes('</w:pPr>')
+      ? paragraph.replace('</w:pPr>', `</w:pPr>${start}`)
+      : paragraph.replace('<w:p>', `<w:p>${start}`);
+    return withStart.replace(/<\/w:p>$/, `<w:bookmarkEnd w:id="${id}"/></w:p>`);
+  });
+
+  if (entries.length === 0) return docx;
+
+  const topLevel = Math.min(...entries.map(entry => entry.level));
+  const firstParagraph = documentXml.indexOf('<w:p>', documentXml.indexOf('<w:body>'));
+  if (firstParagraph === -1) return docx;
+
+  documentXml = documentXml.slice(0, firstParagraph)
+    + tocXml(entries.map(entry => ({ ...entry, level: entry.level - topLevel + 1 })), depth)
+    + documentXml.slice(firstParagraph);
+  zip.file('word/document.xml', documentXml);
+
+  // Word asks to update fields on opening, which fills in the page numbers
+  const settingsXml = await settingsFile.async('string');
+  if (!settingsXml.includes('<w:updateFields')) {
+    // Settings have a fixed element order; updateFields comes before the separators at the end
+    const at = settingsXml.includes('<w:decimalSymbol') ? settingsXml.indexOf('<w:decimalSymbol') : settingsXml.indexOf('</w:settings>');
+    zip.file('word/settings.xml', `${settingsXml.slice(0, at)}<w:updateFields w:val="true"/>${settingsXml.slice(at)}`);
+  }
+
+  const stylesXml = await stylesFile.async('string');
+  if (!stylesXml.includes('w:styleId="TOC1"')) {
+    zip.file('word/styles.xml', stylesXml.replace('</w:styles>', `${tocStylesXml(tabPosition)}</w:styles>`));
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+// Title, then the TOC field whose cached result lists the entries without page numbers, then a page break
+function tocXml(entries: { bookmark: string; level: number; text: string }[], depth: number): string {
+  const fieldStart = '<w:r><w:fldChar w:fldCharType="begin" w:dirty="true"/></w:r>'
+    + `<w:r><w:instrText xml:space="preserve"> TOC \\o "1-${depth}" \\h \\z \\u </w:instrText></w:r>`
+    + '<w:r><w:fldChar w:fldCharType="separate"/></w:r>';
+
+  const paragraphs = entries.map((entry, index) => '<w:p>'
+    + `<w:pPr><w:pStyle w:val="TOC${entry.level}"/></w:pPr>`
+    + (index === 0 ? fieldStart : '')
+    + `<w:hyperlink w:anchor="${entry.bookmark}" w:history="1">`
+    + `<w:r><w:t xml:space="preserve">${entry.text}</w:t></w:r>`
+    + '<w:r><w:tab/></w:r>'
+    + '<w:r><w:fldChar w:fldCharType="begin"/></w:r>'
+    + `<w:r><w:instrText xml:space="preserve"> PAGEREF ${entry.bookmark} \\h </w:instrText></w:r>`
+    + '<w:r><w:fldChar w:fldCharType="separate"/></w:r>'
+    + '<w:r><w:fldChar w:fldCharType="end"/></w:r>'
+    + '</w:hyperlink></w:p>');
+
+  return `<w:p><w:pPr><w:pStyle w:val="TOCHeading"/></w:pPr><w:r><w:t>${TOC_TITLE}</w:t></w:r></w:p>`
+    + paragraphs.join('')
+    + '<w:p><w:r><w:fldChar w:fldCharType="end"/></w:r></w:p>'
+    + '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+}
+
+// Word's built-in TOC styles: entries indented per level, page numbers right-aligned after dot leaders
+function tocStylesXml(tabPosition: number): string {
+  const levels = [1, 2, 3, 4, 5, 6].map(level => `<w:style w:type="paragraph" w:styleId="TOC${level}">`
+    + `<w:name w:val="toc ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="39"/>`
+    + `<w:pPr><w:tabs><w:tab w:val="right" w:leader="dot" w:pos="${tabPosition}"/></w:tabs>`
+    + `<w:spacing w:after="100"/><w:ind w:left="${(level - 1) * 220}"/></w:pPr>`
+    + (level === 1 ? '<w:rPr><w:b/></w:rPr>' : '')
+    + '</w:style>');
+
+  return '<w:style w:type="paragraph" w:styleId="TOCHeading">'
+    + '<w:name w:val="TOC Heading"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="39"/>'
+    + '<w:pPr><w:spacing w:before="240" w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/><w:szCs w:val="36"/></w:rPr>'
+    + '</w:style>'
+    + levels.join('');
+}
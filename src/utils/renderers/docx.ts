@@ -0,0 +1,72 @@
+import HtmlToDocx from '@turbodocx/html-to-docx';
+import { sanitizeForRender } from '@/utils/html-sanitizer';
+import { addDocxToc } from './docx-toc';
+import { TocOptions } from './toc-options';
+
+// Page size and margins in twips
+const PAGE_WIDTH = 12240;
+const PAGE_HEIGHT = 15840;
+const MARGIN = 1440;
+
+/**
+ * Convert a document's HTML to a Word file on the server. The HTML is sanitized first.
+ * With `toc`, the file starts with a table of contents of its headings (see docx-toc.ts).
+ */
+export async function renderDocx(html: string, context: string = 'DOCX export', options: TocOptions = {}): Promise<Buffer> {
+  const docx = await convertToDocx(html, context);
+  return options.toc ? addDocxToc(docx, PAGE_WIDTH - 2 * MARGIN, options.tocDepth) : docx;
+}
+
+async function convertToDocx(html: string, context: string): Promise<Buffer> {
+  // Create a simple HTML structure for testing
+  const cleanHtml = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <title>Document</title>
+      <style>
+        body { font-family: Arial; margin: 40px; }
+        p { margin-bottom: 10px; }
+      </style>
+    </head>
+    <body>
+      ${sanitizeForRender(html, context)}
+    </body>
+    </html>
+  `;
+
+  // Use minimal options for TurboDocx
+  const docxBuffer = await HtmlToDocx(
+    cleanHtml,
+    undefined,
+    {
+      orientation: 'portrait',
+      pageSize: { width: PAGE_WIDTH, height: PAGE_HEIGHT }, // A4 dimensions in twips
+      margins: { top: MARGIN, right: MARGIN, bottom: MARGIN, left: MARGIN }
+    }
+  );
+
+  // Convert the result to a proper Buffer object
+  if (Buffer.isBuffer(docxBuffer)) {
+    return docxBuffer;
+  } else if (docxBuffer instanceof ArrayBuffer) {
+    return Buffer.from(new Uint8Array(docxBuffer));
+  } else if (typeof docxBuffer === 'object') {
+    // Handle any other object type that might be returned
+    try {
+      // Try to convert to array buffer first if it's a Blob
+      if ('arrayBuffer' in docxBuffer && typeof docxBuffer.arrayBuffer === 'function') {
+        const arrayBuffer = await docxBuffer.arrayBuffer();
+        return Buffer.from(new Uint8Array(arrayBuffer));
+      }
+      // Fall back to direct Buffer conversion
+      return Buffer.from(docxBuffer as any);
+    } catch (bufferError) {
+      console.error('Error converting to Buffer:', bufferError);
+      throw new Error('Failed to convert DOCX content to Buffer');
+    }
+  }
+
+  throw new Error(`Unexpected docxBuffer type: ${typeof docxBuffer}`);
+}
@@ -0,0 +1,21 @@
+// Server-side conversion of document HTML into downloadable files
+export { renderDocx } from './docx';
+export { renderPdf } from './pdf';
+export { getRenderPoolStats } from './browser-pool';
+export type { LatencySummary, RenderPoolStats } from './browser-pool';
+export {
+  DEFAULT_PDF_OPTIONS,
+  PAGE_SIZES_MM,
+  getPageDimensions,
+  readPdfOptions
+} from './pdf-options';
+export type { PdfLayout, PdfMargins, PdfOptions, PdfOrientation, PdfPageSize } from './pdf-options';
+export { DEFAULT_TOC_DEPTH, readTocOptions } from './toc-options';
+export type { TocOptions } from './toc-options';
+
+export type ExportFormat = 'pdf' | 'docx';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
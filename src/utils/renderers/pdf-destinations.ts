@@ -0,0 +1,253 @@
+import { inflateSync } from 'zlib';
+
+// Reads where the named destinations of a PDF written by Chrome land. Chrome names a destination after the
+// fragment of every internal link, still URL-encoded, which is how the table of contents learns its page numbers.
+// Objects are found by scanning for `obj` headers rather than through the cross-reference table, so both classic
+// tables and cross-reference streams work; objects packed into Flate-compressed object streams are read too.
+// Destinations may be the catalog's /Dests dictionary (what Chrome writes) or a /Names tree.
+
+/**
+ * Page number (1-based) of each named destination, keyed by element id. Empty when the PDF has none or
+ * its structure is not understood.
+ */
+export function readDestinationPages(pdf: Buffer): Map<string, number> {
+  const pages = new Map<string, number>();
+  const objects = readObjects(pdf);
+
+  const catalog = Array.from(objects.values()).find(body => /\/Type\s*\/Catalog\b/.test(body));
+  if (!catalog) return pages;
+
+  const pageTree = readRef(catalog, 'Pages');
+  const pageNumbers = new Map<number, number>();
+  if (pageTree !== null) {
+    collectPages(objects, pageTree, pageNumbers, new Set());
+  }
+
+  for (const [name, value] of readDests(catalog, objects)) {
+    const pageRef = readDestinationPage(value, objects);
+    const pageNumber = pageRef === null ? undefined : pageNumbers.get(pageRef);
+    if (pageNumber !== undefined) {
+      pages.set(decodeId(name), pageNumber);
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Dictionary text of every object by object number, including objects inside object streams;
+ * stream data is left out
+ */
+function readObjects(pdf: Buffer): Map<number, string> {
+  // latin1 keeps one character per byte, so stream lengths can be skipped by index
+  const text = pdf.toString('latin1');
+  const objects = new Map<number, string>();
+  const objectStreams: { body: string; data: string }[] = [];
+  const header = /(\d+)\s+\d+\s+obj\b/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = header.exec(text))) {
+    const start = match.index + match[0].length;
+    const end = text.indexOf('endobj', start);
+    if (end === -1) break;
+
+    const streamAt = text.indexOf('stream', start);
+    if (streamAt !== -1 && streamAt < end) {
+      const body = text.slice(start, streamAt);
+      objects.set(Number(match[1]), body);
+
+      // Binary stream data may contain anything, including "endobj"
+      const dataStart = streamAt + 'stream'.length + (text.startsWith('\r\n', streamAt + 'stream'.length) ? 2 : 1);
+      const length = /\/Length\s+(\d+)(?!\s+\d+\s+R)/.exec(body);
+      const dataEnd = length
+        ? dataStart + Number(length[1])
+        : text.indexOf('endstream', streamAt);
+      if (/\/Type\s*\/ObjStm\b/.test(body)) {
+        objectStreams.push({ body, data: text.slice(dataStart, dataEnd) });
+      }
+      header.lastIndex = Math.max(text.indexOf('endobj', dataEnd), start);
+      continue;
+    }
+
+    objects.set(Number(match[1]), text.slice(start, end));
+    header.lastIndex = end;
+  }
+
+  for (const stream of objectStreams) {
+    readObjectStream(stream.body, stream.data, objects);
+  }
+
+  return objects;
+}
+
+// An object stream starts with pairs of object number and offset, followed from /First by the objects themselves
+function readObjectStream(body: string, data: string, objects: Map<number, string>) {
+  const filter = /\/Filter\s*\[?\s*\/(\w+)/.exec(body)?.[1];
+  const first = /\/First\s+(\d+)/.exec(body);
+  if (!first || (filter && filter !== 'FlateDecode')) return;
+
+  let content: string;
+  try {
+    content = filter ? inflateSync(Buffer.from(data, 'latin1')).toString('latin1') : data;
+  } catch {
+    return;
+  }
+
+  const start = Number(first[1]);
+  const numbers = content.slice(0, start).trim().split(/\s+/).map(Number);
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    const from = start + numbers[i + 1];
+    const to = i + 3 < numbers.length ? start + numbers[i + 3] : content.length;
+    // A copy outside the stream comes from a later update of the file and is kept
+    if (!objects.has(numbers[i])) {
+      objects.set(numbers[i], content.slice(from, to));
+    }
+  }
+}
+
+function collectPages(objects: Map<number, string>, ref: number, pageNumbers: Map<number, number>, seen: Set<number>) {
+  const body = objects.get(ref);
+  if (!body || seen.has(ref)) return;
+  seen.add(ref);
+
+  if (/\/Type\s*\/Page\b/.test(body)) {
+    pageNumbers.set(ref, pageNumbers.size + 1);
+    return;
+  }
+
+  const kids = /\/Kids\s*\[([^\]]*)\]/.exec(body);
+  for (const [, kid] of kids?.[1].matchAll(/(\d+)\s+\d+\s+R/g) ?? []) {
+    collectPages(objects, Number(kid), pageNumbers, seen);
+  }
+}
+
+/**
+ * Name and value text of every named destination: from the /Dests name tree in the catalog's /Names
+ * dictionary, or else from the catalog's /Dests dictionary, stored in its own object or inline
+ */
+function readDests(catalog: string, objects: Map<number, string>): [string, string][] {
+  // First, because an inline /Names dictionary has a /Dests key of its own
+  const names = readDictionaryEntry(catalog, 'Names', objects);
+  const treeRoot = names && readDictionaryEntry(names, 'Dests', objects);
+  if (treeRoot) {
+    const entries: [string, string][] = [];
+    collectNameTree(treeRoot, objects, entries, new Set());
+    return entries;
+  }
+
+  const dests = readDictionaryEntry(catalog, 'Dests', objects);
+  if (!dests) return [];
+
+  // Each entry is `/name [page 0 R /XYZ left top zoom]`, or `/name 12 0 R` pointing at the array
+  const entry = /\/([^\s/[\]<>(){}%]+)\s*(\[[^\]]*\]|\d+\s+\d+\s+R)/g;
+  return Array.from(dests.matchAll(entry), ([, name, value]) => [decodeName(name), value]);
+}
+
+// Leaves of a name tree hold `/Names [(name) value ...]`; other nodes point to their /Kids
+function collectNameTree(node: string, objects: Map<number, string>, entries: [string, string][], seen: Set<number>) {
+  const names = /\/Names\s*\[/.exec(node);
+  const leaf = names && readArray(node, names.index + names[0].length - 1);
+  if (leaf) {
+    const entry = /(\((?:\\[\s\S]|[^\\)])*\)|<[0-9a-fA-F\s]*>)\s*(\[[^\]]*\]|\d+\s+\d+\s+R|<<[\s\S]*?>>)/g;
+    for (const [, name, value] of leaf.slice(1, -1).matchAll(entry)) {
+      entries.push([decodeString(name), value]);
+    }
+  }
+
+  const kids = /\/Kids\s*\[([^\]]*)\]/.exec(node);
+  for (const [, kid] of kids?.[1].matchAll(/(\d+)\s+\d+\s+R/g) ?? []) {
+    const ref = Number(kid);
+    const body = objects.get(ref);
+    if (body && !seen.has(ref)) {
+      seen.add(ref);
+      collectNameTree(body, objects, entries, seen);
+    }
+  }
+}
+
+// A destination is `[page 0 R /XYZ ...]`, `<< /D [...] >>` or a reference to either; resolves to the page object
+function readDestinationPage(value: string, objects: Map<number, string>, depth: number = 0): number | null {
+  const array = /^\s*\[\s*(\d+)\s+\d+\s+R/.exec(value) ?? /\/D\s*\[\s*(\d+)\s+\d+\s+R/.exec(value);
+  if (array) return Number(array[1]);
+
+  const ref = /^\s*(\d+)\s+\d+\s+R/.exec(value) ?? /\/D\s+(\d+)\s+\d+\s+R/.exec(value);
+  const target = ref && objects.get(Number(ref[1]));
+  return target && depth < 3 ? readDestinationPage(target, objects, depth + 1) : null;
+}
+
+// The dictionary stored under `/key` in `body`, inline or in its own object
+function readDictionaryEntry(body: string, key: string, objects: Map<number, string>): string | null {
+  const ref = readRef(body, key);
+  if (ref !== null) return objects.get(ref) ?? null;
+
+  const inline = new RegExp(`/${key}\\s*<<`).exec(body);
+  return inline ? readDictionary(body, inline.index + inline[0].length - 2) : null;
+}
+
+function readRef(body: string, key: string): number | null {
+  const match = new RegExp(`/${key}\\s+(\\d+)\\s+\\d+\\s+R`).exec(body);
+  return match ? Number(match[1]) : null;
+}
+
+// The << ... >> dictionary starting at `start`, nested dictionaries included
+function readDictionary(text: string, start: number): string | null {
+  let depth = 0;
+  for (let i = start; i < text.length - 1; i++) {
+    if (text.startsWith('<<', i)) {
+      depth++;
+      i++;
+    } else if (text.startsWith('>>', i)) {
+      depth--;
+      i++;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+
+  return null;
+}
+
+// The [ ... ] array starting at `start`, nested arrays included
+function readArray(text: string, start: number): string | null {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']') {
+      depth--;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+
+  return null;
+}
+
+// PDF names escape bytes outside printable ASCII as #xx
+function decodeName(name: string): string {
+  return name.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+// Literal `(...)` or hex `<...>` strings, as bytes
+function decodeString(text: string): string {
+  if (text.startsWith('<')) {
+    const hex = text.slice(1, -1).replace(/\s+/g, '');
+    return Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex').toString('latin1');
+  }
+
+  const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+  return text.slice(1, -1).replace(/\\([0-7]{1,3}|[\s\S])/g, (_, escaped: string) => /^[0-7]/.test(escaped)
+    ? String.fromCharCode(parseInt(escaped, 8))
+    : escapes[escaped] ?? (escaped === '\n' || escaped === '\r' ? '' : escaped));
+}
+
+// Names hold the link fragment's bytes: UTF-8 (UTF-16 in strings that start with a byte order mark),
+// percent-encoded where the link was
+function decodeId(name: string): string {
+  const text = name.startsWith('\xfe\xff') && name.length % 2 === 0
+    ? Buffer.from(name.slice(2), 'latin1').swap16().toString('utf16le')
+    : Buffer.from(name, 'latin1').toString('utf8');
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
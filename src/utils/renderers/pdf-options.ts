@@ -0,0 +1,236 @@
+import { ValidationError } from '@/utils/api-errors';
+import { getPlaceholders } from '@/utils/prompt-templates/placeholders';
+import { readTocOptions, TocOptions } from './toc-options';
+
+// PDF page layout options, shared by the export dialog in the browser and the PDF renderer
+
+// continuous: one page as tall as the document; paginated: printable pages that honour page breaks
+export type PdfLayout = 'continuous' | 'paginated';
+export type PdfPageSize = 'A4' | 'Letter' | 'Legal' | 'custom';
+export type PdfOrientation = 'portrait' | 'landscape';
+
+// Millimetres on each side
+export interface PdfMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface PdfOptions extends TocOptions {
+  layout: PdfLayout;
+  pageSize: PdfPageSize;
+  orientation: PdfOrientation;
+  margins: PdfMargins;
+  // Page size in millimetres (portrait) when pageSize is custom; continuous pages only use the width
+  width?: number;
+  height?: number;
+  // HTML drawn in the top and bottom margin of every page, with PDF_TEMPLATE_PLACEHOLDERS
+  header?: string;
+  footer?: string;
+  // Leave the first page (the cover) without header and footer
+  skipCover?: boolean;
+  // Values of {{title}} and {{documentId}}; the title defaults to the document's own
+  title?: string;
+  documentId?: string;
+}
+
+export const PDF_LAYOUTS: PdfLayout[] = ['continuous', 'paginated'];
+export const PDF_PAGE_SIZES: PdfPageSize[] = ['A4', 'Letter', 'Legal', 'custom'];
+export const PDF_ORIENTATIONS: PdfOrientation[] = ['portrait', 'landscape'];
+
+// {{name}} placeholders of header and footer templates, filled per page
+export const PDF_TEMPLATE_PLACEHOLDERS = ['title', 'date', 'page', 'pages', 'documentId'];
+
+// Portrait width and height in millimetres
+export const PAGE_SIZES_MM: Record<Exclude<PdfPageSize, 'custom'>, { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  Letter: { width: 215.9, height: 279.4 },
+  Legal: { width: 215.9, height: 355.6 }
+};
+
+// Margins when none are given: continuous pages keep the narrow edge they always had
+export const DEFAULT_MARGINS_MM: Record<PdfLayout, number> = {
+  continuous: 5,
+  paginated: 20
+};
+
+export const DEFAULT_PDF_OPTIONS: PdfOptions = {
+  layout: 'continuous',
+  pageSize: 'A4',
+  orientation: 'portrait',
+  margins: uniformMargins(DEFAULT_MARGINS_MM.continuous)
+};
+
+const MIN_PAGE_MM = 50;
+const MAX_PAGE_MM = 2000;
+const MAX_MARGIN_MM = 100;
+// Narrowest content area the margins may leave
+const MIN_CONTENT_MM = 20;
+// Header and footer are drawn inside the margins, which need room for a line of text
+const MIN_HEADER_MARGIN_MM = 10;
+// Room for a logo as a data: URL
+const MAX_TEMPLATE_LENGTH = 100000;
+const MAX_TITLE_LENGTH = 300;
+
+/**
+ * Read the PDF fields of a request body; missing fields take their defaults.
+ * Margins are a number for every side or `{ top, right, bottom, left }`; header and footer templates may only use
+ * PDF_TEMPLATE_PLACEHOLDERS; a table of contents needs the paginated layout. Throws ValidationError.
+ */
+export function readPdfOptions(data: Record<string, unknown>): PdfOptions {
+  const layout = readChoice(data.layout, PDF_LAYOUTS, 'layout') ?? DEFAULT_PDF_OPTIONS.layout;
+  const pageSize = readChoice(data.pageSize, PDF_PAGE_SIZES, 'pageSize') ?? DEFAULT_PDF_OPTIONS.pageSize;
+  const orientation = readChoice(data.orientation, PDF_ORIENTATIONS, 'orientation') ?? DEFAULT_PDF_OPTIONS.orientation;
+  const options: PdfOptions = { layout, pageSize, orientation, margins: readMargins(data.margins, layout) };
+
+  if (pageSize === 'custom') {
+    options.width = readLength(data.width, 'width');
+    // A continuous page is as tall as its content
+    if (layout === 'paginated') {
+      options.height = readLength(data.height, 'height');
+    }
+  }
+
+  const { width, height } = getPageDimensions(options);
+  const { top, right, bottom, left } = options.margins;
+  if (width - left - right < MIN_CONTENT_MM || (height !== null && height - top - bottom < MIN_CONTENT_MM)) {
+    throw new ValidationError(`margins must leave at least ${MIN_CONTENT_MM}mm of the page for content`, { field: 'margins' });
+  }
+
+  const header = readTemplate(data.header, 'header');
+  const footer = readTemplate(data.footer, 'footer');
+  if (header) {
+    if (top < MIN_HEADER_MARGIN_MM) {
+      throw new ValidationError(`margins.top must be at least ${MIN_HEADER_MARGIN_MM}mm to fit the header`, { field: 'margins.top' });
+    }
+    options.header = header;
+  }
+  if (footer) {
+    if (bottom < MIN_HEADER_MARGIN_MM) {
+      throw new ValidationError(`margins.bottom must be at least ${MIN_HEADER_MARGIN_MM}mm to fit the footer`, { field: 'margins.bottom' });
+    }
+    options.footer = footer;
+  }
+
+  if (data.skipCover !== undefined && data.skipCover !== null && typeof data.skipCover !== 'boolean') {
+    throw new ValidationError('skipCover must be true or false', { field: 'skipCover' });
+  }
+  if (data.skipCover === true) options.skipCover = true;
+
+  const toc = readTocOptions(data);
+  if (toc.toc) {
+    // Page numbers only exist on printable pages
+    if (layout !== 'paginated') {
+      throw new ValidationError('A table of contents needs the paginated layout', { field: 'toc' });
+    }
+    Object.assign(options, toc);
+  }
+
+  const title = readText(data.title, 'title', MAX_TITLE_LENGTH);
+  const documentId = readText(data.documentId, 'documentId', MAX_TITLE_LENGTH);
+  if (title) options.title = title;
+  if (documentId) options.documentId = documentId;
+
+  return options;
+}
+
+/**
+ * Page width and height in millimetres after orientation; height is null for a continuous page
+ */
+export function getPageDimensions(options: PdfOptions): { width: number; height: number | null } {
+  // A custom continuous page has only a width, so there is nothing to turn
+  if (options.layout === 'continuous' && options.pageSize === 'custom') {
+    return { width: options.width ?? PAGE_SIZES_MM.A4.width, height: null };
+  }
+
+  const size = options.pageSize === 'custom'
+    ? { width: options.width ?? PAGE_SIZES_MM.A4.width, height: options.height ?? PAGE_SIZES_MM.A4.height }
+    : PAGE_SIZES_MM[options.pageSize];
+  const [width, height] = options.orientation === 'landscape' ? [size.height, size.width] : [size.width, size.height];
+
+  return { width, height: options.layout === 'paginated' ? height : null };
+}
+
+export function uniformMargins(mm: number): PdfMargins {
+  return { top: mm, right: mm, bottom: mm, left: mm };
+}
+
+function readChoice<T extends string>(value: unknown, choices: T[], field: string): T | undefined {
+  if (value === undefined || value === null) return undefined;
+
+  if (!choices.includes(value as T)) {
+    throw new ValidationError(`${field} must be one of ${choices.join(', ')}`, { field });
+  }
+
+  return value as T;
+}
+
+function readLength(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !isFinite(value) || value < MIN_PAGE_MM || value > MAX_PAGE_MM) {
+    throw new ValidationError(
+      `${field} is required for a custom page size, in millimetres between ${MIN_PAGE_MM} and ${MAX_PAGE_MM}`,
+      { field }
+    );
+  }
+
+  return value;
+}
+
+function readTemplate(value: unknown, field: string): string | undefined {
+  const template = readText(value, field, MAX_TEMPLATE_LENGTH);
+  if (!template) return undefined;
+
+  const known = PDF_TEMPLATE_PLACEHOLDERS.map(name => name.toLowerCase());
+  const unknown = getPlaceholders(template).filter(name => !known.includes(name));
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      `${field} uses unknown placeholders ${unknown.map(name => `{{${name}}}`).join(', ')}; `
+        + `available are ${PDF_TEMPLATE_PLACEHOLDERS.map(name => `{{${name}}}`).join(', ')}`,
+      { field }
+    );
+  }
+
+  return template;
+}
+
+function readText(value: unknown, field: string, maxLength: number): string | undefined {
+  if (value === undefined || value === null) return undefined;
+
+  if (typeof value !== 'string' || value.length > maxLength) {
+    throw new ValidationError(`${field} must be a string of at most ${maxLength} characters`, { field });
+  }
+
+  return value.trim() || undefined;
+}
+
+function readMargins(value: unknown, layout: PdfLayout): PdfMargins {
+  if (value === undefined || value === null) {
+    return uniformMargins(DEFAULT_MARGINS_MM[layout]);
+  }
+
+  if (typeof value === 'number') {
+    return uniformMargins(readMargin(value, 'margins'));
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError('margins must be a number or an object with top, right, bottom and left', { field: 'margins' });
+  }
+
+  const sides = value as Record<string, unknown>;
+  const fallback = DEFAULT_MARGINS_MM[layout];
+  return {
+    top: readMargin(sides.top ?? fallback, 'margins.top'),
+    right: readMargin(sides.right ?? fallback, 'margins.right'),
+    bottom: readMargin(sides.bottom ?? fallback, 'margins.bottom'),
+    left: readMargin(sides.left ?? fallback, 'margins.left')
+  };
+}
+
+function readMargin(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !isFinite(value) || value < 0 || value > MAX_MARGIN_MM) {
+    throw new ValidationError(`${field} must be between 0 and ${MAX_MARGIN_MM} millimetres`, { field });
+  }
+
+  return value;
+}
@@ -0,0 +1,342 @@
+import type { Page } from 'puppeteer-core';
+import { escapeHtml, sanitizeForRender } from '@/utils/html-sanitizer';
+import { fillPlaceholders } from '@/utils/prompt-templates/placeholders';
+import { DEFAULT_PDF_OPTIONS, getPageDimensions, PdfMargins, PdfOptions } from './pdf-options';
+import { withBrowserPage } from './browser-pool';
+import { readDestinationPages } from './pdf-destinations';
+import { DEFAULT_TOC_DEPTH, TOC_TITLE } from './toc-options';
+
+// CSS pixels per millimetre, as Chrome prints them (96 per inch)
+const PX_PER_MM = 96 / 25.4;
+
+// A continuous page has no page breaks, whatever the document's CSS asks for
+const CONTINUOUS_CSS = `
+  *, *::before, *::after {
+    break-before: auto !important;
+    break-after: auto !important;
+    page-break-before: auto !important;
+    page-break-after: auto !important;
+  }
+`;
+
+// Printable pages: the PDF margins replace the body's own spacing, and the on-screen A4 sheets
+// (.a4-page) become plain sections that start on a new page
+const PAGINATED_CSS = `
+  html, body {
+    margin: 0 !important;
+    padding: 0 !important;
+    background: #fff !important;
+    display: block !important;
+  }
+  .a4-page {
+    width: auto !important;
+    min-height: 0 !important;
+    max-height: none !important;
+    margin: 0 !important;
+    padding: 0 !important;
+    box-shadow: none !important;
+    overflow: visible !important;
+  }
+  .a4-page .page-number {
+    display: none !important;
+  }
+  .page-break {
+    break-after: page;
+    page-break-after: always;
+    height: 0;
+    clear: both;
+  }
+  .page-keep, tr, img, figure {
+    break-inside: avoid;
+    page-break-inside: avoid;
+  }
+  h1, h2, h3, h4, h5, h6 {
+    break-after: avoid;
+    page-break-after: avoid;
+  }
+  p, li {
+    orphans: 3;
+    widows: 3;
+  }
+`;
+
+// The table of contents gets pages of its own. Page numbers have a fixed width, so filling them in
+// does not move anything.
+const TOC_CSS = `
+  .pdf-toc {
+    break-after: page;
+    page-break-after: always;
+  }
+  .pdf-toc-after-cover {
+    break-before: page;
+    page-break-before: always;
+  }
+  .pdf-toc-title {
+    font-size: 1.6em;
+    font-weight: bold;
+    margin: 0 0 1em;
+  }
+  .pdf-toc-entry {
+    display: flex;
+    align-items: baseline;
+    margin: 0.3em 0;
+    color: inherit;
+    text-decoration: none;
+    break-inside: avoid;
+    page-break-inside: avoid;
+  }
+  .pdf-toc-level-1 {
+    font-weight: 600;
+  }
+  .pdf-toc-leader {
+    flex: 1;
+    margin: 0 0.4em;
+    border-bottom: 1px dotted #999;
+  }
+  .pdf-toc-page {
+    min-width: 2.5em;
+    text-align: right;
+    font-variant-numeric: tabular-nums;
+  }
+`;
+
+/**
+ * Render a document's HTML to a PDF with selectable text.
+ * Continuous output is one page exactly as tall as the document; paginated output has pages of the
+ * chosen size that honour page-break CSS, including the `.page-break` and `.page-keep` classes.
+ * Header and footer templates are drawn in the margins of every page, or every page after the cover.
+ * Headings become the PDF's bookmarks; paginated output can also start with a table of contents, which takes
+ * a second render to learn where the headings landed.
+ * The HTML is sanitized first; scripts in it would run in the server's browser.
+ * Runs on a page of the shared browser pool, so it may wait for a free browser (see browser-pool.ts).
+ */
+export async function renderPdf(
+  html: string,
+  options: PdfOptions = DEFAULT_PDF_OPTIONS,
+  context: string = 'PDF export'
+): Promise<Buffer> {
+  const { width, height } = getPageDimensions(options);
+  const { margins } = options;
+  const content = sanitizeForRender(html, context);
+
+  return withBrowserPage(async (page) => {
+    // Lay the document out at the width of the printed content area, with print styles
+    await page.setViewport({
+      width: Math.round((width - margins.left - margins.right) * PX_PER_MM),
+      height: 800
+    });
+    await page.emulateMediaType('print');
+
+    await page.setContent(content, {
+      waitUntil: 'load',
+      timeout: 30000
+    });
+    // Stylesheets and fonts fetched after load
+    await page.waitForNetworkIdle({ idleTime: 500, timeout: 30000 });
+    await page.addStyleTag({ content: options.layout === 'paginated' ? PAGINATED_CSS : CONTINUOUS_CSS });
+    if (options.layout === 'paginated' && options.skipCover) {
+      await page.addStyleTag({ content: getCoverCss(options) });
+    }
+    const tocEntries = options.toc ? await insertToc(page, options) : 0;
+
+    // Wait for any images to load
+    await page.evaluate(() => {
+      return Promise.all(
+        Array.from(document.images)
+          .filter((img) => !img.complete)
+          .map((img) => new Promise((resolve) => {
+            img.onload = img.onerror = resolve;
+          }))
+      );
+    });
+
+    // Text is laid out again once web fonts arrive, which changes heights and page breaks
+    await page.evaluate(() => document.fonts.ready.then(() => undefined));
+
+    const pageSize = height !== null
+      ? { width: `${width}mm`, height: `${height}mm` }
+      : { width: `${width}mm`, height: `${await measureContinuousHeight(page, margins.top + margins.bottom)}mm` };
+
+    const headerFooter = options.header || options.footer
+      ? await buildHeaderFooter(page, options, context)
+      : null;
+
+    const print = async () => Buffer.from(await page.pdf({
+      ...pageSize,
+      ...headerFooter,
+      printBackground: true,
+      margin: {
+        top: `${margins.top}mm`,
+        right: `${margins.right}mm`,
+        bottom: `${margins.bottom}mm`,
+        left: `${margins.left}mm`
+      },
+      preferCSSPageSize: false,
+      // Bookmarks nested like the h1–h6 headings; Chrome builds them from the tagged structure
+      tagged: true,
+      outline: true
+    }));
+
+    if (tocEntries === 0) {
+      return print();
+    }
+
+    // The first render tells where each heading landed; its page number goes into the contents for the second
+    const headingPages = readDestinationPages(await print());
+    if (headingPages.size === 0) {
+      // The links are there, so Chrome wrote destinations that could not be read: check with `npm run check-pdf-toc`
+      console.error(`Table of contents for ${context}: could not read any heading pages from the PDF, the contents have no page numbers`);
+    }
+    const numbered = await fillTocPages(page, Object.fromEntries(headingPages));
+    if (numbered < tocEntries && headingPages.size > 0) {
+      console.warn(`Table of contents for ${context}: found pages for ${numbered} of ${tocEntries} headings`);
+    }
+
+    return print();
+  }, context);
+}
+
+/**
+ * Height in millimetres of a single page that holds the whole laid-out document plus its vertical margins
+ */
+async function measureContinuousHeight(page: Page, verticalMarginsMm: number): Promise<number> {
+  const contentHeight = await page.evaluate(() => {
+    const { body, documentElement } = document;
+    // Absolutely positioned content can reach past the scroll height
+    const lowestBottom = Array.from(body.querySelectorAll('*'))
+      .reduce((bottom, element) => Math.max(bottom, element.getBoundingClientRect().bottom + window.scrollY), 0);
+    return Math.max(body.scrollHeight, documentElement.scrollHeight, lowestBottom);
+  });
+
+  // Rounded up with a millimetre to spare, so the last line never spills onto a second page
+  return Math.ceil(contentHeight / PX_PER_MM) + verticalMarginsMm + 1;
+}
+
+/**
+ * Chrome's header and footer templates for page.pdf(), with the placeholders filled in.
+ * Chrome fills in the page number and count itself; a side without a template stays empty.
+ */
+async function buildHeaderFooter(
+  page: Page,
+  options: PdfOptions,
+  context: string
+): Promise<{ displayHeaderFooter: true; headerTemplate: string; footerTemplate: string }> {
+  const title = options.title || await page.evaluate(
+    () => document.title || document.querySelector('h1')?.textContent || ''
+  );
+  const values = {
+    title: escapeHtml(title.trim()),
+    date: new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' }),
+    page: '<span class="pageNumber"></span>',
+    pages: '<span class="totalPages"></span>',
+    documentid: escapeHtml(options.documentId || '')
+  };
+
+  const render = (template?: string) => template
+    ? wrapMarginTemplate(fillPlaceholders(sanitizeForRender(template, `${context} header/footer`), values, true).text, options.margins)
+    : '<span></span>';
+
+  return {
+    displayHeaderFooter: true,
+    headerTemplate: render(options.header),
+    footerTemplate: render(options.footer)
+  };
+}
+
+// Header and footer templates are laid out on their own, without the document's styles and at a tiny default
+// font size; this lines them up with the content and gives them readable text
+function wrapMarginTemplate(html: string, margins: PdfMargins): string {
+  return `<div style="box-sizing: border-box; width: 100%; padding: 0 ${margins.right}mm 0 ${margins.left}mm; `
+    + 'font-family: Arial, Helvetica, sans-serif; font-size: 9pt; color: #555; -webkit-print-color-adjust: exact;">'
+    + `${html}</div>`;
+}
+
+/**
+ * Insert a table of contents linking to the headings down to `tocDepth`, giving headings without an id one.
+ * It goes first, or after the cover with skipCover: after the first on-screen page (.a4-page) or page break.
+ * Returns the number of entries; without headings nothing is inserted.
+ */
+async function insertToc(page: Page, options: PdfOptions): Promise<number> {
+  await page.addStyleTag({ content: TOC_CSS });
+
+  return page.evaluate((depth: number, title: string, afterCover: boolean) => {
+    const headings = Array.from(document.body.querySelectorAll<HTMLElement>('h1, h2, h3, h4, h5, h6'))
+      .filter(heading => Number(heading.tagName[1]) <= depth && heading.textContent?.trim());
+    if (headings.length === 0) return 0;
+
+    const topLevel = Math.min(...headings.map(heading => Number(heading.tagName[1])));
+    const toc = document.createElement('nav');
+    toc.className = 'pdf-toc';
+
+    const heading = document.createElement('p');
+    heading.className = 'pdf-toc-title';
+    heading.textContent = title;
+    toc.appendChild(heading);
+
+    let next = 1;
+    for (const target of headings) {
+      // Links need a unique id to land on
+      if (!target.id || document.getElementById(target.id) !== target) {
+        while (document.getElementById(`toc-heading-${next}`)) next++;
+        target.id = `toc-heading-${next}`;
+      }
+
+      const level = Number(target.tagName[1]) - topLevel + 1;
+      const entry = document.createElement('a');
+      entry.className = `pdf-toc-entry pdf-toc-level-${level}`;
+      entry.href = `#${encodeURIComponent(target.id)}`;
+      entry.dataset.target = target.id;
+      entry.style.paddingLeft = `${(level - 1) * 1.5}em`;
+
+      const text = document.createElement('span');
+      text.textContent = target.textContent!.trim().replace(/\s+/g, ' ');
+      const leader = document.createElement('span');
+      leader.className = 'pdf-toc-leader';
+      const pageNumber = document.createElement('span');
+      pageNumber.className = 'pdf-toc-page';
+      entry.append(text, leader, pageNumber);
+      toc.appendChild(entry);
+    }
+
+    const cover = afterCover ? document.querySelector('.a4-page') || document.querySelector('.page-break') : null;
+    if (cover) {
+      toc.classList.add('pdf-toc-after-cover');
+      cover.after(toc);
+    } else {
+      document.body.prepend(toc);
+    }
+
+    return headings.length;
+  }, options.tocDepth ?? DEFAULT_TOC_DEPTH, TOC_TITLE, !!options.skipCover);
+}
+
+/**
+ * Write each heading's page number into the table of contents; returns how many were found
+ */
+async function fillTocPages(page: Page, headingPages: Record<string, number>): Promise<number> {
+  return page.evaluate((pages: Record<string, number>) => {
+    let found = 0;
+    document.querySelectorAll<HTMLElement>('.pdf-toc-entry').forEach(entry => {
+      const pageNumber = pages[entry.dataset.target || ''];
+      if (pageNumber) {
+        entry.querySelector('.pdf-toc-page')!.textContent = String(pageNumber);
+        found++;
+      }
+    });
+    return found;
+  }, headingPages);
+}
+
+/**
+ * Chrome draws header and footer inside the page margins, so the cover page loses the margins they use.
+ * A spacer keeps the cover's content clear of the top edge; its bottom margin is gone.
+ */
+function getCoverCss({ header, footer, margins }: PdfOptions): string {
+  return `
+    @page :first {
+      ${header ? 'margin-top: 0;' : ''}
+      ${footer ? 'margin-bottom: 0;' : ''}
+    }
+    ${header ? `body::before { content: ''; display: block; height: ${margins.top}mm; }` : ''}
+  `;
+}
@@ -0,0 +1,29 @@
+import { ValidationError } from '@/utils/api-errors';
+
+// Table of contents options, shared by PDF and DOCX exports and the export controls in the browser
+
+export interface TocOptions {
+  // Insert a table of contents page listing the document's headings
+  toc?: boolean;
+  // Deepest heading level listed, 1 (h1 only) to 6
+  tocDepth?: number;
+}
+
+export const DEFAULT_TOC_DEPTH = 3;
+export const TOC_TITLE = 'Contents';
+
+/**
+ * Read `toc` and `tocDepth` from a request body. Throws ValidationError.
+ */
+export function readTocOptions(data: Record<string, unknown>): TocOptions {
+  if (data.toc !== undefined && data.toc !== null && typeof data.toc !== 'boolean') {
+    throw new ValidationError('toc must be true or false', { field: 'toc' });
+  }
+
+  const depth = data.tocDepth ?? DEFAULT_TOC_DEPTH;
+  if (typeof depth !== 'number' || !Number.isInteger(depth) || depth < 1 || depth > 6) {
+    throw new ValidationError('tocDepth must be a heading level from 1 to 6', { field: 'tocDepth' });
+  }
+
+  return data.toc === true ? { toc: true, tocDepth: depth } : {};
+}
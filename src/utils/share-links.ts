@@ -0,0 +1,46 @@
+import { randomBytes } from 'crypto';
+import { getJobStore, DocumentJob, DocumentShareLink } from '@/utils/job-store';
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getShareLinkStatus(link: DocumentShareLink, now: number = Date.now()): ShareLinkStatus {
+  if (link.revoked_at) return 'revoked';
+  if (link.expires_at && new Date(link.expires_at).getTime() <= now) return 'expired';
+  return 'active';
+}
+
+/**
+ * Create a read-only link to a document, optionally expiring after a number of days
+ */
+export function createShareLink(
+  documentId: string,
+  createdBy: string,
+  expiresInDays?: number | null
+): Promise<DocumentShareLink | null> {
+  return getJobStore().createShareLink({
+    document_id: documentId,
+    // 192 random bits, URL-safe
+    token: randomBytes(24).toString('base64url'),
+    created_by: createdBy,
+    expires_at: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS).toISOString() : null
+  });
+}
+
+/**
+ * The document behind a share link token, or null if the link is unknown, expired or revoked
+ */
+export async function resolveShareLink(
+  token: string
+): Promise<{ link: DocumentShareLink; document: DocumentJob } | null> {
+  const store = getJobStore();
+  const link = await store.getShareLinkByToken(token);
+
+  if (!link || getShareLinkStatus(link) !== 'active') {
+    return null;
+  }
+
+  const document = await store.getJob(link.document_id);
+  return document ? { link, document } : null;
+}
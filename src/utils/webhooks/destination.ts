@@ -0,0 +1,104 @@
+import type { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, LookupFunction } from 'net';
+
+// Per-job callback URLs come from users, and the server calls them from inside its own network.
+// They may not reach loopback, private, link-local (cloud metadata) or other non-public addresses,
+// also not through IPv6 addresses that embed an IPv4 one (NAT64, IPv4-compatible).
+
+const NON_PUBLIC = new BlockList();
+([
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const).forEach(([network, prefix]) => NON_PUBLIC.addSubnet(network, prefix, 'ipv4'));
+([
+  ['::', 96], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const).forEach(([network, prefix]) => NON_PUBLIC.addSubnet(network, prefix, 'ipv6'));
+
+let cachedAllowedHosts: string[] | null = null;
+
+/**
+ * Hosts per-job callback URLs are limited to, from WEBHOOK_ALLOWED_HOSTS (comma-separated,
+ * `*.example.com` for any subdomain). Empty when any public host may be called.
+ */
+function getAllowedHosts(): string[] {
+  if (!cachedAllowedHosts) {
+    cachedAllowedHosts = (process.env.WEBHOOK_ALLOWED_HOSTS || '')
+      .split(',')
+      .map(host => host.trim().toLowerCase())
+      .filter(Boolean);
+  }
+
+  return cachedAllowedHosts;
+}
+
+function isAllowedHost(hostname: string, allowedHosts: string[]): boolean {
+  return allowedHosts.some(host => host.startsWith('*.')
+    ? hostname.endsWith(host.slice(1))
+    : hostname === host);
+}
+
+/**
+ * Whether an IP address is outside the public internet. IPv4-mapped IPv6 addresses count as their IPv4 address.
+ */
+export function isNonPublicAddress(address: string): boolean {
+  return NON_PUBLIC.check(address, address.includes(':') ? 'ipv6' : 'ipv4');
+}
+
+export interface CallbackDestination {
+  /** Why the URL may not be called, or null when it may */
+  refused: string | null;
+  /** The checked addresses, to connect to without resolving the host again; null for allowed hosts */
+  addresses: LookupAddress[] | null;
+}
+
+/**
+ * Check a per-job callback URL. With WEBHOOK_ALLOWED_HOSTS the host must be listed, and listed hosts are
+ * trusted wherever they point. Otherwise every address the host resolves to must be public.
+ * Throws when the host cannot be resolved.
+ */
+export async function resolveCallbackDestination(callbackUrl: string): Promise<CallbackDestination> {
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = new URL(callbackUrl).hostname.toLowerCase().replace(/^\[|\]$/g, '');
+
+  const allowedHosts = getAllowedHosts();
+  if (allowedHosts.length > 0) {
+    return {
+      refused: isAllowedHost(hostname, allowedHosts) ? null : 'callbackUrl host is not on the list of allowed webhook hosts',
+      addresses: null
+    };
+  }
+
+  const addresses = await lookup(hostname, { all: true, verbatim: true });
+  return {
+    refused: addresses.length === 0 || addresses.some(({ address }) => isNonPublicAddress(address))
+      ? 'callbackUrl must not point to a private, loopback or link-local address'
+      : null,
+    addresses
+  };
+}
+
+/**
+ * Why a per-job callback URL may not be called, or null when it may (see resolveCallbackDestination)
+ */
+export async function checkCallbackDestination(callbackUrl: string): Promise<string | null> {
+  return (await resolveCallbackDestination(callbackUrl)).refused;
+}
+
+/**
+ * A `lookup` for http(s) requests that answers with addresses checked earlier. A host whose DNS answer
+ * changes after the check (DNS rebinding) cannot send the request somewhere else.
+ */
+export function pinnedLookup(addresses: LookupAddress[]): LookupFunction {
+  return (hostname, options, callback) => {
+    const matching = options.family ? addresses.filter(({ family }) => family === options.family) : addresses;
+    if (matching.length === 0) {
+      callback(Object.assign(new Error(`No checked address for ${hostname}`), { code: 'ENOTFOUND' }), '');
+    } else if (options.all) {
+      callback(null, matching);
+    } else {
+      callback(null, matching[0].address, matching[0].family);
+    }
+  };
+}
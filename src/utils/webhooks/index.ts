@@ -0,0 +1,186 @@
+import type { LookupFunction } from 'net';
+import { getJobStore, DocumentJob, WebhookDelivery } from '@/utils/job-store';
+import { getDocumentId } from '@/utils/document-revisions';
+import { buildWebhookPayload, JobOutcome } from './payload';
+import { SIGNATURE_HEADER, signWebhook } from './signature';
+import { pinnedLookup, resolveCallbackDestination } from './destination';
+import { postWebhook } from './transport';
+
+export { buildWebhookPayload } from './payload';
+export { checkCallbackDestination } from './destination';
+export { SIGNATURE_HEADER, signWebhook, verifyWebhookSignature } from './signature';
+export type { JobOutcome, WebhookEvent, WebhookPayload } from './payload';
+
+// Delivery tuning, overridable through the environment
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS || 6);
+const RETRY_BASE_DELAY_MS = Number(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || 30 * 1000);
+const RETRY_MAX_DELAY_MS = Number(process.env.WEBHOOK_RETRY_MAX_DELAY_MS || 60 * 60 * 1000);
+const TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS || 10 * 1000);
+const POLL_INTERVAL_MS = Number(process.env.WEBHOOK_POLL_INTERVAL_MS || 1000);
+
+const MAX_URL_LENGTH = 2048;
+
+let cachedGlobalUrls: string[] | null = null;
+
+/**
+ * Callback URLs called for every job, from WEBHOOK_URLS (comma-separated)
+ */
+export function getGlobalWebhookUrls(): string[] {
+  if (!cachedGlobalUrls) {
+    cachedGlobalUrls = (process.env.WEBHOOK_URLS || '')
+      .split(',')
+      .map(url => url.trim())
+      .filter(Boolean)
+      .filter(url => {
+        if (isValidCallbackUrl(url)) return true;
+        console.warn(`Ignoring invalid URL in WEBHOOK_URLS: ${url}`);
+        return false;
+      });
+  }
+
+  return cachedGlobalUrls;
+}
+
+/**
+ * Absolute http(s) URL of a reasonable length
+ */
+export function isValidCallbackUrl(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length > MAX_URL_LENGTH) return false;
+
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Queue one delivery per callback URL (the job's own and WEBHOOK_URLS) for a finished job.
+ * Never throws: a notification problem must not change the outcome of the job.
+ */
+export async function queueJobWebhooks(job: DocumentJob, outcome: JobOutcome): Promise<WebhookDelivery[]> {
+  const urls = Array.from(new Set([job.callback_url, ...getGlobalWebhookUrls()].filter(isValidCallbackUrl)));
+  if (urls.length === 0) return [];
+
+  try {
+    const documentId = getDocumentId(job);
+    const payload = buildWebhookPayload(job.job_id, documentId, outcome);
+
+    return await getJobStore().createWebhookDeliveries(urls.map(url => ({
+      document_id: documentId,
+      job_id: job.job_id,
+      event: payload.event,
+      url,
+      payload,
+      max_attempts: MAX_ATTEMPTS
+    })));
+  } catch (error) {
+    console.error(`Error queueing webhooks for job ${job.job_id}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Exponential backoff: base, 2x base, 4x base, ... capped at the max delay
+ */
+export function getWebhookRetryDelay(attempt: number): number {
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempt - 1)));
+}
+
+/**
+ * Claim and send a single due delivery. Returns false when nothing was due.
+ */
+export async function deliverNextWebhook(): Promise<boolean> {
+  // A worker that dies mid-attempt leaves the delivery `delivering`; it is claimed again after the lease
+  const leaseUntil = new Date(Date.now() + TIMEOUT_MS + 60 * 1000).toISOString();
+  const delivery = await getJobStore().claimNextWebhookDelivery(leaseUntil);
+
+  if (!delivery) {
+    return false;
+  }
+
+  await sendDelivery(delivery);
+  return true;
+}
+
+async function sendDelivery(delivery: WebhookDelivery) {
+  const body = JSON.stringify(delivery.payload);
+  let responseStatus: number | null = null;
+  let failure: string;
+
+  try {
+    // Checked on every attempt, because the host may resolve elsewhere by now; WEBHOOK_URLS are the operator's own.
+    // The request then goes to the addresses that passed the check.
+    let lookup: LookupFunction | undefined;
+    if (!getGlobalWebhookUrls().includes(delivery.url)) {
+      const { refused, addresses } = await resolveCallbackDestination(delivery.url);
+      if (refused) {
+        console.warn(`Webhook ${delivery.delivery_id} to ${delivery.url} refused: ${refused}`);
+        await getJobStore().updateWebhookDelivery(delivery.delivery_id, {
+          status: 'failed',
+          response_status: null,
+          last_error: refused,
+          next_attempt_at: new Date().toISOString()
+        });
+        return;
+      }
+      lookup = addresses ? pinnedLookup(addresses) : undefined;
+    }
+
+    responseStatus = await postWebhook(delivery.url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'SmartHandbook-Webhooks/1.0',
+      'X-Handbook-Event': delivery.event,
+      'X-Handbook-Delivery': delivery.delivery_id,
+      [SIGNATURE_HEADER]: signWebhook(body)
+    }, body, { timeoutMs: TIMEOUT_MS, lookup });
+
+    if (responseStatus >= 200 && responseStatus < 300) {
+      await getJobStore().updateWebhookDelivery(delivery.delivery_id, {
+        status: 'delivered',
+        response_status: responseStatus,
+        last_error: null,
+        delivered_at: new Date().toISOString()
+      });
+      return;
+    }
+
+    failure = `Responded with status ${responseStatus}`;
+  } catch (error) {
+    failure = error instanceof Error && error.name === 'TimeoutError'
+      ? `No response within ${Math.round(TIMEOUT_MS / 1000)} seconds`
+      : `Could not reach the callback URL: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+
+  const exhausted = delivery.attempts >= delivery.max_attempts;
+  const delay = getWebhookRetryDelay(delivery.attempts);
+  console.warn(
+    `Webhook ${delivery.delivery_id} to ${delivery.url} failed (attempt ${delivery.attempts}/${delivery.max_attempts}): ${failure}` +
+    (exhausted ? '' : `, retrying in ${Math.round(delay / 1000)}s`)
+  );
+
+  await getJobStore().updateWebhookDelivery(delivery.delivery_id, {
+    status: exhausted ? 'failed' : 'pending',
+    response_status: responseStatus,
+    last_error: failure,
+    next_attempt_at: new Date(Date.now() + (exhausted ? 0 : delay)).toISOString()
+  });
+}
+
+/**
+ * Send due webhook deliveries until the signal is aborted.
+ * Runs next to the job loop in the worker, so a long generation does not hold up notifications.
+ */
+export async function runWebhookDispatcher(options: { signal?: AbortSignal } = {}) {
+  while (!options.signal?.aborted) {
+    try {
+      const didWork = await deliverNextWebhook();
+      if (didWork) continue;
+    } catch (error) {
+      console.error('Webhook dispatcher error:', error);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
@@ -0,0 +1,59 @@
+import type { ErrorCode } from '@/utils/api-errors';
+
+export type WebhookEvent = 'job.completed' | 'job.failed' | 'job.cancelled';
+
+/**
+ * JSON body of a webhook call
+ */
+export interface WebhookPayload {
+  event: WebhookEvent;
+  jobId: string;
+  // The document the job created or edited (the job itself for new documents)
+  documentId: string;
+  status: 'completed' | 'failed' | 'cancelled';
+  // Set for failed and cancelled jobs
+  error?: string;
+  errorCode?: ErrorCode;
+  links: {
+    // The document page in the app
+    document: string;
+    // The current HTML as a page
+    preview: string;
+    // JSON status of the job
+    job: string;
+  };
+  finishedAt: string;
+}
+
+export interface JobOutcome {
+  status: WebhookPayload['status'];
+  error?: string | null;
+  errorCode?: ErrorCode | null;
+}
+
+// Base URL for links in payloads; the links need a signed-in session unless the document is shared
+const APP_URL = (process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+
+export function buildWebhookPayload(jobId: string, documentId: string, outcome: JobOutcome): WebhookPayload {
+  const payload: WebhookPayload = {
+    event: `job.${outcome.status}`,
+    jobId,
+    documentId,
+    status: outcome.status,
+    links: {
+      document: `${APP_URL}/document/${documentId}`,
+      preview: `${APP_URL}/api/documents/${documentId}/preview`,
+      job: `${APP_URL}/api/jobs/${jobId}`
+    },
+    finishedAt: new Date().toISOString()
+  };
+
+  if (outcome.status !== 'completed') {
+    payload.error = outcome.error || (outcome.status === 'cancelled' ? 'Cancelled by user' : 'Unknown error');
+  }
+  if (outcome.status === 'failed') {
+    payload.errorCode = outcome.errorCode || 'internal_error';
+  }
+
+  return payload;
+}
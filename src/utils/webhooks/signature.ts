@@ -0,0 +1,52 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'X-Handbook-Signature';
+
+const DEV_SECRET = 'smart-handbook-dev-webhook-secret';
+
+let warnedAboutSecret = false;
+
+function getSecret(): string {
+  const secret = process.env.WEBHOOK_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('WEBHOOK_SECRET must be set in production');
+  }
+
+  if (!warnedAboutSecret) {
+    warnedAboutSecret = true;
+    console.warn('WEBHOOK_SECRET is not set, signing webhooks with a development secret');
+  }
+  return DEV_SECRET;
+}
+
+/**
+ * Signature header value: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ * The timestamp is signed too, so receivers can reject replays of old calls.
+ */
+export function signWebhook(body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', getSecret()).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check a received signature header against the raw body, for receivers written in TypeScript
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string,
+  toleranceSeconds: number = 5 * 60,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = Object.fromEntries(header.split(',').map(part => part.trim().split('=', 2)));
+  const timestamp = Number(parts.t);
+
+  if (!parts.v1 || !Number.isInteger(timestamp) || Math.abs(now - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhook(body, timestamp).split('v1=')[1]);
+  const received = Buffer.from(parts.v1);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
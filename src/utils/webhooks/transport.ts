@@ -0,0 +1,35 @@
+import http from 'http';
+import https from 'https';
+import type { LookupFunction } from 'net';
+
+/**
+ * POST a webhook body and resolve to the response status. Redirects are not followed, since they would
+ * re-send the payload somewhere nobody registered. With `lookup`, the host is not resolved again.
+ * A request that takes longer than `timeoutMs` rejects with a TimeoutError.
+ */
+export function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  options: { timeoutMs: number; lookup?: LookupFunction }
+): Promise<number> {
+  const target = new URL(url);
+  const signal = AbortSignal.timeout(options.timeoutMs);
+
+  return new Promise((resolve, reject) => {
+    const request = (target.protocol === 'https:' ? https : http).request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+      lookup: options.lookup,
+      signal
+    }, response => {
+      // Only the status matters; the body is read and dropped so the connection closes
+      response.resume();
+      response.on('end', () => resolve(response.statusCode ?? 0));
+      response.on('error', error => reject(signal.aborted ? signal.reason : error));
+    });
+
+    request.on('error', error => reject(signal.aborted ? signal.reason : error));
+    request.end(body);
+  });
+}